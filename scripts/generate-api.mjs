@@ -0,0 +1,219 @@
+// Generates src/lib/generated/openapi.ts (types, zod schemas and a client) from openapi.json.
+// Usage: npm run generate:api
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const specPath = resolve(root, 'openapi.json');
+const outPath = resolve(root, 'src/lib/generated/openapi.ts');
+
+const spec = JSON.parse(readFileSync(specPath, 'utf8'));
+const schemas = spec.components?.schemas ?? {};
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+const refName = (ref) => ref.replace('#/components/schemas/', '');
+const quote = (value) => `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+const indent = (text, depth) => text.split('\n').map((line) => (line ? '  '.repeat(depth) + line : line)).join('\n');
+
+// A single-item allOf is how OpenAPI 3.0 marks a $ref as nullable
+function unwrap(schema) {
+  if (schema.allOf?.length === 1) {
+    return { ...schema.allOf[0], nullable: schema.nullable };
+  }
+  return schema;
+}
+
+function tsType(raw) {
+  const schema = unwrap(raw);
+  let type;
+  if (schema.$ref) {
+    type = refName(schema.$ref);
+  } else if (schema.enum) {
+    type = schema.enum.map(quote).join(' | ');
+  } else if (schema.type === 'string') {
+    type = schema.format === 'binary' ? 'Blob' : 'string';
+  } else if (schema.type === 'integer' || schema.type === 'number') {
+    type = 'number';
+  } else if (schema.type === 'boolean') {
+    type = 'boolean';
+  } else if (schema.type === 'array') {
+    type = `Array<${tsType(schema.items)}>`;
+  } else if (schema.type === 'object' && schema.properties) {
+    type = `{\n${tsProperties(schema)}\n}`;
+  } else if (schema.type === 'object' && schema.additionalProperties) {
+    type = `Record<string, ${tsType(schema.additionalProperties)}>`;
+  } else {
+    type = 'unknown';
+  }
+  return schema.nullable ? `${type} | null` : type;
+}
+
+// Nested lines are indented relative to the enclosing type
+function tsProperties(schema) {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties).map(([name, property]) => {
+    const comment = property.description ? `// ${property.description}\n` : '';
+    const optional = required.has(name) ? '' : '?';
+    return indent(`${comment}${name}${optional}: ${tsType(property)};`, 1);
+  }).join('\n');
+}
+
+function zodType(raw) {
+  const schema = unwrap(raw);
+  let type;
+  if (schema.$ref) {
+    type = `${refName(schema.$ref)}Schema`;
+  } else if (schema.enum) {
+    type = `z.enum([${schema.enum.map(quote).join(', ')}])`;
+  } else if (schema.type === 'string') {
+    type = schema.format === 'binary' ? 'z.instanceof(Blob)' : 'z.string()';
+  } else if (schema.type === 'integer') {
+    type = 'z.number().int()';
+  } else if (schema.type === 'number') {
+    type = 'z.number()';
+  } else if (schema.type === 'boolean') {
+    type = 'z.boolean()';
+  } else if (schema.type === 'array') {
+    type = `z.array(${zodType(schema.items)})`;
+  } else if (schema.type === 'object' && schema.properties) {
+    const required = new Set(schema.required ?? []);
+    const fields = Object.entries(schema.properties).map(([name, property]) =>
+      indent(`${name}: ${zodType(property)}${required.has(name) ? '' : '.optional()'},`, 1)
+    );
+    type = `z.object({\n${fields.join('\n')}\n})`;
+  } else if (schema.type === 'object' && schema.additionalProperties) {
+    type = `z.record(${zodType(schema.additionalProperties)})`;
+  } else {
+    type = 'z.unknown()';
+  }
+  return schema.nullable ? `${type}.nullable()` : type;
+}
+
+function collectRefs(schema, refs = new Set()) {
+  if (!schema || typeof schema !== 'object') return refs;
+  if (schema.$ref) refs.add(refName(schema.$ref));
+  Object.values(schema).forEach((value) => collectRefs(value, refs));
+  return refs;
+}
+
+// Schemas reference each other as constants, so dependencies must be declared first
+function sortSchemas() {
+  const sorted = [];
+  const visiting = new Set();
+  const visit = (name) => {
+    if (sorted.includes(name)) return;
+    if (visiting.has(name)) throw new Error(`Circular schema reference through ${name}`);
+    visiting.add(name);
+    collectRefs(schemas[name]).forEach(visit);
+    visiting.delete(name);
+    sorted.push(name);
+  };
+  Object.keys(schemas).forEach(visit);
+  return sorted;
+}
+
+function generateOperation(path, method, operation, sharedParameters) {
+  const name = operation.operationId;
+  if (!name) throw new Error(`${method.toUpperCase()} ${path} has no operationId`);
+
+  const pathParams = [...sharedParameters, ...(operation.parameters ?? [])].filter((param) => param.in === 'path');
+  const args = [];
+  if (pathParams.length > 0) {
+    args.push(`params: { ${pathParams.map((param) => `${param.name}: string`).join('; ')} }`);
+  }
+
+  const options = [];
+  const body = operation.requestBody?.content ?? {};
+  if (body['application/json']) {
+    args.push(`body: ${tsType(body['application/json'].schema)}`);
+    options.push('json: body');
+  } else if (body['multipart/form-data']) {
+    // Uploads can report progress and be cancelled by the caller
+    args.push(`body: ${tsType(body['multipart/form-data'].schema)}`, 'control?: RequestControl');
+    options.push('form: body', '...control');
+  }
+
+  const success = operation.responses?.['200'] ?? operation.responses?.['201'] ?? operation.responses?.['202'];
+  const [contentType, media] = Object.entries(success?.content ?? {})[0] ?? [];
+  let resultType = 'void';
+  if (contentType === 'application/json') {
+    resultType = tsType(media.schema);
+    options.unshift(`schema: ${zodType(media.schema)}`);
+  } else if (contentType) {
+    resultType = 'Blob';
+    options.push(`responseType: 'blob'`);
+    // Downloads can be large, so the caller can cancel them too
+    if (!args.includes('control?: RequestControl')) {
+      args.push('control?: RequestControl');
+      options.push('...control');
+    }
+  }
+
+  const url = pathParams.length > 0
+    ? '`' + path.replace(/\{(\w+)\}/g, (_, param) => `\${encodeURIComponent(params.${param})}`) + '`'
+    : quote(path);
+  const comment = operation.summary ? `// ${operation.summary}\n` : '';
+  return `${comment}${name}: (${args.join(', ')}) =>\n  request<${resultType}>('${method.toUpperCase()}', ${url}, { ${options.join(', ')} }),`;
+}
+
+const output = [
+  '// Generated by scripts/generate-api.mjs from openapi.json. Do not edit by hand;',
+  '// change the contract and run `npm run generate:api` instead.',
+  "import { z } from 'zod';",
+  '',
+];
+
+for (const [name, raw] of Object.entries(schemas)) {
+  const schema = unwrap(raw);
+  if (schema.type === 'object' && schema.properties) {
+    output.push(`export interface ${name} {\n${tsProperties(schema)}\n}`, '');
+  } else {
+    output.push(`export type ${name} = ${tsType(schema)};`, '');
+  }
+}
+
+for (const name of sortSchemas()) {
+  output.push(`export const ${name}Schema = ${zodType(schemas[name])};`, '');
+}
+
+const operations = [];
+for (const [path, item] of Object.entries(spec.paths)) {
+  for (const method of HTTP_METHODS) {
+    // Event streams are read with EventSource rather than the request client
+    if (item[method] && !item[method].responses?.['200']?.content?.['text/event-stream']) {
+      operations.push(generateOperation(path, method, item[method], item.parameters ?? []));
+    }
+  }
+}
+
+output.push(
+  "export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';",
+  '',
+  'export interface ApiRequestOptions {',
+  '  // Validates a JSON response; omitted for binary responses',
+  '  schema?: z.ZodTypeAny;',
+  '  json?: unknown;',
+  '  form?: object;',
+  "  responseType?: 'json' | 'blob';",
+  '  // Aborts the request, e.g. from a cancel button',
+  '  signal?: AbortSignal;',
+  '  // Reports bytes sent while a form body uploads',
+  '  onUploadProgress?: (loaded: number, total: number) => void;',
+  '}',
+  '',
+  "export type RequestControl = Pick<ApiRequestOptions, 'signal' | 'onUploadProgress'>;",
+  '',
+  'export type ApiTransport = <T>(method: HttpMethod, path: string, options: ApiRequestOptions) => Promise<T>;',
+  '',
+  'export function createApiClient(request: ApiTransport) {',
+  '  return {',
+  indent(operations.join('\n'), 2),
+  '  };',
+  '}',
+  ''
+);
+
+mkdirSync(dirname(outPath), { recursive: true });
+writeFileSync(outPath, output.join('\n'));
+console.log(`Wrote ${operations.length} operations and ${Object.keys(schemas).length} schemas to ${outPath}`);
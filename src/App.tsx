@@ -3,34 +3,53 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { ThemeProvider } from "next-themes";
 import { AppLayout } from "./components/layout/AppLayout";
 import Dashboard from "./pages/Dashboard";
+import ComplianceTrends from "./pages/ComplianceTrends";
 import BiasDetection from "./pages/BiasDetection";
+import DataAudit from "./pages/DataAudit";
 import Explainability from "./pages/Explainability";
 import ComplianceReport from "./pages/ComplianceReport";
+import ModelGovernance from "./pages/ModelGovernance";
+import ModelDetail from "./pages/ModelDetail";
+import AuditHistory from "./pages/AuditHistory";
+import BiasComparison from "./pages/BiasComparison";
+import BatchBiasAudit from "./pages/BatchBiasAudit";
+import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const App = () => (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <AppLayout>
-            <Routes>
-              <Route path="/" element={<Dashboard />} />
-              <Route path="/bias-detection" element={<BiasDetection />} />
-              <Route path="/explainability" element={<Explainability />} />
-              <Route path="/compliance" element={<ComplianceReport />} />
-              <Route path="/governance" element={<Dashboard />} />
-              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </AppLayout>
-        </BrowserRouter>
-      </TooltipProvider>
+      {/* The base palette in index.css is dark; the light theme overrides it */}
+      <ThemeProvider attribute="class" defaultTheme="dark" themes={["dark", "light"]} enableSystem storageKey="ethical-ai-auditor:theme">
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <AppLayout>
+              <Routes>
+                <Route path="/" element={<Dashboard />} />
+                <Route path="/trends" element={<ComplianceTrends />} />
+                <Route path="/data-audit" element={<DataAudit />} />
+                <Route path="/bias-detection" element={<BiasDetection />} />
+                <Route path="/bias-detection/compare" element={<BiasComparison />} />
+                <Route path="/bias-detection/batch" element={<BatchBiasAudit />} />
+                <Route path="/explainability" element={<Explainability />} />
+                <Route path="/compliance" element={<ComplianceReport />} />
+                <Route path="/governance" element={<ModelGovernance />} />
+                <Route path="/models/:name/:version" element={<ModelDetail />} />
+                <Route path="/history" element={<AuditHistory />} />
+                <Route path="/settings" element={<Settings />} />
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </AppLayout>
+          </BrowserRouter>
+        </TooltipProvider>
+      </ThemeProvider>
     </QueryClientProvider>
 );
 
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, biasDetectionApi, GovernanceModel, RiskTier } from "@/lib/api";
+import { RISK_TIER_LABELS, RISK_TIERS } from "@/lib/governance";
+import { suggestMitigatedVersion } from "@/lib/mitigation";
+
+interface AcceptMitigationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mitigationId: string;
+  modelName: string;
+  modelVersion: string;
+  onAccepted: (model: GovernanceModel) => void;
+}
+
+// Registers the mitigated configuration as a new draft version; owner and risk tier default to the mitigated version's
+export function AcceptMitigationDialog({ open, onOpenChange, mitigationId, modelName, modelVersion, onAccepted }: AcceptMitigationDialogProps) {
+  const [version, setVersion] = useState(suggestMitigatedVersion(modelVersion));
+  const [owner, setOwner] = useState("");
+  const [riskTier, setRiskTier] = useState<RiskTier | "inherit">("inherit");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const handleAccept = async () => {
+    if (!version.trim()) {
+      toast({
+        title: "Missing required field",
+        description: "Please fill in version",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const model = await biasDetectionApi.acceptMitigation(mitigationId, {
+        version: version.trim(),
+        owner: owner.trim() || undefined,
+        risk_tier: riskTier === "inherit" ? undefined : riskTier,
+      });
+      onAccepted(model);
+      onOpenChange(false);
+      toast({
+        title: "Mitigation accepted",
+        description: `${model.model_name} v${model.version} registered as draft`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not accept mitigation",
+        description: error instanceof ApiError ? error.message : "Failed to register the new version",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Accept as New Version</DialogTitle>
+          <DialogDescription>
+            Registers the mitigated {modelName} as a draft version with this mitigation linked as an audit artifact
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="mitigated_version">Version</Label>
+            <Input id="mitigated_version" value={version} onChange={(e) => setVersion(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="mitigated_owner">Owner</Label>
+            <Input
+              id="mitigated_owner"
+              placeholder={`Same as v${modelVersion}`}
+              value={owner}
+              onChange={(e) => setOwner(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="mitigated_risk_tier">Risk Tier</Label>
+            <Select value={riskTier} onValueChange={(value) => setRiskTier(value as RiskTier | "inherit")}>
+              <SelectTrigger id="mitigated_risk_tier">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="inherit">Same as v{modelVersion}</SelectItem>
+                {RISK_TIERS.map(tier => (
+                  <SelectItem key={tier} value={tier}>{RISK_TIER_LABELS[tier]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleAccept} disabled={saving}>{saving ? "Registering..." : "Register Version"}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
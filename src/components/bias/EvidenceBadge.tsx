@@ -0,0 +1,17 @@
+import { Badge } from "@/components/ui/badge";
+import type { EvidenceVerdict } from "@/lib/api";
+import { EVIDENCE_VERDICT_LABELS } from "@/lib/fairness";
+
+const VERDICT_STYLES: Record<EvidenceVerdict, string> = {
+  fair: "border-success text-success",
+  unfair: "border-destructive text-destructive",
+  insufficient_evidence: "border-warning text-warning",
+};
+
+export function EvidenceBadge({ verdict }: { verdict: EvidenceVerdict }) {
+  return (
+    <Badge variant="outline" className={VERDICT_STYLES[verdict]}>
+      {EVIDENCE_VERDICT_LABELS[verdict]}
+    </Badge>
+  );
+}
@@ -0,0 +1,130 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ColumnSelect } from "@/components/common/ColumnSelect";
+import type { GroupAnalysisConfig } from "@/lib/api";
+import { DatasetSchema, getColumnOptions, getColumnValues, getGroupOptions } from "@/lib/csv";
+
+interface GroupAnalysisFormProps {
+  schema: DatasetSchema | null;
+  targetVariable: string;
+  config: GroupAnalysisConfig;
+  onChange: (config: GroupAnalysisConfig) => void;
+}
+
+// Picks several sensitive attributes, a reference group for each and the groups compared against it
+export function GroupAnalysisForm({ schema, targetVariable, config, onChange }: GroupAnalysisFormProps) {
+  const attributeOptions = getColumnOptions(schema, [targetVariable]);
+
+  // New attributes default to the most frequent group as reference and every other group compared
+  const toggleAttribute = (attribute: string, checked: boolean) => {
+    if (!checked) {
+      const { [attribute]: _reference, ...reference_groups } = config.reference_groups;
+      const { [attribute]: _groups, ...comparison_groups } = config.comparison_groups;
+      const sensitive_attributes = config.sensitive_attributes.filter(name => name !== attribute);
+      onChange({
+        sensitive_attributes,
+        reference_groups,
+        comparison_groups,
+        intersectional: config.intersectional && sensitive_attributes.length > 1,
+      });
+      return;
+    }
+
+    const [reference, ...others] = getColumnValues(schema, attribute);
+    onChange({
+      ...config,
+      sensitive_attributes: [...config.sensitive_attributes, attribute],
+      reference_groups: { ...config.reference_groups, [attribute]: reference ?? "" },
+      comparison_groups: { ...config.comparison_groups, [attribute]: others },
+    });
+  };
+
+  const setReference = (attribute: string, reference: string) => {
+    const groups = getColumnValues(schema, attribute).filter(value => value !== reference);
+    onChange({
+      ...config,
+      reference_groups: { ...config.reference_groups, [attribute]: reference },
+      comparison_groups: { ...config.comparison_groups, [attribute]: groups },
+    });
+  };
+
+  const toggleGroup = (attribute: string, group: string, checked: boolean) => {
+    const current = config.comparison_groups[attribute] ?? [];
+    onChange({
+      ...config,
+      comparison_groups: {
+        ...config.comparison_groups,
+        [attribute]: checked ? [...current, group] : current.filter(value => value !== group),
+      },
+    });
+  };
+
+  if (attributeOptions.length === 0) {
+    return <p className="text-sm text-muted-foreground">Upload a CSV file to choose sensitive attributes</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label>Sensitive Attributes</Label>
+        <div className="grid grid-cols-2 gap-2 mt-2">
+          {attributeOptions.map(option => (
+            <label key={option.value} className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={config.sensitive_attributes.includes(option.value)}
+                onCheckedChange={(checked) => toggleAttribute(option.value, checked === true)}
+              />
+              {option.value}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {config.sensitive_attributes.map(attribute => (
+        <div key={attribute} className="p-3 rounded-lg border border-border space-y-3">
+          <div>
+            <Label htmlFor={`reference_${attribute}`}>Reference group for {attribute}</Label>
+            <ColumnSelect
+              id={`reference_${attribute}`}
+              placeholder="Select reference group"
+              value={config.reference_groups[attribute] ?? ""}
+              options={getGroupOptions(schema, attribute)}
+              onValueChange={(value) => setReference(attribute, value)}
+            />
+          </div>
+          <div>
+            <Label>Compared groups</Label>
+            <div className="grid grid-cols-2 gap-2 mt-2 max-h-32 overflow-y-auto">
+              {getGroupOptions(schema, attribute, [config.reference_groups[attribute]]).map(option => (
+                <label key={option.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={(config.comparison_groups[attribute] ?? []).includes(option.value)}
+                    onCheckedChange={(checked) => toggleGroup(attribute, option.value, checked === true)}
+                  />
+                  {option.value}
+                  <span className="text-xs text-muted-foreground">{option.hint}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="intersectional">Intersectional analysis</Label>
+          <p className="text-xs text-muted-foreground">
+            Also compare combinations such as {config.sensitive_attributes.slice(0, 2).join(" × ") || "gender × race"}
+          </p>
+        </div>
+        <Switch
+          id="intersectional"
+          checked={config.intersectional}
+          disabled={config.sensitive_attributes.length < 2}
+          onCheckedChange={(checked) => onChange({ ...config, intersectional: checked })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle } from "lucide-react";
+import type { GroupPairMetrics } from "@/lib/api";
+import { FAIRNESS_METRICS, findWorstComparison, isMetricFair } from "@/lib/fairness";
+import type { FairnessThresholds } from "@/lib/policies";
+
+interface GroupMetricMatrixProps {
+  comparisons: GroupPairMetrics[];
+  thresholds: FairnessThresholds;
+}
+
+const SHORT_LABELS: Record<string, string> = {
+  disparate_impact: "DI",
+  statistical_parity_difference: "SPD",
+  equal_opportunity_difference: "EOD",
+  average_odds_difference: "AOD",
+};
+
+// One row per group-vs-reference pair, one column per fairness metric
+export function GroupMetricMatrix({ comparisons, thresholds }: GroupMetricMatrixProps) {
+  const worst = findWorstComparison(comparisons, thresholds);
+  const attributes = Array.from(new Set(comparisons.map(comparison => comparison.attribute)));
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-4">Group Metric Matrix</h3>
+
+      {worst && (
+        <div className="mb-4 p-3 bg-destructive/10 rounded-lg border border-destructive/20 flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-foreground">
+            <strong>Worst offender:</strong> {worst.group} vs {worst.reference_group} ({worst.attribute}),{" "}
+            {worst.record_count.toLocaleString()} records
+          </p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border">
+              <th className="text-left p-2 text-muted-foreground font-medium">Group</th>
+              <th className="text-right p-2 text-muted-foreground font-medium">Records</th>
+              {FAIRNESS_METRICS.map(({ key, label }) => (
+                <th key={key} className="text-right p-2 text-muted-foreground font-medium" title={label}>
+                  {SHORT_LABELS[key]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          {attributes.map(attribute => (
+            <tbody key={attribute}>
+              <tr>
+                <td colSpan={FAIRNESS_METRICS.length + 2} className="pt-4 pb-1 px-2 text-xs uppercase tracking-wide text-muted-foreground">
+                  {attribute}
+                </td>
+              </tr>
+              {comparisons.filter(comparison => comparison.attribute === attribute).map(comparison => {
+                const isWorst = comparison === worst;
+                return (
+                  <tr
+                    key={`${comparison.group}|${comparison.reference_group}`}
+                    className={`border-b border-border/50 ${isWorst ? "bg-destructive/10 outline outline-1 outline-destructive/40" : ""}`}
+                  >
+                    <td className="p-2 font-medium">
+                      {comparison.group}
+                      <span className="text-muted-foreground font-normal"> vs {comparison.reference_group}</span>
+                      {isWorst && (
+                        <Badge variant="destructive" className="ml-2">Worst</Badge>
+                      )}
+                    </td>
+                    <td className="p-2 text-right text-muted-foreground">{comparison.record_count.toLocaleString()}</td>
+                    {FAIRNESS_METRICS.map(({ key }) => {
+                      const value = comparison.metrics[key];
+                      return (
+                        <td
+                          key={key}
+                          className={`p-2 text-right font-mono ${isMetricFair(key, value, thresholds) ? "text-success" : "text-destructive"}`}
+                        >
+                          {value.toFixed(3)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          ))}
+        </table>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,164 @@
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import type { GroupPerformance, GroupPerformanceComparison } from "@/lib/api";
+
+interface GroupPerformanceBreakdownProps {
+  performance: GroupPerformanceComparison;
+}
+
+const ROLES = ["privileged", "unprivileged"] as const;
+
+const RATES = [
+  { key: "selection_rate", label: "Selection rate" },
+  { key: "true_positive_rate", label: "True positive rate" },
+  { key: "false_positive_rate", label: "False positive rate" },
+  { key: "false_negative_rate", label: "False negative rate" },
+  { key: "precision", label: "Precision" },
+] as const;
+
+const formatRate = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function ConfusionMatrixTable({ performance, role }: { performance: GroupPerformance; role: string }) {
+  const { true_positives, false_positives, true_negatives, false_negatives } = performance.confusion_matrix;
+  const cell = (value: number, correct: boolean) => (
+    <td className={`p-3 text-center font-mono font-bold rounded ${correct ? "bg-success/10 text-success" : "bg-destructive/10 text-destructive"}`}>
+      {value}
+    </td>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{performance.group}</span>
+          <Badge variant="outline" className="capitalize">{role}</Badge>
+        </div>
+        <span className="text-xs text-muted-foreground">{performance.record_count} records</span>
+      </div>
+      <table className="w-full text-sm border-separate border-spacing-1">
+        <thead>
+          <tr>
+            <th />
+            <th className="p-2 text-muted-foreground font-medium">Predicted +</th>
+            <th className="p-2 text-muted-foreground font-medium">Predicted −</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <th className="text-left p-2 text-muted-foreground font-medium">Actual +</th>
+            {cell(true_positives, true)}
+            {cell(false_negatives, false)}
+          </tr>
+          <tr>
+            <th className="text-left p-2 text-muted-foreground font-medium">Actual −</th>
+            {cell(false_positives, false)}
+            {cell(true_negatives, true)}
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Where the aggregate metrics come from: outcomes, error rates and calibration for each group side by side
+export function GroupPerformanceBreakdown({ performance }: GroupPerformanceBreakdownProps) {
+  const { privileged, unprivileged } = performance;
+  const chartConfig = {
+    privileged: { label: privileged.group, color: "hsl(var(--primary))" },
+    unprivileged: { label: unprivileged.group, color: "hsl(var(--warning))" },
+  } satisfies ChartConfig;
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold">Group Performance</h3>
+        <p className="text-sm text-muted-foreground">Confusion matrices, error rates and calibration per group</p>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {ROLES.map(role => (
+          <ConfusionMatrixTable key={role} performance={performance[role]} role={role} />
+        ))}
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left p-3 text-muted-foreground font-medium">Rate</th>
+            <th className="text-right p-3 text-muted-foreground font-medium">{privileged.group}</th>
+            <th className="text-right p-3 text-muted-foreground font-medium">{unprivileged.group}</th>
+            <th className="text-right p-3 text-muted-foreground font-medium">Gap</th>
+          </tr>
+        </thead>
+        <tbody>
+          {RATES.map(({ key, label }) => {
+            const gap = unprivileged[key] - privileged[key];
+            return (
+              <tr key={key} className="border-b last:border-0">
+                <td className="p-3">{label}</td>
+                <td className="p-3 text-right font-mono">{formatRate(privileged[key])}</td>
+                <td className="p-3 text-right font-mono">{formatRate(unprivileged[key])}</td>
+                <td className="p-3 text-right font-mono text-muted-foreground">
+                  {gap >= 0 ? "+" : ""}{(gap * 100).toFixed(1)} pts
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div>
+        <h4 className="text-sm font-medium mb-1">Calibration</h4>
+        <p className="text-xs text-muted-foreground mb-3">
+          Observed positive rate against the average model score in each bin; the dashed diagonal is perfect calibration
+        </p>
+        <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+          <LineChart margin={{ right: 16 }}>
+            <CartesianGrid />
+            <XAxis
+              dataKey="mean_score"
+              type="number"
+              domain={[0, 1]}
+              tickFormatter={(value: number) => value.toFixed(1)}
+              tickLine={false}
+              axisLine={false}
+            />
+            <YAxis
+              type="number"
+              domain={[0, 1]}
+              tickFormatter={(value: number) => value.toFixed(1)}
+              tickLine={false}
+              axisLine={false}
+              width={36}
+            />
+            <ChartTooltip
+              content={<ChartTooltipContent labelFormatter={(_, payload) => `Score ${(payload[0]?.payload.mean_score ?? 0).toFixed(2)}`} />}
+            />
+            <ChartLegend content={<ChartLegendContent />} />
+            <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+            {ROLES.map(role => (
+              <Line
+                key={role}
+                data={performance[role].calibration.map(bin => ({ mean_score: bin.mean_score, [role]: bin.observed_rate }))}
+                dataKey={role}
+                type="monotone"
+                stroke={`var(--color-${role})`}
+                strokeWidth={2}
+                dot={{ r: 3 }}
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      </div>
+    </Card>
+  );
+}
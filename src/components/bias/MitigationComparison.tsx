@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { ArrowRight, CheckCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ModelLink } from "@/components/common/ModelLink";
+import type { GovernanceModel, MitigationResult } from "@/lib/api";
+import { FAIRNESS_METRICS, getThresholdLabel, isMetricFair } from "@/lib/fairness";
+import { MITIGATION_TECHNIQUE_LABELS } from "@/lib/mitigation";
+import type { FairnessThresholds } from "@/lib/policies";
+import { AcceptMitigationDialog } from "./AcceptMitigationDialog";
+
+interface MitigationComparisonProps {
+  result: MitigationResult;
+  thresholds: FairnessThresholds;
+  modelName: string;
+  modelVersion: string;
+}
+
+const formatDelta = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(3)}`;
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant="outline" className={status === "COMPLIANT" ? "border-success text-success" : "border-destructive text-destructive"}>
+      {status}
+    </Badge>
+  );
+}
+
+// Before/after panel for one mitigation run, with the option to register the mitigated model
+export function MitigationComparison({ result, thresholds, modelName, modelVersion }: MitigationComparisonProps) {
+  const [acceptOpen, setAcceptOpen] = useState(false);
+  const [accepted, setAccepted] = useState<GovernanceModel | null>(null);
+  const accuracyChange = result.after.accuracy - result.before.accuracy;
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-semibold">{MITIGATION_TECHNIQUE_LABELS[result.technique]}</h3>
+          <p className="text-sm text-muted-foreground">{result.summary}</p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <StatusBadge status={result.before.audit_status} />
+          <ArrowRight className="w-4 h-4 text-muted-foreground" />
+          <StatusBadge status={result.after.audit_status} />
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left p-3 text-muted-foreground font-medium">Metric</th>
+            <th className="text-right p-3 text-muted-foreground font-medium">Before</th>
+            <th className="text-right p-3 text-muted-foreground font-medium">After</th>
+            <th className="text-right p-3 text-muted-foreground font-medium">Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {FAIRNESS_METRICS.map(({ key, label }) => {
+            const before = result.before.metrics[key];
+            const after = result.after.metrics[key];
+            return (
+              <tr key={key} className="border-b">
+                <td className="p-3">
+                  {label}
+                  <span className="text-xs text-muted-foreground ml-2">({getThresholdLabel(key, thresholds)})</span>
+                </td>
+                <td className={`p-3 text-right font-mono ${isMetricFair(key, before, thresholds) ? "text-success" : "text-destructive"}`}>
+                  {before.toFixed(3)}
+                </td>
+                <td className={`p-3 text-right font-mono font-bold ${isMetricFair(key, after, thresholds) ? "text-success" : "text-destructive"}`}>
+                  {after.toFixed(3)}
+                </td>
+                <td className="p-3 text-right font-mono text-muted-foreground">{formatDelta(after - before)}</td>
+              </tr>
+            );
+          })}
+          <tr>
+            <td className="p-3 font-medium">Accuracy</td>
+            <td className="p-3 text-right font-mono">{(result.before.accuracy * 100).toFixed(1)}%</td>
+            <td className="p-3 text-right font-mono font-bold">{(result.after.accuracy * 100).toFixed(1)}%</td>
+            <td className={`p-3 text-right font-mono ${accuracyChange < 0 ? "text-destructive" : "text-success"}`}>
+              {formatDelta(accuracyChange * 100)} pts
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {Object.keys(result.parameters).length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(result.parameters).map(([name, value]) => (
+            <Badge key={name} variant="secondary" className="font-normal">
+              {name}: <span className="font-mono ml-1">{value}</span>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {accepted ? (
+        <div className="flex items-center gap-2 p-3 bg-success/5 rounded-lg border border-success/20 text-sm">
+          <CheckCircle className="w-4 h-4 text-success" />
+          Registered as{" "}
+          <ModelLink modelName={accepted.model_name} version={accepted.version} className="font-medium" />
+        </div>
+      ) : (
+        <Button onClick={() => setAcceptOpen(true)}>Accept as New Version</Button>
+      )}
+
+      <AcceptMitigationDialog
+        open={acceptOpen}
+        onOpenChange={setAcceptOpen}
+        mitigationId={result.mitigation_id}
+        modelName={modelName}
+        modelVersion={modelVersion}
+        onAccepted={setAccepted}
+      />
+    </Card>
+  );
+}
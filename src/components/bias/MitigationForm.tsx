@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { Wrench } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import type { MitigationTechnique } from "@/lib/api";
+import { DEFAULT_REPAIR_LEVEL, MITIGATION_TECHNIQUES } from "@/lib/mitigation";
+
+interface MitigationFormProps {
+  disabled: boolean;
+  onRun: (technique: MitigationTechnique, repairLevel?: number) => void;
+}
+
+export function MitigationForm({ disabled, onRun }: MitigationFormProps) {
+  const [technique, setTechnique] = useState<MitigationTechnique>("reweighing");
+  const [repairLevel, setRepairLevel] = useState(DEFAULT_REPAIR_LEVEL);
+  const selected = MITIGATION_TECHNIQUES.find(({ id }) => id === technique)!;
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-center gap-3">
+        <Wrench className="w-6 h-6 text-primary" />
+        <div>
+          <h3 className="text-lg font-semibold">Mitigate Bias</h3>
+          <p className="text-sm text-muted-foreground">Apply a technique to the same dataset and compare the results</p>
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="mitigation_technique">Technique</Label>
+        <Select value={technique} onValueChange={(value) => setTechnique(value as MitigationTechnique)}>
+          <SelectTrigger id="mitigation_technique">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MITIGATION_TECHNIQUES.map(({ id, label }) => (
+              <SelectItem key={id} value={id}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-start gap-2 mt-2">
+          <Badge variant="outline" className="shrink-0">{selected.stage}</Badge>
+          <p className="text-xs text-muted-foreground">{selected.description}</p>
+        </div>
+      </div>
+
+      {technique === "disparate_impact_remover" && (
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label>Repair Level</Label>
+            <span className="text-sm font-mono">{repairLevel.toFixed(2)}</span>
+          </div>
+          <Slider min={0} max={1} step={0.05} value={[repairLevel]} onValueChange={([value]) => setRepairLevel(value)} />
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        className="w-full"
+        disabled={disabled}
+        onClick={() => onRun(technique, technique === "disparate_impact_remover" ? repairLevel : undefined)}
+      >
+        Run Mitigation
+      </Button>
+    </Card>
+  );
+}
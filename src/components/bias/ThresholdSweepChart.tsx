@@ -0,0 +1,70 @@
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import type { ThresholdSweepResult } from "@/lib/api";
+import type { FairnessThresholds } from "@/lib/policies";
+
+const chartConfig = {
+  disparate_impact: { label: "Disparate impact", color: "hsl(var(--primary))" },
+  equal_opportunity_difference: { label: "Equal opportunity diff.", color: "hsl(var(--warning))" },
+  accuracy: { label: "Accuracy", color: "hsl(var(--success))" },
+} satisfies ChartConfig;
+
+interface ThresholdSweepChartProps {
+  result: ThresholdSweepResult;
+  thresholds: FairnessThresholds;
+  selectedThreshold: number | null;
+  onSelect: (threshold: number) => void;
+}
+
+const formatThreshold = (value: number) => value.toFixed(2);
+
+// Disparate impact, equal opportunity difference and accuracy against the decision threshold.
+// Dashed lines mark the policy's disparate impact minimum and the backend's default threshold.
+export function ThresholdSweepChart({ result, thresholds, selectedThreshold, onSelect }: ThresholdSweepChartProps) {
+  const data = result.points.map(point => ({
+    threshold: point.threshold,
+    disparate_impact: point.metrics.disparate_impact,
+    equal_opportunity_difference: point.metrics.equal_opportunity_difference,
+    accuracy: point.accuracy,
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-80 w-full aspect-auto">
+      <LineChart
+        data={data}
+        margin={{ right: 16 }}
+        onClick={(state: { activeLabel?: string | number } | null) => {
+          if (state?.activeLabel !== undefined) onSelect(Number(state.activeLabel));
+        }}
+        className="cursor-pointer"
+      >
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="threshold"
+          type="number"
+          domain={["dataMin", "dataMax"]}
+          tickFormatter={formatThreshold}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis tickFormatter={(value: number) => value.toFixed(1)} tickLine={false} axisLine={false} width={36} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Threshold ${formatThreshold(payload[0]?.payload.threshold ?? 0)}`} />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <ReferenceLine y={thresholds.disparate_impact} stroke="var(--color-disparate_impact)" strokeDasharray="4 4" />
+        <ReferenceLine y={0} stroke="hsl(var(--border))" />
+        <ReferenceLine x={result.default_threshold} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" label={{ value: "default", position: "insideTopLeft", fontSize: 11 }} />
+        {selectedThreshold !== null && <ReferenceLine x={selectedThreshold} stroke="hsl(var(--foreground))" />}
+        {(Object.keys(chartConfig) as Array<keyof typeof chartConfig>).map(key => (
+          <Line key={key} dataKey={key} type="monotone" stroke={`var(--color-${key})`} strokeWidth={2} dot={false} />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import type { ThresholdPoint, ThresholdSweepResult } from "@/lib/api";
+import { FAIRNESS_METRICS, getThresholdLabel, isMetricFair } from "@/lib/fairness";
+import type { FairnessThresholds } from "@/lib/policies";
+import { bestFairPoint, nearestPoint } from "@/lib/thresholds";
+import { ThresholdSweepChart } from "./ThresholdSweepChart";
+
+interface ThresholdSweepPanelProps {
+  result: ThresholdSweepResult;
+  thresholds: FairnessThresholds;
+}
+
+function formatDelta(value: number) {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(3)}`;
+}
+
+// Sweep chart plus the metrics at one chosen operating point, compared with the default threshold
+export function ThresholdSweepPanel({ result, thresholds }: ThresholdSweepPanelProps) {
+  const defaultPoint = nearestPoint(result.points, result.default_threshold);
+  const best = bestFairPoint(result.points);
+  const [selected, setSelected] = useState<ThresholdPoint | null>(defaultPoint);
+  const selectedIndex = selected ? result.points.indexOf(selected) : -1;
+  const fairCount = result.points.filter(point => point.within_thresholds).length;
+
+  return (
+    <>
+      <Card className="p-6">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-lg font-semibold">Fairness / Accuracy Trade-off</h3>
+            <p className="text-sm text-muted-foreground">
+              {fairCount} of {result.points.length} thresholds pass every fairness check · click the chart to pick an operating point
+            </p>
+          </div>
+          {best && (
+            <Button variant="outline" size="sm" onClick={() => setSelected(best)}>
+              Best fair threshold
+            </Button>
+          )}
+        </div>
+
+        <ThresholdSweepChart
+          result={result}
+          thresholds={thresholds}
+          selectedThreshold={selected?.threshold ?? null}
+          onSelect={(threshold) => setSelected(nearestPoint(result.points, threshold))}
+        />
+
+        {result.points.length > 1 && (
+          <Slider
+            className="mt-4"
+            min={0}
+            max={result.points.length - 1}
+            step={1}
+            value={[Math.max(selectedIndex, 0)]}
+            onValueChange={([index]) => setSelected(result.points[index])}
+          />
+        )}
+        {!best && (
+          <p className="text-sm text-destructive mt-4">No threshold in this range passes every fairness check</p>
+        )}
+      </Card>
+
+      {selected && (
+        <Card className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold">Operating Point: {selected.threshold.toFixed(2)}</h3>
+            <Badge variant={selected.within_thresholds ? "secondary" : "destructive"}>
+              {selected.within_thresholds ? "Within policy" : "Outside policy"}
+            </Badge>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div className="p-3 rounded-lg border">
+              <p className="text-sm text-muted-foreground">Accuracy</p>
+              <p className="text-2xl font-bold">{(selected.accuracy * 100).toFixed(1)}%</p>
+              {defaultPoint && selected !== defaultPoint && (
+                <p className="text-xs text-muted-foreground">
+                  {formatDelta((selected.accuracy - defaultPoint.accuracy) * 100)} pts vs default
+                </p>
+              )}
+            </div>
+            <div className="p-3 rounded-lg border">
+              <p className="text-sm text-muted-foreground">Selection rate</p>
+              <p className="text-2xl font-bold">{(selected.selection_rate * 100).toFixed(1)}%</p>
+              {defaultPoint && selected !== defaultPoint && (
+                <p className="text-xs text-muted-foreground">
+                  {formatDelta((selected.selection_rate - defaultPoint.selection_rate) * 100)} pts vs default
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {FAIRNESS_METRICS.map(({ key, label }) => {
+              const value = selected.metrics[key];
+              return (
+                <div key={key} className="flex justify-between items-center">
+                  <span className="text-muted-foreground">
+                    {label}
+                    <span className="text-xs ml-2">({getThresholdLabel(key, thresholds)})</span>
+                  </span>
+                  <span className="flex items-center gap-3">
+                    {defaultPoint && selected !== defaultPoint && (
+                      <span className="text-xs text-muted-foreground">{formatDelta(value - defaultPoint.metrics[key])}</span>
+                    )}
+                    <span className={`font-bold ${isMetricFair(key, value, thresholds) ? "text-success" : "text-destructive"}`}>
+                      {value.toFixed(3)}
+                    </span>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
+    </>
+  );
+}
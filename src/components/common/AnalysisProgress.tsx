@@ -0,0 +1,63 @@
+import { CheckCircle, Circle, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ANALYSIS_STAGE_LABELS, ANALYSIS_STAGES, AnalysisStage } from "@/lib/uploads";
+
+interface AnalysisProgressProps {
+  stage: AnalysisStage;
+  // Uploaded fraction while uploading, the server's estimate while processing
+  progress: number;
+  // What the server is working on
+  message?: string;
+  title: string;
+  onCancel: () => void;
+}
+
+// Replaces the results panel while an analysis runs: upload, then the server's queue, then processing
+export function AnalysisProgress({ stage, progress, message, title, onCancel }: AnalysisProgressProps) {
+  const current = ANALYSIS_STAGES.indexOf(stage);
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-4 text-center">{title}</h3>
+
+      <div className="flex items-center justify-center gap-3 mb-4">
+        {ANALYSIS_STAGES.map((step, index) => {
+          const Icon = index < current ? CheckCircle : index === current ? Loader2 : Circle;
+          const color = index < current ? "text-success" : index === current ? "text-primary" : "text-muted-foreground";
+          return (
+            <div key={step} className="flex items-center gap-3">
+              {index > 0 && <div className={`h-px w-8 ${index <= current ? "bg-primary" : "bg-border"}`} />}
+              <span className={`flex items-center gap-1.5 text-sm ${color}`}>
+                <Icon className={`w-4 h-4 ${index === current ? "animate-spin" : ""}`} />
+                {ANALYSIS_STAGE_LABELS[step]}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {stage === "uploading" && (
+        <div className="space-y-2 mb-4">
+          <Progress value={progress * 100} className="h-2" />
+          <p className="text-sm text-muted-foreground text-center">{Math.round(progress * 100)}% uploaded</p>
+        </div>
+      )}
+
+      {stage !== "uploading" && (
+        <div className="space-y-2 mb-4">
+          {stage === "processing" && progress > 0 && <Progress value={progress * 100} className="h-2" />}
+          {message && <p className="text-sm text-muted-foreground text-center">{message}</p>}
+        </div>
+      )}
+
+      <div className="text-center">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          <X className="w-4 h-4 mr-2" />
+          Cancel
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface ColumnSelectOption {
+  value: string;
+  hint?: string;
+}
+
+interface ColumnSelectProps {
+  id?: string;
+  value: string;
+  onValueChange: (value: string) => void;
+  options: ColumnSelectOption[];
+  placeholder: string;
+  // Shown instead of the placeholder while there is nothing to pick from
+  emptyPlaceholder?: string;
+}
+
+// Dropdown for values taken from the uploaded dataset's schema
+export function ColumnSelect({
+  id,
+  value,
+  onValueChange,
+  options,
+  placeholder,
+  emptyPlaceholder = "Upload a CSV file first",
+}: ColumnSelectProps) {
+  const disabled = options.length === 0;
+
+  return (
+    <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder={disabled ? emptyPlaceholder : placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.value}
+            {option.hint && (
+              <span className="ml-2 text-xs text-muted-foreground">{option.hint}</span>
+            )}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
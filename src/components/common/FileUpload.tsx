@@ -1,11 +1,19 @@
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Upload, FileText, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { useCsvProfile } from "@/hooks/use-csv-profile";
+import type { DatasetSchema } from "@/lib/csv";
+import { formatFileSize, MAX_UPLOAD_SIZE_MB } from "@/lib/uploads";
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  // Called with null when the file is removed
+  onFileSelect: (file: File | null) => void;
+  // Called with the parsed column schema once profiling finishes, or null when cleared
+  onSchemaReady?: (schema: DatasetSchema | null) => void;
   accept?: string;
   maxSize?: number; // in MB
   className?: string;
@@ -13,19 +21,35 @@ interface FileUploadProps {
 
 export function FileUpload({ 
   onFileSelect, 
+  onSchemaReady,
   accept = ".csv", 
-  maxSize = 10,
+  maxSize = MAX_UPLOAD_SIZE_MB,
   className = "" 
 }: FileUploadProps) {
   const [dragActive, setDragActive] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const { toast } = useToast();
+  const { schema, profiling, progress, error } = useCsvProfile(selectedFile);
+
+  useEffect(() => {
+    onSchemaReady?.(schema);
+  }, [schema, onSchemaReady]);
+
+  useEffect(() => {
+    if (error) {
+      toast({
+        title: "Could not read CSV",
+        description: error,
+        variant: "destructive",
+      });
+    }
+  }, [error, toast]);
 
   const handleFileChange = useCallback((file: File) => {
     if (file.size > maxSize * 1024 * 1024) {
       toast({
         title: "File too large",
-        description: `File size must be less than ${maxSize}MB`,
+        description: `File size must be less than ${formatFileSize(maxSize * 1024 * 1024)}`,
         variant: "destructive",
       });
       return;
@@ -44,7 +68,7 @@ export function FileUpload({
     onFileSelect(file);
     toast({
       title: "File uploaded successfully",
-      description: `${file.name} (${(file.size / 1024 / 1024).toFixed(2)}MB)`,
+      description: `${file.name} (${formatFileSize(file.size)})`,
     });
   }, [maxSize, onFileSelect, toast]);
 
@@ -76,6 +100,7 @@ export function FileUpload({
 
   const removeFile = () => {
     setSelectedFile(null);
+    onFileSelect(null);
   };
 
   return (
@@ -110,28 +135,73 @@ export function FileUpload({
             </Button>
           </label>
           <p className="text-sm text-muted-foreground mt-2">
-            Maximum file size: {maxSize}MB
+            Maximum file size: {formatFileSize(maxSize * 1024 * 1024)}
           </p>
         </div>
       ) : (
-        <div className="flex items-center justify-between p-4 bg-primary/5 rounded-lg border border-primary/20">
-          <div className="flex items-center gap-3">
-            <FileText className="w-8 h-8 text-primary" />
-            <div>
-              <p className="font-medium text-foreground">{selectedFile.name}</p>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between p-4 bg-primary/5 rounded-lg border border-primary/20">
+            <div className="flex items-center gap-3">
+              <FileText className="w-8 h-8 text-primary" />
+              <div>
+                <p className="font-medium text-foreground">{selectedFile.name}</p>
+                <p className="text-sm text-muted-foreground">
+                  {formatFileSize(selectedFile.size)}
+                </p>
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={removeFile}
+              className="text-muted-foreground hover:text-destructive"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {profiling && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Profiling columns... {Math.round(progress * 100)}%</p>
+              <Progress value={progress * 100} className="h-2" />
+            </div>
+          )}
+
+          {schema && (
+            <div className="space-y-2">
               <p className="text-sm text-muted-foreground">
-                {(selectedFile.size / 1024 / 1024).toFixed(2)}MB
+                {schema.rowCount.toLocaleString()} rows · {schema.columns.length} columns
               </p>
+              <div className="max-h-48 overflow-y-auto rounded-lg border border-border">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left p-2 text-muted-foreground font-medium">Column</th>
+                      <th className="text-left p-2 text-muted-foreground font-medium">Type</th>
+                      <th className="text-right p-2 text-muted-foreground font-medium">Nulls</th>
+                      <th className="text-right p-2 text-muted-foreground font-medium">Distinct</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {schema.columns.map((column) => (
+                      <tr key={column.name} className="border-b border-border/50">
+                        <td className="p-2 font-medium">{column.name}</td>
+                        <td className="p-2">
+                          <Badge variant="secondary">{column.type}</Badge>
+                        </td>
+                        <td className={`p-2 text-right ${column.nullCount > 0 ? "text-warning" : "text-muted-foreground"}`}>
+                          {column.nullCount.toLocaleString()}
+                        </td>
+                        <td className="p-2 text-right text-muted-foreground">
+                          {column.distinctCount.toLocaleString()}{column.distinctTruncated ? "+" : ""}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
             </div>
-          </div>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={removeFile}
-            className="text-muted-foreground hover:text-destructive"
-          >
-            <X className="w-4 h-4" />
-          </Button>
+          )}
         </div>
       )}
     </Card>
@@ -0,0 +1,22 @@
+import { Link } from "react-router-dom";
+import { getModelPath } from "@/lib/governance";
+
+interface ModelLinkProps {
+  modelName: string;
+  version: string;
+  children?: React.ReactNode;
+  className?: string;
+}
+
+// Links a model name to its detail page; renders "name vX" unless children are given
+export function ModelLink({ modelName, version, children, className = "" }: ModelLinkProps) {
+  return (
+    <Link
+      to={getModelPath(modelName, version)}
+      className={`text-primary hover:text-primary-glow ${className}`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {children ?? `${modelName} v${version}`}
+    </Link>
+  );
+}
@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useState } from "react";
+import { Upload, FileText, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { useCsvProfile } from "@/hooks/use-csv-profile";
+import type { DatasetSchema } from "@/lib/csv";
+import { formatFileSize, MAX_UPLOAD_SIZE_MB } from "@/lib/uploads";
+
+interface MultiFileUploadProps {
+  files: File[];
+  onFilesChange: (files: File[]) => void;
+  // Schema of the first file, which column pickers use for the whole batch
+  onSchemaReady?: (schema: DatasetSchema | null) => void;
+  accept?: string;
+  maxSize?: number; // in MB
+  className?: string;
+}
+
+export function MultiFileUpload({
+  files,
+  onFilesChange,
+  onSchemaReady,
+  accept = ".csv",
+  maxSize = MAX_UPLOAD_SIZE_MB,
+  className = ""
+}: MultiFileUploadProps) {
+  const [dragActive, setDragActive] = useState(false);
+  const { toast } = useToast();
+  const { schema, profiling, progress, error } = useCsvProfile(files[0] ?? null);
+
+  useEffect(() => {
+    onSchemaReady?.(schema);
+  }, [schema, onSchemaReady]);
+
+  useEffect(() => {
+    if (error) {
+      toast({
+        title: "Could not read CSV",
+        description: error,
+        variant: "destructive",
+      });
+    }
+  }, [error, toast]);
+
+  // Files already in the list are matched by name and skipped
+  const addFiles = useCallback((selected: File[]) => {
+    const rejected = selected.filter(file =>
+      file.size > maxSize * 1024 * 1024 || !file.name.toLowerCase().endsWith('.csv')
+    );
+    if (rejected.length > 0) {
+      toast({
+        title: `Skipped ${rejected.length} file${rejected.length === 1 ? "" : "s"}`,
+        description: `Only CSV files under ${formatFileSize(maxSize * 1024 * 1024)} can be audited: ${rejected.map(file => file.name).join(", ")}`,
+        variant: "destructive",
+      });
+    }
+
+    const names = new Set(files.map(file => file.name));
+    const accepted = selected.filter(file => !rejected.includes(file) && !names.has(file.name));
+    if (accepted.length > 0) {
+      onFilesChange([...files, ...accepted]);
+    }
+  }, [files, maxSize, onFilesChange, toast]);
+
+  const handleDrag = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.type === "dragenter" || e.type === "dragover") {
+      setDragActive(true);
+    } else if (e.type === "dragleave") {
+      setDragActive(false);
+    }
+  }, []);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+    addFiles(Array.from(e.dataTransfer.files ?? []));
+  }, [addFiles]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    // Allows picking the same file again after removing it
+    e.target.value = "";
+  };
+
+  const removeFile = (name: string) => {
+    onFilesChange(files.filter(file => file.name !== name));
+  };
+
+  return (
+    <Card className={`p-6 space-y-4 ${className}`}>
+      <div
+        className={`border-2 border-dashed rounded-lg p-8 text-center transition-all duration-200 ${
+          dragActive
+            ? "border-primary bg-primary/5 scale-105"
+            : "border-border hover:border-primary/50 hover:bg-primary/5"
+        }`}
+        onDragEnter={handleDrag}
+        onDragLeave={handleDrag}
+        onDragOver={handleDrag}
+        onDrop={handleDrop}
+      >
+        <Upload className={`w-12 h-12 mx-auto mb-4 ${dragActive ? "text-primary" : "text-muted-foreground"}`} />
+        <h3 className="text-lg font-semibold mb-2">Upload CSV Files</h3>
+        <p className="text-muted-foreground mb-4">
+          Drag and drop one or more CSV files here, or click to browse
+        </p>
+        <input
+          type="file"
+          accept={accept}
+          multiple
+          onChange={handleInputChange}
+          className="hidden"
+          id="multi-file-upload"
+        />
+        <label htmlFor="multi-file-upload">
+          <Button variant="outline" className="cursor-pointer" asChild>
+            <span>Choose Files</span>
+          </Button>
+        </label>
+        <p className="text-sm text-muted-foreground mt-2">
+          Maximum file size: {formatFileSize(maxSize * 1024 * 1024)} each
+        </p>
+      </div>
+
+      {files.length > 0 && (
+        <div className="space-y-2">
+          {files.map((file, index) => (
+            <div key={file.name} className="flex items-center justify-between p-3 bg-primary/5 rounded-lg border border-primary/20">
+              <div className="flex items-center gap-3 min-w-0">
+                <FileText className="w-6 h-6 text-primary shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-medium text-foreground truncate">{file.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatFileSize(file.size)}
+                    {index === 0 && schema && ` · ${schema.rowCount.toLocaleString()} rows · ${schema.columns.length} columns`}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeFile(file.name)}
+                className="text-muted-foreground hover:text-destructive"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {profiling && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">Profiling columns of {files[0]?.name}... {Math.round(progress * 100)}%</p>
+          <Progress value={progress * 100} className="h-2" />
+        </div>
+      )}
+    </Card>
+  );
+}
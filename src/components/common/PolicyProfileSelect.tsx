@@ -0,0 +1,28 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Scale } from "lucide-react";
+import { POLICY_PROFILES } from "@/lib/policies";
+
+interface PolicyProfileSelectProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  // Set when a form label points at the select; otherwise it is labelled for screen readers
+  id?: string;
+  className?: string;
+}
+
+// Picks one of the policy profiles, either the app-wide one or the one a single run is judged by
+export function PolicyProfileSelect({ value, onValueChange, id, className }: PolicyProfileSelectProps) {
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id} className={className} aria-label={id ? undefined : "Active policy profile"}>
+        <Scale className="w-4 h-4 mr-2 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {POLICY_PROFILES.map(profile => (
+          <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,31 @@
+import { Link } from "react-router-dom";
+import { History } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import type { AuditRun } from "@/lib/history";
+import { ModelLink } from "./ModelLink";
+
+interface SavedRunBannerProps {
+  run: AuditRun;
+}
+
+// Shown above results that were reopened from the audit history
+export function SavedRunBanner({ run }: SavedRunBannerProps) {
+  return (
+    <Card className="p-4 bg-primary/5 border-primary/20">
+      <div className="flex items-start gap-3">
+        <History className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
+        <div className="text-sm">
+          <p className="font-medium text-foreground">
+            Saved run from {new Date(run.createdAt).toLocaleString()}
+          </p>
+          <p className="text-muted-foreground">
+            <ModelLink modelName={run.inputs.model_name} version={run.inputs.model_version} /> · {run.file.name} (SHA-256 {run.file.sha256.slice(0, 12)}…)
+          </p>
+          <Link to="/history" className="text-primary hover:text-primary-glow">
+            Back to audit history
+          </Link>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Input } from "@/components/ui/input";
+import { ModelLink } from "@/components/common/ModelLink";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { ArrowDown, ArrowUp, ArrowUpDown, Search } from "lucide-react";
+import { useActivePolicy } from "@/hooks/use-settings";
+import { ModelRisk } from "@/lib/api";
+import { getModelPath } from "@/lib/governance";
+import { getRiskLevel } from "@/lib/policies";
+
+type SortKey = "risk_score" | "disparate_impact" | "last_audited";
+type SortDirection = "asc" | "desc";
+
+interface ModelRiskTableProps {
+  models: ModelRisk[];
+  pageSize?: number;
+}
+
+export function ModelRiskTable({ models, pageSize = 10 }: ModelRiskTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("risk_score");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [biasSourceFilter, setBiasSourceFilter] = useState("all");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const policy = useActivePolicy();
+  const navigate = useNavigate();
+
+  const statuses = Array.from(new Set(models.map(model => model.status))).sort();
+  const biasSources = Array.from(new Set(models.map(model => model.bias_source))).sort();
+
+  const query = search.trim().toLowerCase();
+  const filtered = models.filter(model =>
+    (statusFilter === "all" || model.status === statusFilter) &&
+    (biasSourceFilter === "all" || model.bias_source === biasSourceFilter) &&
+    (!query || `${model.model_name} ${model.version} ${model.bias_source}`.toLowerCase().includes(query))
+  );
+
+  const sorted = [...filtered].sort((a, b) => {
+    const order = sortKey === "last_audited"
+      ? a.last_audited.localeCompare(b.last_audited)
+      : a[sortKey] - b[sortKey];
+    return sortDirection === "asc" ? order : -order;
+  });
+
+  const pageCount = Math.max(Math.ceil(sorted.length / pageSize), 1);
+  const currentPage = Math.min(page, pageCount);
+  const pageRows = sorted.slice((currentPage - 1) * pageSize, currentPage * pageSize);
+
+  // First, last and the pages either side of the current one; gaps become ellipses
+  const pageNumbers = Array.from({ length: pageCount }, (_, i) => i + 1)
+    .filter(n => n === 1 || n === pageCount || Math.abs(n - currentPage) <= 1);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(prev => prev === "asc" ? "desc" : "asc");
+    } else {
+      setSortKey(key);
+      setSortDirection("desc");
+    }
+  };
+
+  // Filters change the row count, so start again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const goToPage = (event: React.MouseEvent, target: number) => {
+    event.preventDefault();
+    setPage(Math.min(Math.max(target, 1), pageCount));
+  };
+
+  const getStatusColor = (status: string) => {
+    return status === "COMPLIANT" ? "text-success" : "text-destructive";
+  };
+
+  const getRiskColor = (score: number) => {
+    switch (getRiskLevel(score, policy.riskBands)) {
+      case "low": return "text-success";
+      case "medium": return "text-warning";
+      case "high": return "text-destructive";
+      default: return "text-risk-critical";
+    }
+  };
+
+  const renderSortableHeader = (key: SortKey, label: string) => {
+    const SortIcon = key !== sortKey ? ArrowUpDown : sortDirection === "asc" ? ArrowUp : ArrowDown;
+    return (
+      <th className="text-left p-3 text-muted-foreground font-medium">
+        <button className="flex items-center gap-1 hover:text-foreground" onClick={() => handleSort(key)}>
+          {label}
+          <SortIcon className="w-3 h-3" />
+        </button>
+      </th>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3">
+        <div className="relative flex-1 min-w-48">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search models"
+            value={search}
+            onChange={(e) => updateFilter(setSearch)(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={updateFilter(setStatusFilter)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {statuses.map(status => (
+              <SelectItem key={status} value={status}>{status}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={biasSourceFilter} onValueChange={updateFilter(setBiasSourceFilter)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All bias sources</SelectItem>
+            {biasSources.map(source => (
+              <SelectItem key={source} value={source}>{source}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-border">
+              <th className="text-left p-3 text-muted-foreground font-medium">Model Name</th>
+              <th className="text-left p-3 text-muted-foreground font-medium">Version</th>
+              <th className="text-left p-3 text-muted-foreground font-medium">Status</th>
+              {renderSortableHeader("risk_score", "Risk Score")}
+              <th className="text-left p-3 text-muted-foreground font-medium">Bias Source</th>
+              {renderSortableHeader("disparate_impact", "Impact Ratio")}
+              {renderSortableHeader("last_audited", "Last Audited")}
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map(model => (
+              <tr
+                key={`${model.model_name}-${model.version}`}
+                className="border-b border-border/50 hover:bg-accent/30 cursor-pointer"
+                onClick={() => navigate(getModelPath(model.model_name, model.version))}
+              >
+                <td className="p-3 font-medium">
+                  <ModelLink modelName={model.model_name} version={model.version}>{model.model_name}</ModelLink>
+                </td>
+                <td className="p-3 text-muted-foreground">{model.version}</td>
+                <td className="p-3">
+                  <span className={`font-medium ${getStatusColor(model.status)}`}>
+                    {model.status}
+                  </span>
+                </td>
+                <td className="p-3">
+                  <span className={`font-bold ${getRiskColor(model.risk_score)}`}>
+                    {model.risk_score}
+                  </span>
+                </td>
+                <td className="p-3 text-muted-foreground">{model.bias_source}</td>
+                <td className="p-3 text-muted-foreground">{model.disparate_impact.toFixed(3)}</td>
+                <td className="p-3 text-muted-foreground">{model.last_audited}</td>
+              </tr>
+            ))}
+            {pageRows.length === 0 && (
+              <tr>
+                <td colSpan={7} className="p-6 text-center text-muted-foreground">
+                  No models match the current filters
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {sorted.length === 0
+            ? "0 models"
+            : `${(currentPage - 1) * pageSize + 1}-${Math.min(currentPage * pageSize, sorted.length)} of ${sorted.length} models`}
+        </p>
+        {pageCount > 1 && (
+          <Pagination className="mx-0 w-auto justify-end">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious href="#" onClick={(e) => goToPage(e, currentPage - 1)} />
+              </PaginationItem>
+              {pageNumbers.map((n, i) => (
+                <PaginationItem key={n}>
+                  {i > 0 && n - pageNumbers[i - 1] > 1 && <PaginationEllipsis />}
+                  <PaginationLink href="#" isActive={n === currentPage} onClick={(e) => goToPage(e, n)}>
+                    {n}
+                  </PaginationLink>
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext href="#" onClick={(e) => goToPage(e, currentPage + 1)} />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  );
+}
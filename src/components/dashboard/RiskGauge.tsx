@@ -1,4 +1,6 @@
 import { Card } from "@/components/ui/card";
+import { useActivePolicy } from "@/hooks/use-settings";
+import { getRiskLevel, RiskLevel } from "@/lib/policies";
 
 interface RiskGaugeProps {
   score: number;
@@ -13,14 +15,18 @@ export function RiskGauge({ score, size = "md", className = "" }: RiskGaugeProps
   const strokeDasharray = circumference;
   const strokeDashoffset = circumference - (score / 100) * circumference;
 
-  const getRiskLevel = (score: number) => {
-    if (score <= 30) return { level: "Low", color: "text-success", bg: "from-success/20 to-success/5" };
-    if (score <= 60) return { level: "Medium", color: "text-warning", bg: "from-warning/20 to-warning/5" };
-    if (score <= 85) return { level: "High", color: "text-destructive", bg: "from-destructive/20 to-destructive/5" };
-    return { level: "Critical", color: "text-risk-critical", bg: "from-risk-critical/20 to-risk-critical/5" };
+  const policy = useActivePolicy();
+
+  const getRiskStyle = (level: RiskLevel) => {
+    switch (level) {
+      case "low": return { level: "Low", color: "text-success", bg: "from-success/20 to-success/5", text: "Models are compliant" };
+      case "medium": return { level: "Medium", color: "text-warning", bg: "from-warning/20 to-warning/5", text: "Monitor closely" };
+      case "high": return { level: "High", color: "text-destructive", bg: "from-destructive/20 to-destructive/5", text: "Immediate attention needed" };
+      default: return { level: "Critical", color: "text-risk-critical", bg: "from-risk-critical/20 to-risk-critical/5", text: "Critical intervention required" };
+    }
   };
 
-  const risk = getRiskLevel(score);
+  const risk = getRiskStyle(getRiskLevel(score, policy.riskBands));
   const gaugeSize = size === "sm" ? "w-24 h-24" : size === "md" ? "w-32 h-32" : "w-40 h-40";
 
   return (
@@ -67,12 +73,7 @@ export function RiskGauge({ score, size = "md", className = "" }: RiskGaugeProps
         
         <div className="mt-4 text-center">
           <p className={`font-semibold ${risk.color}`}>{risk.level} Risk</p>
-          <p className="text-sm text-muted-foreground">
-            {score <= 30 ? "Models are compliant" : 
-             score <= 60 ? "Monitor closely" :
-             score <= 85 ? "Immediate attention needed" : 
-             "Critical intervention required"}
-          </p>
+          <p className="text-sm text-muted-foreground">{risk.text}</p>
         </div>
       </div>
     </Card>
@@ -0,0 +1,191 @@
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import {
+  ASSOCIATION_MEASURE_LABELS,
+  AttributeAudit,
+  BASE_RATE_RATIO_LIMIT,
+  IMBALANCE_RATIO_LIMIT,
+  MIN_GROUP_RECORDS,
+  MISSING_GAP_LIMIT,
+  MODERATE_PROXY_STRENGTH,
+  STRONG_PROXY_STRENGTH,
+} from "@/lib/diagnostics";
+
+interface AttributeAuditCardProps {
+  audit: AttributeAudit;
+}
+
+// Weak proxies past this many are counted rather than listed; moderate and strong ones are always listed
+const MAX_LISTED_PROXIES = 8;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function RatioBadge({ value, limit }: { value: number; limit: number }) {
+  return (
+    <Badge variant="outline" className={value < limit ? "border-destructive text-destructive" : "border-success text-success"}>
+      {value.toFixed(2)} (≥ {limit})
+    </Badge>
+  );
+}
+
+function SectionHeader({ title, children }: { title: string; children?: React.ReactNode }) {
+  return (
+    <div className="flex justify-between items-center mb-2">
+      <h4 className="text-sm font-medium">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+// Representation, label base rates, proxy variables and missing values for one sensitive attribute
+export function AttributeAuditCard({ audit }: AttributeAuditCardProps) {
+  // Proxies are sorted strongest first
+  const listedProxies = audit.proxies.filter(({ strength }, index) => index < MAX_LISTED_PROXIES || strength >= MODERATE_PROXY_STRENGTH);
+  const hiddenProxies = audit.proxies.length - listedProxies.length;
+  const largestShare = audit.representation[0]?.share ?? 1;
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold">{audit.attribute}</h3>
+        <p className="text-sm text-muted-foreground">
+          {audit.representation.length} groups
+          {audit.missingCount > 0 && ` · ${audit.missingCount.toLocaleString()} rows without a value`}
+        </p>
+      </div>
+
+      <div>
+        <SectionHeader title="Representation">
+          <RatioBadge value={audit.imbalanceRatio} limit={IMBALANCE_RATIO_LIMIT} />
+        </SectionHeader>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left p-3 text-muted-foreground font-medium">Group</th>
+              <th className="text-right p-3 text-muted-foreground font-medium">Records</th>
+              <th className="text-left p-3 text-muted-foreground font-medium w-1/2">Share</th>
+            </tr>
+          </thead>
+          <tbody>
+            {audit.representation.map(({ group, count, share }) => (
+              <tr key={group} className="border-b last:border-0">
+                <td className="p-3">{group}</td>
+                <td className={`p-3 text-right font-mono ${count < MIN_GROUP_RECORDS ? "text-destructive" : ""}`}>
+                  {count.toLocaleString()}
+                </td>
+                <td className="p-3">
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 h-2 rounded-full bg-muted">
+                      <div className="h-2 rounded-full bg-primary" style={{ width: `${(share / largestShare) * 100}%` }} />
+                    </div>
+                    <span className="font-mono text-xs w-12 text-right">{formatPercent(share)}</span>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {audit.baseRates && (
+        <div>
+          <SectionHeader title="Label Base Rates">
+            {audit.baseRateRatio !== null && <RatioBadge value={audit.baseRateRatio} limit={BASE_RATE_RATIO_LIMIT} />}
+          </SectionHeader>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-3 text-muted-foreground font-medium">Group</th>
+                <th className="text-right p-3 text-muted-foreground font-medium">Labelled</th>
+                <th className="text-right p-3 text-muted-foreground font-medium">Favourable</th>
+                <th className="text-right p-3 text-muted-foreground font-medium">Base Rate</th>
+              </tr>
+            </thead>
+            <tbody>
+              {audit.baseRates.map(({ group, labelled, positives, rate }) => (
+                <tr key={group} className="border-b last:border-0">
+                  <td className="p-3">{group}</td>
+                  <td className="p-3 text-right font-mono">{labelled.toLocaleString()}</td>
+                  <td className="p-3 text-right font-mono">{positives.toLocaleString()}</td>
+                  <td className="p-3 text-right font-mono font-bold">{formatPercent(rate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div>
+        <SectionHeader title="Proxy Variables" />
+        {listedProxies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No other categorical or numeric columns to compare</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-3 text-muted-foreground font-medium">Column</th>
+                <th className="text-left p-3 text-muted-foreground font-medium">Measure</th>
+                <th className="text-right p-3 text-muted-foreground font-medium">Association</th>
+              </tr>
+            </thead>
+            <tbody>
+              {listedProxies.map(({ column, measure, strength }) => (
+                <tr key={column} className="border-b last:border-0">
+                  <td className="p-3">{column}</td>
+                  <td className="p-3 text-muted-foreground">{ASSOCIATION_MEASURE_LABELS[measure]}</td>
+                  <td className="p-3 text-right">
+                    <span className="font-mono mr-2">{strength.toFixed(2)}</span>
+                    {strength >= STRONG_PROXY_STRENGTH ? (
+                      <Badge variant="outline" className="border-destructive text-destructive">Strong</Badge>
+                    ) : strength >= MODERATE_PROXY_STRENGTH ? (
+                      <Badge variant="outline" className="border-warning text-warning">Moderate</Badge>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {hiddenProxies > 0 && (
+          <p className="text-xs text-muted-foreground mt-2">
+            {hiddenProxies} more column{hiddenProxies === 1 ? "" : "s"} below {MODERATE_PROXY_STRENGTH} not shown
+          </p>
+        )}
+      </div>
+
+      <div>
+        <SectionHeader title="Missing Values by Group" />
+        {audit.missingValues.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No missing values in any column</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-3 text-muted-foreground font-medium">Column</th>
+                  {audit.representation.map(({ group }) => (
+                    <th key={group} className="text-right p-3 text-muted-foreground font-medium">{group}</th>
+                  ))}
+                  <th className="text-right p-3 text-muted-foreground font-medium">Gap</th>
+                </tr>
+              </thead>
+              <tbody>
+                {audit.missingValues.map(({ column, rates, gap }) => (
+                  <tr key={column} className="border-b last:border-0">
+                    <td className="p-3">{column}</td>
+                    {rates.map(({ group, rate }) => (
+                      <td key={group} className="p-3 text-right font-mono">{formatPercent(rate)}</td>
+                    ))}
+                    <td className={`p-3 text-right font-mono font-bold ${gap >= MISSING_GAP_LIMIT ? "text-destructive" : "text-muted-foreground"}`}>
+                      {formatPercent(gap)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
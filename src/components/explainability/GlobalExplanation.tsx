@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Globe } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ModelLink } from "@/components/common/ModelLink";
+import type { GlobalExplainabilityResult } from "@/lib/api";
+import { formatShapValue } from "@/lib/shap";
+import { ShapBeeswarmPlot } from "./ShapBeeswarmPlot";
+import { ShapDependencePlot } from "./ShapDependencePlot";
+
+interface GlobalExplanationProps {
+  result: GlobalExplainabilityResult;
+  // Opens the local explanation of one row
+  onSelectInstance: (instanceIndex: number) => void;
+}
+
+// Row with the largest absolute SHAP value for the feature
+function mostAffected(result: GlobalExplainabilityResult, column: number) {
+  return result.instances.reduce((best, instance) =>
+    Math.abs(instance.shap_values[column]) > Math.abs(best.shap_values[column]) ? instance : best
+  );
+}
+
+export function GlobalExplanation({ result, onSelectInstance }: GlobalExplanationProps) {
+  const [feature, setFeature] = useState(result.mean_abs_shap[0]?.feature ?? "");
+  const top = result.mean_abs_shap[0]?.mean_abs_shap || 1;
+  const dependenceFeature = result.features.includes(feature) ? feature : result.mean_abs_shap[0]?.feature;
+
+  return (
+    <>
+      <Card className="p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <Globe className="w-6 h-6 text-primary" />
+          <div>
+            <h3 className="text-lg font-semibold">Global Explanation</h3>
+            <p className="text-sm text-muted-foreground">
+              <ModelLink modelName={result.model_name} version={result.model_version} /> -{" "}
+              {result.instances.length.toLocaleString()} of {result.row_count.toLocaleString()} rows · base value {result.base_value.toFixed(3)}
+            </p>
+          </div>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left p-3 text-muted-foreground font-medium">Feature</th>
+              <th className="text-left p-3 text-muted-foreground font-medium">Mean |SHAP|</th>
+              <th className="text-right p-3 text-muted-foreground font-medium">Strongest effect</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.mean_abs_shap.map(summary => {
+              const column = result.features.indexOf(summary.feature);
+              const instance = result.instances.length > 0 ? mostAffected(result, column) : null;
+              return (
+                <tr
+                  key={summary.feature}
+                  className={`border-b last:border-b-0 cursor-pointer hover:bg-muted/50 ${summary.feature === dependenceFeature ? "bg-primary/5" : ""}`}
+                  onClick={() => setFeature(summary.feature)}
+                >
+                  <td className="p-3 font-medium">{summary.feature}</td>
+                  <td className="p-3">
+                    <div className="flex items-center gap-2">
+                      <div className="w-24 h-2 bg-border rounded-full overflow-hidden">
+                        <div className="h-full bg-primary" style={{ width: `${(summary.mean_abs_shap / top) * 100}%` }} />
+                      </div>
+                      <span className="font-mono">{summary.mean_abs_shap.toFixed(3)}</span>
+                    </div>
+                  </td>
+                  <td className="p-3 text-right">
+                    {instance && (
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          onSelectInstance(instance.instance_index);
+                        }}
+                      >
+                        Instance {instance.instance_index} ({formatShapValue(instance.shap_values[column])})
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </Card>
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4">SHAP Summary</h3>
+        <ShapBeeswarmPlot result={result} onSelectInstance={onSelectInstance} />
+      </Card>
+
+      {dependenceFeature && (
+        <Card className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold">Dependence Plot</h3>
+            <Select value={dependenceFeature} onValueChange={setFeature}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {result.mean_abs_shap.map(summary => (
+                  <SelectItem key={summary.feature} value={summary.feature}>{summary.feature}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <ShapDependencePlot result={result} feature={dependenceFeature} onSelectInstance={onSelectInstance} />
+        </Card>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,45 @@
+import { formatShapValue } from "@/lib/shap";
+
+interface InstanceAttributionsProps {
+  shapValues: Record<string, number>;
+  // Header and values of the explained row
+  columns: string[];
+  values: string[];
+}
+
+// The row's value for each feature beside the feature's SHAP value, largest effect first
+export function InstanceAttributions({ shapValues, columns, values }: InstanceAttributionsProps) {
+  const features = Object.entries(shapValues).sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]));
+  const largest = Math.max(...features.map(([, value]) => Math.abs(value)), Number.EPSILON);
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b">
+          <th className="text-left p-3 text-muted-foreground font-medium">Feature</th>
+          <th className="text-left p-3 text-muted-foreground font-medium">Value</th>
+          <th className="text-left p-3 text-muted-foreground font-medium">SHAP</th>
+        </tr>
+      </thead>
+      <tbody>
+        {features.map(([feature, value]) => (
+          <tr key={feature} className="border-b last:border-b-0">
+            <td className="p-3 font-medium">{feature}</td>
+            <td className="p-3 font-mono">{values[columns.indexOf(feature)] ?? "—"}</td>
+            <td className="p-3">
+              <div className="flex items-center gap-2">
+                <div className="relative w-32 h-2 bg-border rounded-full overflow-hidden">
+                  <div
+                    className={`absolute inset-y-0 ${value >= 0 ? "left-1/2 bg-success" : "right-1/2 bg-destructive"}`}
+                    style={{ width: `${(Math.abs(value) / largest) * 50}%` }}
+                  />
+                </div>
+                <span className={`font-mono ${value >= 0 ? "text-success" : "text-destructive"}`}>{formatShapValue(value)}</span>
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { Search } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { useCsvRows } from "@/hooks/use-csv-rows";
+import { DatasetSchema, findColumn, getColumnValues, isGroupingColumn } from "@/lib/csv";
+
+const SEARCH_DELAY_MS = 300;
+
+interface InstanceBrowserProps {
+  file: File;
+  schema: DatasetSchema | null;
+  // Columns offered as filters, e.g. the sensitive attribute and the target
+  filterColumns: string[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  pageSize?: number;
+}
+
+// Paginated preview of the uploaded CSV; clicking a row picks it as the instance to explain.
+// Every page is read from the file in a worker, so large files are never held in memory.
+export function InstanceBrowser({ file, schema, filterColumns, selectedIndex, onSelect, pageSize = 10 }: InstanceBrowserProps) {
+  const [search, setSearch] = useState("");
+  const [appliedSearch, setAppliedSearch] = useState("");
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [page, setPage] = useState(1);
+
+  // Filters and search change the row count, so both start again from the first page
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      setAppliedSearch(search);
+      setPage(1);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [search]);
+
+  const filterable = filterColumns.filter(column => {
+    const profile = findColumn(schema, column);
+    return profile !== undefined && isGroupingColumn(profile);
+  });
+  const activeFilters = Object.fromEntries(
+    Object.entries(filters).filter(([column, value]) => value !== "all" && filterable.includes(column))
+  );
+  const { columns, rows, matchCount, loading, progress, error } = useCsvRows(file, {
+    filters: activeFilters,
+    search: appliedSearch,
+    offset: (page - 1) * pageSize,
+    limit: pageSize,
+  });
+  const pageCount = Math.max(Math.ceil(matchCount / pageSize), 1);
+
+  const goToPage = (event: React.MouseEvent, target: number) => {
+    event.preventDefault();
+    setPage(Math.min(Math.max(target, 1), pageCount));
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">Browse Rows</h3>
+        <p className="text-sm text-muted-foreground">Click a row to explain it</p>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <div className="relative flex-1 min-w-48">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input placeholder="Search values" value={search} onChange={(e) => setSearch(e.target.value)} className="pl-9" />
+        </div>
+        {filterable.map(column => (
+          <Select
+            key={column}
+            value={filters[column] ?? "all"}
+            onValueChange={(value) => {
+              setFilters(prev => ({ ...prev, [column]: value }));
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any {column}</SelectItem>
+              {getColumnValues(schema, column).map(value => (
+                <SelectItem key={value} value={value}>{column} = {value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ))}
+      </div>
+
+      {loading && <Progress value={progress * 100} className="h-1" />}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="overflow-x-auto border rounded-lg">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left p-3 text-muted-foreground font-medium">#</th>
+              {columns.map(column => (
+                <th key={column} className="text-left p-3 text-muted-foreground font-medium whitespace-nowrap">{column}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className={loading ? "opacity-50" : ""}>
+            {rows.map(row => (
+              <tr
+                key={row.index}
+                className={`border-b last:border-b-0 cursor-pointer hover:bg-muted/50 ${row.index === selectedIndex ? "bg-primary/10" : ""}`}
+                onClick={() => onSelect(row.index)}
+              >
+                <td className="p-3 font-mono text-muted-foreground">{row.index}</td>
+                {row.values.map((value, i) => (
+                  <td key={i} className="p-3 whitespace-nowrap">{value}</td>
+                ))}
+              </tr>
+            ))}
+            {!loading && rows.length === 0 && (
+              <tr>
+                <td colSpan={columns.length + 1} className="p-6 text-center text-muted-foreground">
+                  No rows match the current filters
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {matchCount === 0
+            ? "0 rows"
+            : `${(page - 1) * pageSize + 1}-${Math.min(page * pageSize, matchCount)} of ${matchCount.toLocaleString()} rows`}
+        </p>
+        {pageCount > 1 && (
+          <Pagination className="mx-0 w-auto justify-end">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious href="#" onClick={(e) => goToPage(e, page - 1)} />
+              </PaginationItem>
+              <PaginationItem>
+                <span className="px-3 text-sm text-muted-foreground">Page {page} of {pageCount.toLocaleString()}</span>
+              </PaginationItem>
+              <PaginationItem>
+                <PaginationNext href="#" onClick={(e) => goToPage(e, page + 1)} />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </Card>
+  );
+}
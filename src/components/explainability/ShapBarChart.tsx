@@ -0,0 +1,53 @@
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { formatShapValue, rankContributions, ShapContribution } from "@/lib/shap";
+
+const chartConfig = {
+  value: { label: "SHAP value" },
+} satisfies ChartConfig;
+
+const ROW_HEIGHT = 28;
+
+interface ShapBarChartProps {
+  shapValues: Record<string, number>;
+}
+
+// SHAP values sorted by magnitude, drawn either side of zero
+export function ShapBarChart({ shapValues }: ShapBarChartProps) {
+  const contributions = rankContributions(shapValues);
+
+  return (
+    <ChartContainer config={chartConfig} className="w-full aspect-auto" style={{ height: contributions.length * ROW_HEIGHT + 40 }}>
+      <BarChart data={contributions} layout="vertical" margin={{ right: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" tickFormatter={(value: number) => value.toFixed(2)} tickLine={false} axisLine={false} />
+        <YAxis type="category" dataKey="feature" width={140} tickLine={false} axisLine={false} />
+        <ChartTooltip
+          cursor={false}
+          content={
+            <ChartTooltipContent
+              hideIndicator
+              formatter={(_, __, item) => {
+                const { value } = item.payload as ShapContribution;
+                return (
+                  <div className="space-y-0.5">
+                    <p className={`font-mono font-medium ${value >= 0 ? "text-success" : "text-destructive"}`}>
+                      {formatShapValue(value)}
+                    </p>
+                    <p className="text-muted-foreground">{value >= 0 ? "Raises" : "Lowers"} the model output</p>
+                  </div>
+                );
+              }}
+            />
+          }
+        />
+        <ReferenceLine x={0} stroke="hsl(var(--border))" />
+        <Bar dataKey="value" radius={2}>
+          {contributions.map(contribution => (
+            <Cell key={contribution.feature} fill={contribution.value >= 0 ? "hsl(var(--success))" : "hsl(var(--destructive))"} />
+          ))}
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  );
+}
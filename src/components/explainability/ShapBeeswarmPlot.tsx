@@ -0,0 +1,104 @@
+import type { GlobalExplainabilityResult } from "@/lib/api";
+import {
+  featureValueColor,
+  featureValueScale,
+  formatShapValue,
+  MAX_BEESWARM_POINTS,
+  MAX_CHART_FEATURES,
+  sampleEvenly,
+} from "@/lib/shap";
+
+const WIDTH = 640;
+const LABEL_WIDTH = 150;
+const ROW_HEIGHT = 30;
+const AXIS_HEIGHT = 24;
+const DOT_RADIUS = 2.5;
+// Dots closer than this horizontally are stacked vertically instead of overlapping
+const BIN_WIDTH = 4;
+
+interface ShapBeeswarmPlotProps {
+  result: GlobalExplainabilityResult;
+  onSelectInstance: (instanceIndex: number) => void;
+}
+
+// One row per feature, most important at the top; each dot is a row of the dataset placed at its
+// SHAP value and coloured by the row's value for that feature
+export function ShapBeeswarmPlot({ result, onSelectInstance }: ShapBeeswarmPlotProps) {
+  const instances = sampleEvenly(result.instances, MAX_BEESWARM_POINTS);
+  const features = result.mean_abs_shap.slice(0, MAX_CHART_FEATURES).map(({ feature }) => feature);
+  const columns = features.map(feature => result.features.indexOf(feature));
+
+  const values = columns.flatMap(column => instances.map(instance => instance.shap_values[column]));
+  const min = Math.min(0, values.reduce((low, value) => Math.min(low, value), Infinity));
+  const max = Math.max(0, values.reduce((high, value) => Math.max(high, value), -Infinity));
+  const span = max - min || 1;
+  const x = (value: number) => LABEL_WIDTH + ((value - min) / span) * (WIDTH - LABEL_WIDTH - 10);
+  const height = features.length * ROW_HEIGHT + AXIS_HEIGHT;
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto text-xs">
+        <line x1={x(0)} x2={x(0)} y1={0} y2={height - AXIS_HEIGHT} className="stroke-border" />
+        {features.map((feature, row) => {
+          const column = columns[row];
+          const { scale } = featureValueScale(instances.map(instance => instance.feature_values[column]));
+          const center = row * ROW_HEIGHT + ROW_HEIGHT / 2;
+          const stacked = new Map<number, number>();
+
+          return (
+            <g key={feature}>
+              <text x={LABEL_WIDTH - 8} y={center} textAnchor="end" dominantBaseline="middle" className="fill-foreground">
+                {feature}
+              </text>
+              {instances.map(instance => {
+                const value = instance.shap_values[column];
+                const cx = x(value);
+                const bin = Math.round(cx / BIN_WIDTH);
+                const count = stacked.get(bin) ?? 0;
+                stacked.set(bin, count + 1);
+                // Alternates above and below the centre line, clamped to the row
+                const offset = Math.min(Math.ceil(count / 2) * DOT_RADIUS * 1.5, ROW_HEIGHT / 2 - DOT_RADIUS);
+                const raw = instance.feature_values[column];
+                return (
+                  <circle
+                    key={instance.instance_index}
+                    cx={cx}
+                    cy={center + (count % 2 ? offset : -offset)}
+                    r={DOT_RADIUS}
+                    fill={featureValueColor(scale(raw))}
+                    className="cursor-pointer hover:stroke-foreground"
+                    onClick={() => onSelectInstance(instance.instance_index)}
+                  >
+                    <title>{`Instance ${instance.instance_index} · ${feature} = ${raw} · SHAP ${formatShapValue(value)}`}</title>
+                  </circle>
+                );
+              })}
+            </g>
+          );
+        })}
+        {[min, 0, max].map(tick => (
+          <text key={tick} x={x(tick)} y={height - 6} textAnchor="middle" className="fill-muted-foreground">
+            {tick.toFixed(2)}
+          </text>
+        ))}
+      </svg>
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {instances.length < result.instances.length
+            ? `Showing ${instances.length.toLocaleString()} of ${result.instances.length.toLocaleString()} explained rows`
+            : `${instances.length.toLocaleString()} rows`}
+          {" · click a dot to explain that row"}
+        </span>
+        <span className="flex items-center gap-2">
+          Feature value: low
+          <span
+            className="inline-block w-16 h-2 rounded-full"
+            style={{ background: `linear-gradient(to right, ${featureValueColor(0)}, ${featureValueColor(0.5)}, ${featureValueColor(1)})` }}
+          />
+          high
+        </span>
+      </div>
+    </div>
+  );
+}
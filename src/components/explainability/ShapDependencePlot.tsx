@@ -0,0 +1,74 @@
+import { CartesianGrid, ReferenceLine, Scatter, ScatterChart, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip } from "@/components/ui/chart";
+import type { GlobalExplainabilityResult } from "@/lib/api";
+import { featureValueScale, formatShapValue, MAX_BEESWARM_POINTS, sampleEvenly } from "@/lib/shap";
+
+const chartConfig = {
+  shap: { label: "SHAP value", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+interface DependencePoint {
+  instanceIndex: number;
+  raw: string;
+  value: number | string;
+  shap: number;
+}
+
+interface ShapDependencePlotProps {
+  result: GlobalExplainabilityResult;
+  feature: string;
+  onSelectInstance: (instanceIndex: number) => void;
+}
+
+// SHAP value of one feature against the feature's value, showing how the effect changes across its range
+export function ShapDependencePlot({ result, feature, onSelectInstance }: ShapDependencePlotProps) {
+  const column = result.features.indexOf(feature);
+  const instances = sampleEvenly(result.instances, MAX_BEESWARM_POINTS);
+  const { numeric } = featureValueScale(instances.map(instance => instance.feature_values[column]));
+  const points: DependencePoint[] = instances.map(instance => ({
+    instanceIndex: instance.instance_index,
+    raw: instance.feature_values[column],
+    value: numeric ? Number(instance.feature_values[column]) : instance.feature_values[column],
+    shap: instance.shap_values[column],
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+      <ScatterChart margin={{ right: 16 }}>
+        <CartesianGrid />
+        <XAxis
+          dataKey="value"
+          type={numeric ? "number" : "category"}
+          allowDuplicatedCategory={false}
+          domain={numeric ? ["auto", "auto"] : undefined}
+          name={feature}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis dataKey="shap" type="number" tickFormatter={(value: number) => value.toFixed(2)} tickLine={false} axisLine={false} width={48} />
+        <ReferenceLine y={0} stroke="hsl(var(--border))" />
+        <ChartTooltip
+          cursor={false}
+          content={({ active, payload }) => {
+            if (!active || !payload?.length) return null;
+            const point = payload[0].payload as DependencePoint;
+            return (
+              <div className="rounded-lg border bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                <p className="font-medium">Instance {point.instanceIndex}</p>
+                <p className="text-muted-foreground">{feature} = {point.raw}</p>
+                <p className={`font-mono ${point.shap >= 0 ? "text-success" : "text-destructive"}`}>{formatShapValue(point.shap)}</p>
+              </div>
+            );
+          }}
+        />
+        <Scatter
+          data={points}
+          fill="var(--color-shap)"
+          fillOpacity={0.6}
+          className="cursor-pointer"
+          onClick={(point: { payload: DependencePoint }) => onSelectInstance(point.payload.instanceIndex)}
+        />
+      </ScatterChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,76 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { formatShapValue, rankContributions } from "@/lib/shap";
+
+interface ShapForcePlotProps {
+  shapValues: Record<string, number>;
+  baseValue: number;
+  prediction: number;
+}
+
+// Features raising the output push from the left and features lowering it push from the right;
+// the two sides meet at the prediction
+export function ShapForcePlot({ shapValues, baseValue, prediction }: ShapForcePlotProps) {
+  const contributions = rankContributions(shapValues);
+  const raising = contributions.filter(({ value }) => value > 0);
+  const lowering = contributions.filter(({ value }) => value < 0);
+  const raisedBy = raising.reduce((sum, { value }) => sum + value, 0);
+  const loweredBy = lowering.reduce((sum, { value }) => sum - value, 0);
+
+  const min = prediction - raisedBy;
+  const max = prediction + loweredBy;
+  const span = max - min || 1;
+  const position = (value: number) => `${((value - min) / span) * 100}%`;
+
+  // Largest forces sit next to the prediction
+  let raisingEdge = prediction;
+  const raisingSegments = raising.map(contribution => {
+    raisingEdge -= contribution.value;
+    return { ...contribution, start: raisingEdge };
+  });
+  let loweringEdge = prediction;
+  const loweringSegments = lowering.map(contribution => {
+    const start = loweringEdge;
+    loweringEdge -= contribution.value;
+    return { ...contribution, start };
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="relative h-6 text-xs">
+        <span className="absolute -translate-x-1/2 text-muted-foreground whitespace-nowrap" style={{ left: position(baseValue) }}>
+          Base {baseValue.toFixed(3)}
+        </span>
+        <span className="absolute -translate-x-1/2 font-semibold text-primary whitespace-nowrap" style={{ left: position(prediction) }}>
+          Prediction {prediction.toFixed(3)}
+        </span>
+      </div>
+
+      <div className="relative h-10 rounded-md bg-muted overflow-hidden">
+        {[...raisingSegments, ...loweringSegments].map(segment => (
+          <Tooltip key={segment.feature}>
+            <TooltipTrigger asChild>
+              <div
+                className={`absolute inset-y-0 border-x border-background flex items-center justify-center overflow-hidden text-xs text-background cursor-default ${
+                  segment.value > 0 ? "bg-success hover:bg-success/80" : "bg-destructive hover:bg-destructive/80"
+                }`}
+                style={{ left: position(segment.start), width: `${(Math.abs(segment.value) / span) * 100}%` }}
+              >
+                <span className="truncate px-1">{segment.feature}</span>
+              </div>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p className="font-medium">{segment.feature}</p>
+              <p className="font-mono">{formatShapValue(segment.value)}</p>
+            </TooltipContent>
+          </Tooltip>
+        ))}
+        <div className="absolute inset-y-0 w-0.5 bg-foreground" style={{ left: position(prediction) }} />
+      </div>
+
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span className="text-success">Raises the output by {raisedBy.toFixed(3)}</span>
+        <span className="text-destructive">Lowers the output by {loweredBy.toFixed(3)}</span>
+      </div>
+    </div>
+  );
+}
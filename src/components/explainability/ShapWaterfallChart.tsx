@@ -0,0 +1,59 @@
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { formatShapValue, WaterfallStep, waterfallSteps } from "@/lib/shap";
+
+const chartConfig = {
+  range: { label: "Contribution" },
+} satisfies ChartConfig;
+
+const ROW_HEIGHT = 32;
+
+interface ShapWaterfallChartProps {
+  shapValues: Record<string, number>;
+  baseValue: number;
+  prediction: number;
+}
+
+// Each bar starts where the previous one ended, walking from the base value up to the prediction
+export function ShapWaterfallChart({ shapValues, baseValue, prediction }: ShapWaterfallChartProps) {
+  // Largest contributions on top, next to the prediction
+  const steps = waterfallSteps(shapValues, baseValue).reverse();
+
+  return (
+    <ChartContainer config={chartConfig} className="w-full aspect-auto" style={{ height: steps.length * ROW_HEIGHT + 48 }}>
+      <BarChart data={steps} layout="vertical" margin={{ top: 20, right: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" domain={["auto", "auto"]} tickFormatter={(value: number) => value.toFixed(2)} tickLine={false} axisLine={false} />
+        <YAxis type="category" dataKey="feature" width={140} tickLine={false} axisLine={false} />
+        <ChartTooltip
+          cursor={false}
+          content={
+            <ChartTooltipContent
+              hideIndicator
+              formatter={(_, __, item) => {
+                const step = item.payload as WaterfallStep;
+                return (
+                  <div className="space-y-0.5">
+                    <p className={`font-mono font-medium ${step.value >= 0 ? "text-success" : "text-destructive"}`}>
+                      {formatShapValue(step.value)}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {step.start.toFixed(3)} → {step.end.toFixed(3)}
+                    </p>
+                  </div>
+                );
+              }}
+            />
+          }
+        />
+        <ReferenceLine x={baseValue} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" label={{ value: "Base", position: "top", fontSize: 11 }} />
+        <ReferenceLine x={prediction} stroke="hsl(var(--primary))" label={{ value: "Prediction", position: "top", fontSize: 11 }} />
+        <Bar dataKey="range" radius={2}>
+          {steps.map(step => (
+            <Cell key={step.feature} fill={step.value >= 0 ? "hsl(var(--success))" : "hsl(var(--destructive))"} />
+          ))}
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  );
+}
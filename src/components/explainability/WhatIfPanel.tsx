@@ -0,0 +1,286 @@
+import { useEffect, useRef, useState } from "react";
+import { FlaskConical, Lock, RotateCcw, Shuffle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { ApiCancelledError, ApiError, CounterfactualResult, explainabilityApi, FeatureChange, InstancePrediction, WhatIfResult } from "@/lib/api";
+import { DatasetSchema, getColumnValues } from "@/lib/csv";
+import { formatShapValue } from "@/lib/shap";
+
+interface WhatIfPanelProps {
+  file: File;
+  schema: DatasetSchema | null;
+  modelName: string;
+  modelVersion: string;
+  targetVariable: string;
+  sensitiveAttribute: string;
+  instanceIndex: number;
+  // Features the model uses, as named in the explanation's SHAP values
+  features: string[];
+  // Header and values of the explained row
+  columns: string[];
+  values: string[];
+}
+
+function OutcomeBadge({ outcome }: { outcome: InstancePrediction["outcome"] }) {
+  return (
+    <Badge variant="outline" className={outcome === "positive" ? "border-success text-success" : "border-destructive text-destructive"}>
+      {outcome === "positive" ? "Positive" : "Negative"}
+    </Badge>
+  );
+}
+
+function describeChanges(changes: FeatureChange[]) {
+  return changes.map(change => `${change.feature} from ${change.from_value} to ${change.to_value}`).join(", and ");
+}
+
+// Edits the explained row and re-scores it, side by side with the original prediction.
+// Counterfactuals come from the backend and never change the sensitive attribute.
+export function WhatIfPanel({
+  file,
+  schema,
+  modelName,
+  modelVersion,
+  targetVariable,
+  sensitiveAttribute,
+  instanceIndex,
+  features,
+  columns,
+  values,
+}: WhatIfPanelProps) {
+  const original = Object.fromEntries(features.map(feature => [feature, values[columns.indexOf(feature)] ?? ""]));
+  const [edits, setEdits] = useState<Record<string, string>>(original);
+  const [whatIf, setWhatIf] = useState<WhatIfResult | null>(null);
+  // Values the last what-if ran with, so the comparison stays labelled while the inputs change
+  const [scoredChanges, setScoredChanges] = useState<Record<string, string>>({});
+  const [counterfactuals, setCounterfactuals] = useState<CounterfactualResult | null>(null);
+  const [scoring, setScoring] = useState(false);
+  const [searching, setSearching] = useState(false);
+  // Requests in flight; a newer request of the same kind or leaving the panel cancels them
+  const whatIfRequest = useRef<AbortController | null>(null);
+  const counterfactualRequest = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => () => {
+    whatIfRequest.current?.abort();
+    counterfactualRequest.current?.abort();
+  }, []);
+
+  const changesFrom = (next: Record<string, string>) =>
+    Object.fromEntries(features.filter(feature => next[feature] !== original[feature]).map(feature => [feature, next[feature]]));
+  const changes = changesFrom(edits);
+  const changedCount = Object.keys(changes).length;
+
+  const runWhatIf = async (next: Record<string, string>) => {
+    const featureValues = changesFrom(next);
+    whatIfRequest.current?.abort();
+    const controller = new AbortController();
+    whatIfRequest.current = controller;
+    setScoring(true);
+    try {
+      const response = await explainabilityApi.whatIf(
+        file, modelName, modelVersion, targetVariable, sensitiveAttribute, instanceIndex, featureValues,
+        { signal: controller.signal }
+      );
+      setWhatIf(response);
+      setScoredChanges(featureValues);
+    } catch (error) {
+      if (error instanceof ApiCancelledError) return;
+      toast({
+        title: "What-If Failed",
+        description: error instanceof ApiError ? error.message : "Could not re-score the edited row",
+        variant: "destructive",
+      });
+    } finally {
+      if (whatIfRequest.current === controller) {
+        whatIfRequest.current = null;
+        setScoring(false);
+      }
+    }
+  };
+
+  const searchCounterfactuals = async () => {
+    counterfactualRequest.current?.abort();
+    const controller = new AbortController();
+    counterfactualRequest.current = controller;
+    setSearching(true);
+    try {
+      setCounterfactuals(await explainabilityApi.findCounterfactuals(
+        file, modelName, modelVersion, targetVariable, sensitiveAttribute, instanceIndex, undefined,
+        { signal: controller.signal }
+      ));
+    } catch (error) {
+      if (error instanceof ApiCancelledError) return;
+      toast({
+        title: "Counterfactual Search Failed",
+        description: error instanceof ApiError ? error.message : "Could not search for counterfactuals",
+        variant: "destructive",
+      });
+    } finally {
+      if (counterfactualRequest.current === controller) {
+        counterfactualRequest.current = null;
+        setSearching(false);
+      }
+    }
+  };
+
+  const applyChanges = (applied: FeatureChange[]) => {
+    const next = { ...original, ...Object.fromEntries(applied.map(change => [change.feature, change.to_value])) };
+    setEdits(next);
+    runWhatIf(next);
+  };
+
+  const reset = () => {
+    setEdits(original);
+    setWhatIf(null);
+    setScoredChanges({});
+  };
+
+  const shapRows = whatIf
+    ? Object.keys(whatIf.modified.shap_values).sort(
+        (a, b) => Math.abs(whatIf.modified.shap_values[b]) - Math.abs(whatIf.modified.shap_values[a])
+      )
+    : [];
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <FlaskConical className="w-6 h-6 text-primary" />
+        <div>
+          <h3 className="text-lg font-semibold">What-If Explorer</h3>
+          <p className="text-sm text-muted-foreground">
+            Edit instance {instanceIndex} and re-run the model; {sensitiveAttribute} stays fixed
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {features.map(feature => {
+          const fixed = feature === sensitiveAttribute;
+          const suggestions = getColumnValues(schema, feature);
+          return (
+            <div key={feature} className="space-y-1">
+              <Label htmlFor={`what-if-${feature}`} className="flex items-center gap-1">
+                {feature}
+                {fixed && <Lock className="w-3 h-3 text-muted-foreground" />}
+              </Label>
+              <Input
+                id={`what-if-${feature}`}
+                value={edits[feature] ?? ""}
+                disabled={fixed}
+                list={suggestions.length > 0 ? `what-if-${feature}-values` : undefined}
+                onChange={(e) => setEdits(prev => ({ ...prev, [feature]: e.target.value }))}
+                className={feature in changes ? "border-primary" : ""}
+              />
+              {suggestions.length > 0 && (
+                <datalist id={`what-if-${feature}-values`}>
+                  {suggestions.map(value => <option key={value} value={value} />)}
+                </datalist>
+              )}
+              {feature in changes && (
+                <p className="text-xs text-muted-foreground">Was {original[feature] || "empty"}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={() => runWhatIf(edits)} disabled={scoring || changedCount === 0}>
+          {scoring ? "Scoring..." : `Run What-If${changedCount > 0 ? ` (${changedCount} changed)` : ""}`}
+        </Button>
+        <Button variant="outline" onClick={reset} disabled={scoring || (changedCount === 0 && !whatIf)}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset
+        </Button>
+        <Button variant="outline" onClick={searchCounterfactuals} disabled={searching}>
+          <Shuffle className="w-4 h-4 mr-2" />
+          {searching ? "Searching..." : "Find Counterfactuals"}
+        </Button>
+      </div>
+
+      {whatIf && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            {([["Original", whatIf.original], ["Modified", whatIf.modified]] as const).map(([label, prediction]) => (
+              <div key={label} className="p-4 rounded-lg border">
+                <p className="text-sm text-muted-foreground mb-1">{label}</p>
+                <div className="flex items-center gap-2">
+                  <span className="text-2xl font-bold">{prediction.prediction.toFixed(3)}</span>
+                  <OutcomeBadge outcome={prediction.outcome} />
+                </div>
+              </div>
+            ))}
+          </div>
+          {whatIf.original.outcome !== whatIf.modified.outcome && (
+            <p className="text-sm font-medium text-primary">These changes flip the outcome</p>
+          )}
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-3 text-muted-foreground font-medium">Feature</th>
+                <th className="text-left p-3 text-muted-foreground font-medium">Original SHAP</th>
+                <th className="text-left p-3 text-muted-foreground font-medium">Modified SHAP</th>
+                <th className="text-left p-3 text-muted-foreground font-medium">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shapRows.map(feature => {
+                const before = whatIf.original.shap_values[feature] ?? 0;
+                const after = whatIf.modified.shap_values[feature];
+                const delta = after - before;
+                return (
+                  <tr key={feature} className={`border-b last:border-b-0 ${feature in scoredChanges ? "bg-primary/5" : ""}`}>
+                    <td className="p-3">
+                      <span className="font-medium">{feature}</span>
+                      {feature in scoredChanges && (
+                        <span className="block text-xs text-muted-foreground">
+                          {original[feature]} → {scoredChanges[feature]}
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-3 font-mono">{formatShapValue(before)}</td>
+                    <td className="p-3 font-mono">{formatShapValue(after)}</td>
+                    <td className={`p-3 font-mono ${delta > 0 ? "text-success" : delta < 0 ? "text-destructive" : "text-muted-foreground"}`}>
+                      {delta === 0 ? "—" : formatShapValue(delta)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {counterfactuals && (
+        <div className="space-y-3">
+          <h4 className="font-semibold">Counterfactuals</h4>
+          <p className="text-sm text-muted-foreground">
+            Fewest changes that turn the {counterfactuals.outcome} outcome around, keeping {counterfactuals.fixed_features.join(", ")} fixed
+          </p>
+          {counterfactuals.counterfactuals.length === 0 && (
+            <p className="text-sm text-muted-foreground">No counterfactual was found for this instance</p>
+          )}
+          {counterfactuals.counterfactuals.map((counterfactual, index) => (
+            <div key={index} className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+              <div className="space-y-1">
+                <p className="text-sm">Change {describeChanges(counterfactual.changes)}</p>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span>{counterfactual.changes.length} change{counterfactual.changes.length === 1 ? "" : "s"} · prediction {counterfactual.prediction.toFixed(3)}</span>
+                  <OutcomeBadge outcome={counterfactual.outcome} />
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => applyChanges(counterfactual.changes)} disabled={scoring}>
+                Try It
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -1,11 +1,23 @@
+import { useEffect } from "react";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { PolicyProfileSelect } from "@/components/common/PolicyProfileSelect";
+import { useSettings } from "@/hooks/use-settings";
+import { pruneExpiredRuns } from "@/lib/history";
+import { updateSettings } from "@/lib/settings";
 import { AppSidebar } from "./AppSidebar";
+import { JobsTray } from "./JobsTray";
 
 interface AppLayoutProps {
   children: React.ReactNode;
 }
 
 export function AppLayout({ children }: AppLayoutProps) {
+  const { demoMode, policyProfileId } = useSettings();
+
+  useEffect(() => {
+    pruneExpiredRuns().catch(error => console.error('Failed to prune expired runs:', error));
+  }, []);
+
   return (
     <SidebarProvider>
       <div className="min-h-screen flex w-full bg-background">
@@ -22,10 +34,23 @@ export function AppLayout({ children }: AppLayoutProps) {
               </div>
               
               <div className="flex items-center gap-4">
-                <div className="flex items-center gap-2 px-3 py-1 bg-primary/10 rounded-full">
-                  <div className="w-2 h-2 bg-success rounded-full animate-pulse"></div>
-                  <span className="text-sm text-primary font-medium">System Active</span>
-                </div>
+                <JobsTray />
+                <PolicyProfileSelect
+                  value={policyProfileId}
+                  onValueChange={(value) => updateSettings({ policyProfileId: value })}
+                  className="w-56"
+                />
+                {demoMode ? (
+                  <div className="flex items-center gap-2 px-3 py-1 bg-warning/10 rounded-full">
+                    <div className="w-2 h-2 bg-warning rounded-full animate-pulse"></div>
+                    <span className="text-sm text-warning font-medium">Demo Mode</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2 px-3 py-1 bg-primary/10 rounded-full">
+                    <div className="w-2 h-2 bg-success rounded-full animate-pulse"></div>
+                    <span className="text-sm text-primary font-medium">System Active</span>
+                  </div>
+                )}
               </div>
             </div>
           </header>
@@ -6,6 +6,8 @@ import {
   FileText, 
   Brain,
   AlertTriangle,
+  Database,
+  History,
   Settings
 } from "lucide-react";
 import {
@@ -22,10 +24,12 @@ import {
 
 const navigationItems = [
   { title: "Dashboard", url: "/", icon: BarChart3 },
+  { title: "Data Audit", url: "/data-audit", icon: Database },
   { title: "Bias Detection", url: "/bias-detection", icon: AlertTriangle },
   { title: "Explainability", url: "/explainability", icon: Brain },
   { title: "Compliance Reports", url: "/compliance", icon: FileText },
   { title: "Model Governance", url: "/governance", icon: Shield },
+  { title: "Audit History", url: "/history", icon: History },
 ];
 
 export function AppSidebar() {
@@ -88,9 +92,14 @@ export function AppSidebar() {
 
         {/* Settings */}
         <div className="mt-auto pt-4 border-t border-sidebar-border">
-          <SidebarMenuButton className="w-full p-3 rounded-lg hover:bg-accent/50">
-            <Settings className="w-5 h-5" />
-            {!isCollapsed && <span className="ml-3">Settings</span>}
+          <SidebarMenuButton asChild>
+            <NavLink
+              to="/settings"
+              className={`${getNavClasses(isActive("/settings"))} w-full rounded-lg p-3 transition-all duration-200`}
+            >
+              <Settings className="w-5 h-5 flex-shrink-0" />
+              {!isCollapsed && <span className="ml-3">Settings</span>}
+            </NavLink>
           </SidebarMenuButton>
         </div>
       </SidebarContent>
@@ -0,0 +1,104 @@
+import { useNavigate } from "react-router-dom";
+import { CheckCircle, ExternalLink, ListChecks, Loader2, X, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
+import { useJobs } from "@/hooks/use-jobs";
+import { AUDIT_RUN_LABELS, AUDIT_RUN_ROUTES } from "@/lib/history";
+import { cancelJob, clearFinishedJobs, dismissJob, TrackedJob } from "@/lib/jobs";
+import { ANALYSIS_STAGE_LABELS } from "@/lib/uploads";
+
+const STATE_LABELS: Record<Exclude<TrackedJob["state"], "running">, string> = {
+  succeeded: "Completed",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+function JobRow({ job }: { job: TrackedJob }) {
+  const navigate = useNavigate();
+  const running = job.state === "running";
+
+  return (
+    <div className="p-3 space-y-2 border-b border-border last:border-b-0">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium text-sm truncate">{job.label}</p>
+          <p className="text-xs text-muted-foreground">{AUDIT_RUN_LABELS[job.kind]}</p>
+        </div>
+        <span className="flex items-center gap-1 text-xs shrink-0">
+          {running && <Loader2 className="w-3 h-3 animate-spin text-primary" />}
+          {job.state === "succeeded" && <CheckCircle className="w-3 h-3 text-success" />}
+          {job.state === "failed" && <XCircle className="w-3 h-3 text-destructive" />}
+          {running ? ANALYSIS_STAGE_LABELS[job.stage] : STATE_LABELS[job.state]}
+        </span>
+      </div>
+
+      {running && <Progress value={job.progress * 100} className="h-1.5" />}
+      {running && job.message && <p className="text-xs text-muted-foreground">{job.message}</p>}
+      {job.error && <p className="text-xs text-destructive">{job.error}</p>}
+
+      <div className="flex justify-end gap-1">
+        {running && (
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => cancelJob(job.id)}>
+            <X className="w-3 h-3 mr-1" />
+            Cancel
+          </Button>
+        )}
+        {job.runId && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2"
+            onClick={() => navigate(`${AUDIT_RUN_ROUTES[job.kind]}?run=${job.runId}`)}
+          >
+            <ExternalLink className="w-3 h-3 mr-1" />
+            Open
+          </Button>
+        )}
+        {!running && (
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-muted-foreground" onClick={() => dismissJob(job.id)}>
+            Dismiss
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Header button listing analyses started in this session, running or finished
+export function JobsTray() {
+  const jobs = useJobs();
+  const running = jobs.filter(job => job.state === "running").length;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="relative">
+          <ListChecks className="w-4 h-4 mr-2" />
+          Jobs
+          {running > 0 && <Badge className="ml-2 h-5 px-1.5">{running}</Badge>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between p-3 border-b border-border">
+          <h4 className="font-semibold text-sm">Analysis Jobs</h4>
+          {jobs.length > running && (
+            <Button variant="ghost" size="sm" className="h-7 px-2" onClick={clearFinishedJobs}>
+              Clear finished
+            </Button>
+          )}
+        </div>
+        {jobs.length === 0 ? (
+          <p className="p-6 text-sm text-muted-foreground text-center">
+            Analyses you start keep running here while you move between pages
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {jobs.map(job => <JobRow key={job.id} job={job} />)}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
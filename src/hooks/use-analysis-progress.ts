@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useJobs } from "@/hooks/use-jobs";
+import type { AuditRunKind } from "@/lib/history";
+import { cancelJob, getJobs, startJob } from "@/lib/jobs";
+
+// The page's running analysis, kept in the jobs store so it carries on after navigating away.
+// Coming back to the page picks up a job of one of its kinds that is still running, and opens its
+// saved run once it finishes.
+export function useAnalysisProgress(kinds: AuditRunKind[]) {
+  const jobs = useJobs();
+  const [, setSearchParams] = useSearchParams();
+  const [jobId, setJobId] = useState<string | null>(
+    () => getJobs().find(job => kinds.includes(job.kind) && job.state === "running")?.id ?? null
+  );
+  const [adopted, setAdopted] = useState(jobId !== null);
+  const job = jobs.find(existing => existing.id === jobId) ?? null;
+
+  useEffect(() => {
+    if (adopted && job?.runId) {
+      setAdopted(false);
+      setSearchParams({ run: job.runId });
+    }
+  }, [adopted, job?.runId, setSearchParams]);
+
+  // Returns the handle whose control goes to the API call for this run
+  const start = useCallback(<T,>(kind: AuditRunKind, label: string) => {
+    const handle = startJob<T>(kind, label);
+    setJobId(handle.id);
+    setAdopted(false);
+    return handle;
+  }, []);
+
+  const cancel = useCallback(() => {
+    if (jobId) cancelJob(jobId);
+  }, [jobId]);
+
+  return {
+    running: job?.state === "running",
+    stage: job?.stage ?? "uploading",
+    progress: job?.progress ?? 0,
+    message: job?.message,
+    partialResult: job?.partialResult,
+    start,
+    cancel,
+  };
+}
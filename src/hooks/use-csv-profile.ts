@@ -0,0 +1,17 @@
+import type { DatasetSchema } from "@/lib/csv";
+import { useCsvWorker } from "@/hooks/use-csv-worker";
+
+const createProfilerWorker = () =>
+  new Worker(new URL("../workers/csv-profiler.worker.ts", import.meta.url), { type: "module" });
+
+// Profiles the given file in a Web Worker; a new file cancels the previous run
+export function useCsvProfile(file: File | null) {
+  const { result, running, progress, error } = useCsvWorker<DatasetSchema>(
+    createProfilerWorker,
+    file,
+    {},
+    "Failed to start CSV profiler"
+  );
+  // The previous file's schema is never shown for a new one
+  return { schema: running ? null : result, profiling: running, progress, error };
+}
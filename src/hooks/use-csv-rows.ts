@@ -0,0 +1,33 @@
+import { useCsvWorker } from "@/hooks/use-csv-worker";
+import type { CsvRowQuery, CsvRowsResult } from "@/workers/csv-rows.worker";
+
+const createRowsWorker = () =>
+  new Worker(new URL("../workers/csv-rows.worker.ts", import.meta.url), { type: "module" });
+
+// Reads the page of rows matching the query in a Web Worker; a new file or query cancels the previous read.
+// Pass a null query to skip reading.
+export function useCsvRows(file: File | null, query: CsvRowQuery | null) {
+  const { result, running, progress, error } = useCsvWorker<CsvRowsResult>(
+    createRowsWorker,
+    file,
+    query && { query },
+    "Failed to start CSV reader"
+  );
+  return {
+    columns: result?.columns ?? [],
+    rows: result?.rows ?? [],
+    matchCount: result?.matchCount ?? 0,
+    loading: running,
+    progress,
+    error,
+  };
+}
+
+// Values of one data row, e.g. the instance being explained
+export function useCsvRow(file: File | null, index: number | null) {
+  const { columns, rows, loading, error } = useCsvRows(
+    file,
+    index === null ? null : { filters: {}, search: "", offset: index, limit: 1 }
+  );
+  return { columns, row: rows[0] ?? null, loading, error };
+}
@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import type { CsvWorkerMessage } from "@/lib/csv";
+
+export interface CsvWorkerState<T> {
+  result: T | null;
+  running: boolean;
+  progress: number;
+  error: string | null;
+}
+
+const idleState: CsvWorkerState<null> = { result: null, running: false, progress: 0, error: null };
+
+// Streams the file through a CSV worker, posting the file together with the options as the request.
+// A new file or options cancel the previous run and null options skip it; the last result is kept
+// until the next one arrives.
+export function useCsvWorker<T>(
+  createWorker: () => Worker,
+  file: File | null,
+  options: object | null,
+  startError: string
+) {
+  const [state, setState] = useState<CsvWorkerState<T>>(idleState);
+  // Options are usually built inline, so the effect keys on their contents
+  const optionsKey = options ? JSON.stringify(options) : null;
+
+  useEffect(() => {
+    if (!file || !optionsKey) {
+      setState(idleState);
+      return;
+    }
+
+    setState(prev => ({ ...prev, running: true, progress: 0, error: null }));
+    const worker = createWorker();
+
+    worker.onmessage = (event: MessageEvent<CsvWorkerMessage<T>>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        setState(prev => ({ ...prev, progress: message.totalBytes ? message.bytesRead / message.totalBytes : 0 }));
+      } else if (message.type === "done") {
+        setState({ result: message.result, running: false, progress: 1, error: null });
+        worker.terminate();
+      } else {
+        setState({ ...idleState, error: message.message });
+        worker.terminate();
+      }
+    };
+    worker.onerror = () => {
+      setState({ ...idleState, error: startError });
+      worker.terminate();
+    };
+    worker.postMessage({ file, ...JSON.parse(optionsKey) });
+
+    return () => worker.terminate();
+  }, [createWorker, file, optionsKey, startError]);
+
+  return state;
+}
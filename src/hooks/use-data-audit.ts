@@ -0,0 +1,17 @@
+import type { DataAuditConfig, DataAuditReport } from "@/lib/diagnostics";
+import { useCsvWorker } from "@/hooks/use-csv-worker";
+
+const createAuditWorker = () =>
+  new Worker(new URL("../workers/data-audit.worker.ts", import.meta.url), { type: "module" });
+
+// Audits the file in a Web Worker; a new file or config cancels the previous run. Pass a null config to skip.
+export function useDataAudit(file: File | null, config: DataAuditConfig | null) {
+  const { result, running, progress, error } = useCsvWorker<DataAuditReport>(
+    createAuditWorker,
+    file,
+    config && { config },
+    "Failed to start data audit"
+  );
+  // A report for the previous config is not shown while the new one runs
+  return { report: running ? null : result, running, progress, error };
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { getJobs, subscribeJobs } from "@/lib/jobs";
+
+export function useJobs() {
+  return useSyncExternalStore(subscribeJobs, getJobs);
+}
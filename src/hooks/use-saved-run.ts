@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { AuditRun, AuditRunKind, getRun } from "@/lib/history";
+
+// Loads the saved run referenced by the page's ?run=<id> query parameter
+export function useSavedRun<K extends AuditRunKind>(kind: K) {
+  const [searchParams] = useSearchParams();
+  const runId = searchParams.get("run");
+  const [run, setRun] = useState<AuditRun<K> | null>(null);
+
+  useEffect(() => {
+    if (!runId) {
+      setRun(null);
+      return;
+    }
+
+    let cancelled = false;
+    getRun(runId)
+      .then(saved => {
+        if (!cancelled) {
+          setRun(saved?.kind === kind ? (saved as AuditRun<K>) : null);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load saved run:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [runId, kind]);
+
+  return run;
+}
@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react";
+import { getSettings, subscribeSettings } from "@/lib/settings";
+import { getPolicyProfile } from "@/lib/policies";
+
+export function useSettings() {
+  return useSyncExternalStore(subscribeSettings, getSettings);
+}
+
+// The policy profile selected in settings, used to colour results across the app
+export function useActivePolicy() {
+  return getPolicyProfile(useSettings().policyProfileId);
+}
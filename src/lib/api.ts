@@ -1,5 +1,56 @@
 // API configuration and utility functions
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000';
+import type { z } from 'zod';
+import {
+  AnalysisJob,
+  AnalysisJobSchema,
+  ApiRequestOptions,
+  ApiTransport,
+  ApprovalState,
+  AuditArtifactInput,
+  BiasDetectionResult,
+  BiasDetectionResultSchema,
+  ComplianceResult,
+  ComplianceResultSchema,
+  createApiClient,
+  ExplainabilityResult,
+  ExplainabilityResultSchema,
+  GlobalExplainabilityResult,
+  GlobalExplainabilityResultSchema,
+  GovernanceModelInput,
+  GovernanceModelUpdate,
+  GroupAnalysisConfig,
+  GroupBiasResult,
+  GroupBiasResultSchema,
+  HttpMethod,
+  MitigationAcceptance,
+  MitigationResult,
+  MitigationResultSchema,
+  MitigationTechnique,
+  RequestControl,
+  ThresholdSweepResult,
+  ThresholdSweepResultSchema,
+} from './generated/openapi';
+import { demoRequest } from './demo/backend';
+import { DemoBackendError } from './demo/errors';
+import type { FairnessThresholds } from './policies';
+import { getSettings } from './settings';
+import {
+  AnalysisControl,
+  CHUNKED_UPLOAD_THRESHOLD,
+  fileKey,
+  forgetUpload,
+  getSavedUploadId,
+  rememberUpload,
+  UPLOAD_CHUNK_SIZE,
+} from './uploads';
+
+export const DEFAULT_API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000';
+const JOB_POLL_INTERVAL_MS = 1000;
+
+// Read on every request so changes on the Settings page apply without a reload
+export function getApiBaseUrl() {
+  return getSettings().apiBaseUrl || DEFAULT_API_BASE_URL;
+}
 
 export class ApiError extends Error {
   constructor(message: string, public status: number, public response?: any) {
@@ -8,43 +59,158 @@ export class ApiError extends Error {
   }
 }
 
-// Generic API request function
-async function apiRequest<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
-  const url = `${API_BASE_URL}${endpoint}`;
+// The response did not match the OpenAPI contract; `field` is the path of the first mismatch
+export class ApiValidationError extends ApiError {
+  constructor(public endpoint: string, public field: string, public issues: z.ZodIssue[]) {
+    super(`Unexpected response from ${endpoint}: ${field || 'response body'} - ${issues[0]?.message}`, 200);
+    this.name = 'ApiValidationError';
+  }
+}
+
+// The caller aborted the request, e.g. with a cancel button; not a failure worth reporting
+export class ApiCancelledError extends ApiError {
+  constructor() {
+    super('Request cancelled', 0);
+    this.name = 'ApiCancelledError';
+  }
+}
+
+// Files are sent as-is; objects and arrays are JSON-encoded form fields
+function toFormData(fields: object) {
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    if (value instanceof Blob) {
+      formData.append(name, value);
+    } else if (typeof value === 'object') {
+      formData.append(name, JSON.stringify(value));
+    } else {
+      formData.append(name, String(value));
+    }
+  }
+  return formData;
+}
+
+async function readErrorResponse(body: string, status: number, statusText: string) {
+  let errorData: { message?: string } = {};
+  try {
+    errorData = JSON.parse(body);
+  } catch {
+    // Not JSON; fall back to the status line
+  }
+  return new ApiError(errorData.message || `HTTP ${status}: ${statusText}`, status, errorData);
+}
+
+// Form uploads use XMLHttpRequest, which unlike fetch reports upload progress. The upload
+// timeout restarts whenever bytes are sent, so a large file is only cut off once it stalls.
+function sendForm(method: HttpMethod, endpoint: string, options: ApiRequestOptions): Promise<unknown> {
+  const { uploadTimeoutSeconds } = getSettings();
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new ApiCancelledError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
+    const restartTimeout = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => {
+        timedOut = true;
+        xhr.abort();
+      }, uploadTimeoutSeconds * 1000);
+    };
+    const cancel = () => xhr.abort();
+    const settle = () => {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', cancel);
+    };
+
+    xhr.open(method, `${getApiBaseUrl()}${endpoint}`);
+    xhr.responseType = options.responseType === 'blob' ? 'blob' : 'text';
+    xhr.upload.onprogress = (event) => {
+      restartTimeout();
+      if (event.lengthComputable) {
+        options.onUploadProgress?.(event.loaded, event.total);
+      }
+    };
+    xhr.onload = async () => {
+      settle();
+      if (xhr.status < 200 || xhr.status >= 300) {
+        const body = xhr.responseType === 'blob' ? await (xhr.response as Blob).text() : xhr.responseText;
+        reject(await readErrorResponse(body, xhr.status, xhr.statusText));
+        return;
+      }
+      if (options.responseType === 'blob') {
+        resolve(xhr.response);
+        return;
+      }
+      try {
+        resolve(JSON.parse(xhr.responseText));
+      } catch {
+        reject(new ApiError('Server returned a response that is not JSON', xhr.status));
+      }
+    };
+    xhr.onerror = () => {
+      settle();
+      reject(new ApiError('Network error - cannot connect to server', 0));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(timedOut ? new ApiError('Request timeout - server may be unavailable', 0) : new ApiCancelledError());
+    };
+
+    options.signal?.addEventListener('abort', cancel);
+    restartTimeout();
+    xhr.send(toFormData(options.form!));
+  });
+}
+
+// Returns the parsed JSON body, or a Blob for binary responses
+async function fetchResponse(method: HttpMethod, endpoint: string, options: ApiRequestOptions): Promise<unknown> {
+  if (options.form) {
+    return sendForm(method, endpoint, options);
+  }
+
+  const url = `${getApiBaseUrl()}${endpoint}`;
+  const { requestTimeoutSeconds } = getSettings();
   
   try {
     // Create timeout controller for better browser compatibility
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
+    const timeoutId = setTimeout(() => controller.abort(), requestTimeoutSeconds * 1000);
+    const cancel = () => controller.abort();
+    options.signal?.addEventListener('abort', cancel);
     
     const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
+      method,
+      headers: options.json !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+      body: options.json !== undefined ? JSON.stringify(options.json) : undefined,
       signal: controller.signal,
+    }).finally(() => {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', cancel);
     });
-    
-    clearTimeout(timeoutId);
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new ApiError(
-        errorData.message || `HTTP ${response.status}: ${response.statusText}`,
-        response.status,
-        errorData
-      );
+      throw await readErrorResponse(await response.text().catch(() => ''), response.status, response.statusText);
     }
 
-    return await response.json();
+    if (options.responseType === 'blob') {
+      return await response.blob();
+    }
+    return await response.json().catch(() => {
+      throw new ApiError('Server returned a response that is not JSON', response.status);
+    });
   } catch (error: any) {
     if (error instanceof ApiError) {
       throw error;
     }
+    if (error.name === 'AbortError' && options.signal?.aborted) {
+      throw new ApiCancelledError();
+    }
     if (error.name === 'AbortError') {
       throw new ApiError('Request timeout - server may be unavailable', 0);
     }
@@ -55,107 +221,559 @@ async function apiRequest<T>(
   }
 }
 
-// Form data API request for file uploads
-async function apiFormRequest<T>(
-  endpoint: string,
-  formData: FormData
-): Promise<T> {
-  const url = `${API_BASE_URL}${endpoint}`;
-  
+// Demo mode answers from the in-browser backend instead of the network
+async function fetchDemoResponse(method: HttpMethod, endpoint: string, options: ApiRequestOptions): Promise<unknown> {
+  if (options.form) {
+    // Nothing crosses the network, so the upload completes at once
+    const size = Object.values(options.form).reduce((total, value) => total + (value instanceof Blob ? value.size : 0), 0);
+    options.onUploadProgress?.(size, size);
+  }
+
   try {
-    // Create timeout controller for better browser compatibility
+    const data = await demoRequest(method, endpoint, options);
+    if (options.signal?.aborted) {
+      throw new ApiCancelledError();
+    }
+    return data;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    if (error instanceof DemoBackendError) {
+      throw new ApiError(error.message, error.status);
+    }
+    throw new ApiError(error instanceof Error ? error.message : 'Demo backend failed', 500);
+  }
+}
+
+// Sends a request and validates the response against the generated schema
+const apiRequest: ApiTransport = async <T>(method: HttpMethod, endpoint: string, options: ApiRequestOptions): Promise<T> => {
+  const data = getSettings().demoMode
+    ? await fetchDemoResponse(method, endpoint, options)
+    : await fetchResponse(method, endpoint, options);
+  if (!options.schema) {
+    return data as T;
+  }
+
+  const parsed = options.schema.safeParse(data);
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    throw new ApiValidationError(endpoint, issue.path.join('.'), parsed.error.issues);
+  }
+  return parsed.data;
+};
+
+const client = createApiClient(apiRequest);
+
+// Picks up an earlier session for the same file, unless the server no longer has it
+async function resumeUpload(file: File) {
+  const uploadId = getSavedUploadId(file);
+  if (!uploadId) return null;
+
+  try {
+    const session = await client.getUpload({ upload_id: uploadId });
+    if (session.size === file.size) return session;
+  } catch (error) {
+    if (!(error instanceof ApiError) || error.status !== 404) throw error;
+  }
+  forgetUpload(file);
+  return null;
+}
+
+// Conflicting offsets in a row before the upload gives up
+const MAX_UPLOAD_CONFLICTS = 3;
+
+// Sends the file one chunk at a time from wherever the server's copy ends
+async function uploadInChunks(file: File, { signal, onStage }: AnalysisControl) {
+  let session = await resumeUpload(file);
+  if (!session) {
+    session = await client.createUpload({ file_name: file.name, size: file.size });
+    rememberUpload(file, session.upload_id);
+  }
+
+  let conflicts = 0;
+  while (session.received_bytes < file.size) {
+    if (signal?.aborted) throw new ApiCancelledError();
+    const offset = session.received_bytes;
+    const chunk = file.slice(offset, offset + UPLOAD_CHUNK_SIZE);
+    onStage?.('uploading', offset / file.size);
+    try {
+      session = await client.uploadChunk({ upload_id: session.upload_id }, { offset, chunk }, {
+        signal,
+        // Loaded bytes include the multipart framing, so cap them at the chunk size
+        onUploadProgress: (loaded) => onStage?.('uploading', (offset + Math.min(loaded, chunk.size)) / file.size),
+      });
+      conflicts = 0;
+    } catch (error) {
+      // The server's copy ends somewhere else, e.g. after a lost response; carry on from there
+      if (!(error instanceof ApiError) || error.status !== 409 || ++conflicts > MAX_UPLOAD_CONFLICTS) throw error;
+      session = await client.getUpload({ upload_id: session.upload_id });
+    }
+  }
+  return session.upload_id;
+}
+
+interface SharedUpload {
+  upload: Promise<string>;
+  controller: AbortController;
+  listeners: Set<NonNullable<AnalysisControl['onStage']>>;
+  // Callers still waiting; the upload is aborted once all of them have cancelled
+  waiting: number;
+}
+
+// Uploads in progress by file, so analyses started together on one file share a single upload
+const sharedUploads = new Map<string, SharedUpload>();
+
+function joinUpload(file: File, { signal, onStage }: AnalysisControl) {
+  if (signal?.aborted) return Promise.reject(new ApiCancelledError());
+
+  const key = fileKey(file);
+  let shared = sharedUploads.get(key);
+  if (!shared || shared.controller.signal.aborted) {
+    // A cancelled upload may still be finishing its current request, so a new one waits for it
+    const previous = shared?.upload.catch(() => undefined) ?? Promise.resolve();
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout for file uploads
-    
-    const response = await fetch(url, {
-      method: 'POST',
-      body: formData,
+    const listeners: SharedUpload['listeners'] = new Set();
+    const upload = previous.then(() => uploadInChunks(file, {
       signal: controller.signal,
-    });
-    
-    clearTimeout(timeoutId);
+      onStage: (stage, progress, message) => listeners.forEach((listener) => listener(stage, progress, message)),
+    }));
+    const created: SharedUpload = { upload, controller, listeners, waiting: 0 };
+    const remove = () => {
+      if (sharedUploads.get(key) === created) sharedUploads.delete(key);
+    };
+    upload.then(remove, remove);
+    sharedUploads.set(key, created);
+    shared = created;
+  }
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new ApiError(
-        errorData.message || `HTTP ${response.status}: ${response.statusText}`,
-        response.status,
-        errorData
-      );
+  const joined = shared;
+  joined.waiting += 1;
+  if (onStage) joined.listeners.add(onStage);
+  return new Promise<string>((resolve, reject) => {
+    let left = false;
+    const leave = () => {
+      if (left) return false;
+      left = true;
+      joined.waiting -= 1;
+      if (onStage) joined.listeners.delete(onStage);
+      signal?.removeEventListener('abort', abort);
+      return true;
+    };
+    const abort = () => {
+      if (!leave()) return;
+      if (joined.waiting === 0) joined.controller.abort();
+      reject(new ApiCancelledError());
+    };
+    signal?.addEventListener('abort', abort);
+    joined.upload.then(
+      (uploadId) => {
+        if (leave()) resolve(uploadId);
+      },
+      (error) => {
+        if (leave()) reject(error);
+      }
+    );
+  });
+}
+
+// A dataset already on the server, referenced by its upload id
+export interface UploadedDataset {
+  upload_id: string;
+}
+
+// Uploads the file ahead of the analyses that use it, so several of them can share one upload
+export async function uploadDataset(file: File, control: AnalysisControl<unknown> = {}): Promise<UploadedDataset> {
+  control.onStage?.('uploading', 0);
+  return { upload_id: await joinUpload(file, control) };
+}
+
+// Small files travel inside the job submission; large ones are uploaded first and referenced by id.
+// Returns the dataset fields for the request and the control for sending it.
+async function prepareDataset(file: File | UploadedDataset, control: AnalysisControl<unknown> = {}) {
+  const { signal, onStage } = control;
+  if (!(file instanceof File)) {
+    const request: RequestControl = { signal };
+    return { dataset: { upload_id: file.upload_id }, request };
+  }
+  onStage?.('uploading', 0);
+
+  if (file.size <= CHUNKED_UPLOAD_THRESHOLD) {
+    const request: RequestControl = {
+      signal,
+      onUploadProgress: (loaded, total) => onStage?.('uploading', loaded / total),
+    };
+    return { dataset: { file }, request };
+  }
+
+  const uploadId = await joinUpload(file, control);
+  const request: RequestControl = { signal };
+  return { dataset: { upload_id: uploadId }, request };
+}
+
+// What-if and counterfactual requests repeat for the same file while a row is being edited, so the
+// file is uploaded once per page session and later requests reference it by id
+const interactiveUploads = new WeakMap<File, string>();
+
+// Sends the request with the file's upload id. When the server has since expired the upload it
+// answers 404, and the file is uploaded again once before giving up.
+async function withInteractiveDataset<T>(
+  file: File,
+  control: AnalysisControl<unknown> = {},
+  send: (dataset: { upload_id: string }, request: RequestControl) => Promise<T>
+): Promise<T> {
+  const request: RequestControl = { signal: control.signal };
+  const cached = interactiveUploads.get(file);
+  if (cached) {
+    try {
+      return await send({ upload_id: cached }, request);
+    } catch (error) {
+      if (!(error instanceof ApiError) || error.status !== 404) throw error;
+      interactiveUploads.delete(file);
     }
+  }
+  const uploadId = await joinUpload(file, control);
+  interactiveUploads.set(file, uploadId);
+  return send({ upload_id: uploadId }, request);
+}
 
-    return await response.json();
-  } catch (error: any) {
-    if (error instanceof ApiError) {
-      throw error;
+const isSettled = (job: AnalysisJob) => ['succeeded', 'failed', 'cancelled'].includes(job.status);
+
+function waitForPoll(signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiCancelledError());
+      return;
     }
-    if (error.name === 'AbortError') {
-      throw new ApiError('Request timeout - server may be unavailable', 0);
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, JOB_POLL_INTERVAL_MS);
+    const abort = () => {
+      clearTimeout(timeoutId);
+      reject(new ApiCancelledError());
+    };
+    signal?.addEventListener('abort', abort);
+  });
+}
+
+// Resolves with the job once it settles; rejects if the stream drops so the caller can fall back to polling
+function streamJob(jobId: string, signal: AbortSignal | undefined, onUpdate: (job: AnalysisJob) => void) {
+  const endpoint = `/api/v1/jobs/${encodeURIComponent(jobId)}/events`;
+  return new Promise<AnalysisJob>((resolve, reject) => {
+    const source = new EventSource(`${getApiBaseUrl()}${endpoint}`);
+    const close = () => {
+      source.close();
+      signal?.removeEventListener('abort', abort);
+    };
+    const abort = () => {
+      close();
+      reject(new ApiCancelledError());
+    };
+
+    source.onmessage = (event) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(event.data);
+      } catch {
+        close();
+        reject(new ApiError('Job event stream sent data that is not JSON', 0));
+        return;
+      }
+      const parsed = AnalysisJobSchema.safeParse(data);
+      if (!parsed.success) {
+        close();
+        const [issue] = parsed.error.issues;
+        reject(new ApiValidationError(endpoint, issue.path.join('.'), parsed.error.issues));
+        return;
+      }
+      const job = parsed.data as AnalysisJob;
+      onUpdate(job);
+      if (isSettled(job)) {
+        close();
+        resolve(job);
+      }
+    };
+    source.onerror = () => {
+      close();
+      reject(new ApiError('Job event stream closed', 0));
+    };
+    signal?.addEventListener('abort', abort);
+  });
+}
+
+// Follows a job over server-sent events, falling back to polling when the stream is unavailable.
+// Demo mode has no event stream, so it is always polled.
+async function watchJob(initial: AnalysisJob, signal: AbortSignal | undefined, onUpdate: (job: AnalysisJob) => void) {
+  let job = initial;
+  const update = (next: AnalysisJob) => {
+    job = next;
+    onUpdate(next);
+  };
+  update(initial);
+
+  if (!isSettled(job) && !getSettings().demoMode && typeof EventSource !== 'undefined') {
+    try {
+      return await streamJob(job.job_id, signal, update);
+    } catch (error) {
+      if (error instanceof ApiCancelledError) throw error;
+      console.warn('Falling back to polling job status:', error);
     }
-    if (error.name === 'TypeError' && error.message.includes('fetch')) {
-      throw new ApiError('Network error - cannot connect to server', 0);
+  }
+
+  while (!isSettled(job)) {
+    await waitForPoll(signal);
+    const next = await client.getJob({ job_id: job.job_id });
+    // A cancel during the status request wins over whatever the request returned
+    if (signal?.aborted) throw new ApiCancelledError();
+    update(next);
+  }
+  return job;
+}
+
+// Waits for a submitted job and returns its result, validated like a blocking response would be.
+// Cancelling through the signal also cancels the job on the server.
+async function runJob<T>(submission: Promise<AnalysisJob>, schema: z.ZodTypeAny, control: AnalysisControl<T> = {}): Promise<T> {
+  const { signal, onStage, onPartialResult } = control;
+  let job = await submission;
+
+  try {
+    job = await watchJob(job, signal, (update) => {
+      onStage?.(update.status === 'queued' ? 'queued' : 'processing', update.progress, update.message ?? undefined);
+      const partial = update.partial_result != null ? schema.safeParse(update.partial_result) : null;
+      if (partial?.success) onPartialResult?.(partial.data as T);
+    });
+  } catch (error) {
+    if (error instanceof ApiCancelledError) {
+      client.cancelJob({ job_id: job.job_id }).catch(cancelError => {
+        console.error('Failed to cancel job:', cancelError);
+      });
     }
-    throw new ApiError('Network error or server unavailable', 0);
+    throw error;
+  }
+
+  if (job.status === 'cancelled') {
+    throw new ApiCancelledError();
+  }
+  if (job.status === 'failed') {
+    throw new ApiError(job.error || 'Analysis failed', 500, job);
+  }
+  const parsed = schema.safeParse(job.result);
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    throw new ApiValidationError(`/api/v1/jobs/${job.job_id}`, ['result', ...issue.path].join('.'), parsed.error.issues);
   }
+  return parsed.data as T;
 }
 
 // Dashboard API calls
 export const dashboardApi = {
-  getSummary: () => apiRequest<DashboardData>('/api/v1/dashboard/summary'),
-  getModelRisk: () => apiRequest<ModelRisk[]>('/api/v1/dashboard/model_risk'),
-  getComplianceTrend: () => apiRequest<ComplianceTrend[]>('/api/v1/dashboard/compliance_trend'),
+  getSummary: () => client.getDashboardSummary(),
+  getModelRisk: () => client.getModelRisk(),
+  getComplianceTrend: () => client.getComplianceTrend(),
 };
 
 // Bias Detection API
 export const biasDetectionApi = {
-  detect: (
+  detect: async (
+    file: File | UploadedDataset,
+    modelName: string,
+    modelVersion: string,
+    targetVariable: string,
+    sensitiveAttribute: string,
+    privilegedGroup: string,
+    unprivilegedGroup: string,
+    thresholds?: FairnessThresholds,
+    control?: AnalysisControl<BiasDetectionResult>
+  ) => {
+    const { dataset, request } = await prepareDataset(file, control);
+    return runJob(client.submitBiasDetectionJob({
+      ...dataset,
+      model_name: modelName,
+      model_version: modelVersion,
+      target_variable: targetVariable,
+      sensitive_attribute: sensitiveAttribute,
+      privileged_group: privilegedGroup,
+      unprivileged_group: unprivilegedGroup,
+      fairness_thresholds: thresholds,
+    }, request), BiasDetectionResultSchema, control);
+  },
+
+  // Compares every selected group against a reference group, optionally across attribute intersections
+  detectGroups: async (
+    file: File,
+    modelName: string,
+    modelVersion: string,
+    targetVariable: string,
+    config: GroupAnalysisConfig,
+    thresholds?: FairnessThresholds,
+    control?: AnalysisControl<GroupBiasResult>
+  ) => {
+    const { dataset, request } = await prepareDataset(file, control);
+    return runJob(client.submitGroupBiasDetectionJob({
+      ...dataset,
+      model_name: modelName,
+      model_version: modelVersion,
+      target_variable: targetVariable,
+      ...config,
+      fairness_thresholds: thresholds,
+    }, request), GroupBiasResultSchema, control);
+  },
+
+  // Metrics for the pair at each decision threshold in scoreThresholds, or the backend's default range
+  sweepThresholds: async (
     file: File,
     modelName: string,
     modelVersion: string,
     targetVariable: string,
     sensitiveAttribute: string,
     privilegedGroup: string,
-    unprivilegedGroup: string
+    unprivilegedGroup: string,
+    scoreThresholds?: number[],
+    thresholds?: FairnessThresholds,
+    control?: AnalysisControl<ThresholdSweepResult>
   ) => {
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('model_name', modelName);
-    formData.append('model_version', modelVersion);
-    formData.append('target_variable', targetVariable);
-    formData.append('sensitive_attribute', sensitiveAttribute);
-    formData.append('privileged_group', privilegedGroup);
-    formData.append('unprivileged_group', unprivilegedGroup);
-    
-    return apiFormRequest<BiasDetectionResult>('/api/v1/bias/detect', formData);
+    const { dataset, request } = await prepareDataset(file, control);
+    return runJob(client.submitThresholdSweepJob({
+      ...dataset,
+      model_name: modelName,
+      model_version: modelVersion,
+      target_variable: targetVariable,
+      sensitive_attribute: sensitiveAttribute,
+      privileged_group: privilegedGroup,
+      unprivileged_group: unprivilegedGroup,
+      score_thresholds: scoreThresholds,
+      fairness_thresholds: thresholds,
+    }, request), ThresholdSweepResultSchema, control);
+  },
+
+  // Applies one mitigation technique and evaluates the pair before and after it
+  mitigate: async (
+    file: File,
+    modelName: string,
+    modelVersion: string,
+    targetVariable: string,
+    sensitiveAttribute: string,
+    privilegedGroup: string,
+    unprivilegedGroup: string,
+    technique: MitigationTechnique,
+    repairLevel?: number,
+    thresholds?: FairnessThresholds,
+    control?: AnalysisControl<MitigationResult>
+  ) => {
+    const { dataset, request } = await prepareDataset(file, control);
+    return runJob(client.submitMitigationJob({
+      ...dataset,
+      model_name: modelName,
+      model_version: modelVersion,
+      target_variable: targetVariable,
+      sensitive_attribute: sensitiveAttribute,
+      privileged_group: privilegedGroup,
+      unprivileged_group: unprivilegedGroup,
+      technique,
+      repair_level: repairLevel,
+      fairness_thresholds: thresholds,
+    }, request), MitigationResultSchema, control);
   },
+
+  // Registers the mitigated configuration as a new draft version of the model
+  acceptMitigation: (mitigationId: string, acceptance: MitigationAcceptance) =>
+    client.acceptMitigation({ mitigation_id: mitigationId }, acceptance),
 };
 
 // Explainability API
 export const explainabilityApi = {
-  explain: (
+  explain: async (
     file: File,
     modelName: string,
     modelVersion: string,
     targetVariable: string,
     sensitiveAttribute: string,
     instanceIndex: number,
-    role: string
+    role: string,
+    control?: AnalysisControl<ExplainabilityResult>
   ) => {
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('model_name', modelName);
-    formData.append('model_version', modelVersion);
-    formData.append('target_variable', targetVariable);
-    formData.append('sensitive_attribute', sensitiveAttribute);
-    formData.append('instance_index', instanceIndex.toString());
-    formData.append('role', role);
-    
-    return apiFormRequest<ExplainabilityResult>('/api/v1/explain', formData);
+    const { dataset, request } = await prepareDataset(file, control);
+    return runJob(client.submitExplainJob({
+      ...dataset,
+      model_name: modelName,
+      model_version: modelVersion,
+      target_variable: targetVariable,
+      sensitive_attribute: sensitiveAttribute,
+      instance_index: instanceIndex,
+      role,
+    }, request), ExplainabilityResultSchema, control);
+  },
+
+  // SHAP values for every row, or for sampleSize rows spread over the dataset
+  explainGlobal: async (
+    file: File,
+    modelName: string,
+    modelVersion: string,
+    targetVariable: string,
+    sensitiveAttribute: string,
+    sampleSize?: number,
+    control?: AnalysisControl<GlobalExplainabilityResult>
+  ) => {
+    const { dataset, request } = await prepareDataset(file, control);
+    return runJob(client.submitGlobalExplainJob({
+      ...dataset,
+      model_name: modelName,
+      model_version: modelVersion,
+      target_variable: targetVariable,
+      sensitive_attribute: sensitiveAttribute,
+      sample_size: sampleSize,
+    }, request), GlobalExplainabilityResultSchema, control);
+  },
+
+  // Re-scores one row with featureValues replacing its own values; answers directly rather than as a job
+  whatIf: async (
+    file: File,
+    modelName: string,
+    modelVersion: string,
+    targetVariable: string,
+    sensitiveAttribute: string,
+    instanceIndex: number,
+    featureValues: Record<string, string>,
+    control?: AnalysisControl
+  ) => {
+    return withInteractiveDataset(file, control, (dataset, request) => client.explainWhatIf({
+      ...dataset,
+      model_name: modelName,
+      model_version: modelVersion,
+      target_variable: targetVariable,
+      sensitive_attribute: sensitiveAttribute,
+      instance_index: instanceIndex,
+      feature_values: featureValues,
+    }, request));
+  },
+
+  // Smallest sets of changes that flip the row's outcome; the sensitive attribute is never changed
+  findCounterfactuals: async (
+    file: File,
+    modelName: string,
+    modelVersion: string,
+    targetVariable: string,
+    sensitiveAttribute: string,
+    instanceIndex: number,
+    maxResults?: number,
+    control?: AnalysisControl
+  ) => {
+    return withInteractiveDataset(file, control, (dataset, request) => client.findCounterfactuals({
+      ...dataset,
+      model_name: modelName,
+      model_version: modelVersion,
+      target_variable: targetVariable,
+      sensitive_attribute: sensitiveAttribute,
+      instance_index: instanceIndex,
+      max_results: maxResults,
+    }, request));
   },
 };
 
 // Compliance Report API
 export const complianceApi = {
+  // Evaluates each regulation; the PDF is fetched separately by report_id
   generateReport: async (
     file: File,
     modelName: string,
@@ -164,92 +782,94 @@ export const complianceApi = {
     sensitiveAttribute: string,
     privilegedGroup: string,
     unprivilegedGroup: string,
-    role: string = 'executive'
+    role: string = 'executive',
+    thresholds?: FairnessThresholds,
+    control?: AnalysisControl<ComplianceResult>
   ) => {
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('model_name', modelName);
-    formData.append('model_version', modelVersion);
-    formData.append('target_variable', targetVariable);
-    formData.append('sensitive_attribute', sensitiveAttribute);
-    formData.append('privileged_group', privilegedGroup);
-    formData.append('unprivileged_group', unprivilegedGroup);
-    formData.append('role', role);
-    
-    const url = `${API_BASE_URL}/api/v1/compliance/generate`;
-    const response = await fetch(url, {
-      method: 'POST',
-      body: formData,
-    });
+    const { dataset, request } = await prepareDataset(file, control);
+    return runJob(client.submitComplianceReportJob({
+      ...dataset,
+      model_name: modelName,
+      model_version: modelVersion,
+      target_variable: targetVariable,
+      sensitive_attribute: sensitiveAttribute,
+      privileged_group: privilegedGroup,
+      unprivileged_group: unprivilegedGroup,
+      role,
+      fairness_thresholds: thresholds,
+    }, request), ComplianceResultSchema, control);
+  },
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new ApiError(
-        errorData.message || `HTTP ${response.status}: ${response.statusText}`,
-        response.status,
-        errorData
-      );
-    }
+  // Returns the PDF report as a blob
+  downloadReport: (reportId: string, signal?: AbortSignal) =>
+    client.downloadComplianceReport({ report_id: reportId }, { signal }),
+};
 
-    // Return blob for PDF download
-    return response.blob();
-  },
+// Model Governance API
+const modelParams = (modelName: string, version: string) => ({ model_name: modelName, version });
+
+export const governanceApi = {
+  listModels: () => client.listGovernanceModels(),
+  getModel: (modelName: string, version: string) =>
+    client.getGovernanceModel(modelParams(modelName, version)),
+  registerModel: (model: GovernanceModelInput) => client.registerGovernanceModel(model),
+  updateModel: (modelName: string, version: string, changes: GovernanceModelUpdate) =>
+    client.updateGovernanceModel(modelParams(modelName, version), changes),
+  transition: (modelName: string, version: string, approvalState: ApprovalState, comment: string = '') =>
+    client.transitionGovernanceModel(modelParams(modelName, version), { approval_state: approvalState, comment }),
+  linkArtifact: (modelName: string, version: string, artifact: AuditArtifactInput) =>
+    client.linkGovernanceArtifact(modelParams(modelName, version), artifact),
 };
 
-// Type definitions matching API responses
-export interface DashboardData {
-  timestamp: string;
-  total_models_audited: number;
-  compliant_models: number;
-  non_compliant_models: number;
-  compliance_rate: number;
-  top_bias_source: string;
-  most_risky_model: string;
-  audit_status: string;
-  risk_score: number;
-  last_audit: string;
-  pending_actions: number;
-  trend: string;
-}
-
-export interface ModelRisk {
-  model_name: string;
-  version: string;
-  status: string;
-  risk_score: number;
-  bias_source: string;
-  disparate_impact: number;
-  last_audited: string;
-}
-
-export interface ComplianceTrend {
-  week: string;
-  compliant_models: number;
-}
-
-export interface BiasDetectionResult {
-  metrics: {
-    disparate_impact: number;
-    statistical_parity_difference: number;
-    equal_opportunity_difference: number;
-    average_odds_difference: number;
-  };
-  audit_status: string;
-  recommendations: string[];
-  record_count: number;
-}
-
-export interface ExplainabilityResult {
-  model_name: string;
-  model_version: string;
-  instance_index: number;
-  shap_values: Record<string, number>;
-  feature_importance: Array<{
-    feature: string;
-    importance: number;
-    direction: string;
-  }>;
-  natural_language_explanation: string;
-  role: string;
-  recommendations: string[];
-}
\ No newline at end of file
+// Type definitions matching API responses, generated from openapi.json
+export type {
+  AnalysisJob,
+  ApprovalEvent,
+  ApprovalState,
+  AuditArtifact,
+  AuditArtifactInput,
+  BiasDetectionResult,
+  CalibrationBin,
+  ComplianceClause,
+  ComplianceEvidence,
+  ComplianceResult,
+  ComplianceTrend,
+  ConfidenceInterval,
+  ConfusionMatrix,
+  Counterfactual,
+  CounterfactualResult,
+  DashboardData,
+  EvidenceVerdict,
+  ExplainabilityResult,
+  FairnessEvidence,
+  FairnessMetricEvidence,
+  FairnessMetrics,
+  FeatureChange,
+  FeatureShapSummary,
+  GlobalExplainabilityResult,
+  GlobalExplanationInstance,
+  GovernanceModel,
+  GovernanceModelInput,
+  GovernanceModelUpdate,
+  GroupAnalysisConfig,
+  GroupBiasResult,
+  GroupPairMetrics,
+  GroupPerformance,
+  GroupPerformanceComparison,
+  InstancePrediction,
+  JobStatus,
+  MetricEvidence,
+  MitigationAcceptance,
+  MitigationEvaluation,
+  MitigationResult,
+  MitigationTechnique,
+  ModelRisk,
+  RegulationResult,
+  RegulationStatus,
+  ReportSection,
+  RiskTier,
+  SignificanceTest,
+  ThresholdPoint,
+  ThresholdSweepResult,
+  WhatIfResult,
+} from './generated/openapi';
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { runWithConcurrency } from './batch';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('runWithConcurrency', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('handles every item once', async () => {
+    const handled: number[] = [];
+    await runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+      handled.push(item);
+    });
+    expect(handled.sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('never runs more than the limit at a time', async () => {
+    let active = 0;
+    let peak = 0;
+    await runWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await tick();
+      active--;
+    });
+    expect(peak).toBe(3);
+  });
+
+  it('starts items in order', async () => {
+    const started: string[] = [];
+    await runWithConcurrency(['a', 'b', 'c', 'd'], 2, async (item) => {
+      started.push(item);
+      await tick();
+    });
+    expect(started).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('runs at least one item at a time', async () => {
+    const handled: number[] = [];
+    await runWithConcurrency([1, 2], 0, async (item) => {
+      handled.push(item);
+    });
+    expect(handled).toEqual([1, 2]);
+  });
+
+  it('logs a rejected task and carries on with the rest', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const handled: number[] = [];
+    await runWithConcurrency([1, 2, 3], 1, async (item) => {
+      if (item === 2) throw new Error('boom');
+      handled.push(item);
+    });
+    expect(handled).toEqual([1, 3]);
+    expect(consoleError).toHaveBeenCalledWith('Batch task failed:', expect.any(Error));
+  });
+
+  it('resolves immediately for an empty batch', async () => {
+    const worker = vi.fn(async () => {});
+    await runWithConcurrency([], 3, worker);
+    expect(worker).not.toHaveBeenCalled();
+  });
+});
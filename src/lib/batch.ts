@@ -0,0 +1,24 @@
+// Bounded-concurrency queue for running many API calls without flooding the backend
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 8;
+
+// Starts at most `concurrency` tasks at a time and resolves once every item has been handled.
+// Workers record their own failures; an unexpected rejection is logged and the lane moves on.
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+) {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (error) {
+        console.error('Batch task failed:', error);
+      }
+    }
+  });
+  await Promise.all(lanes);
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkColumnSelection,
+  checkFileSelection,
+  createCsvParser,
+  createCsvProfiler,
+  findPreferredColumns,
+  formatCsv,
+  getColumnOptions,
+  readCsvHeader,
+  readHeader,
+  streamCsv,
+} from './csv';
+
+function parse(chunks: string[]) {
+  const rows: string[][] = [];
+  const parser = createCsvParser((row) => rows.push(row));
+  chunks.forEach(parser.push);
+  parser.flush();
+  return rows;
+}
+
+function profile(text: string) {
+  const profiler = createCsvProfiler('people.csv');
+  parse([text]).forEach(profiler.addRow);
+  return profiler.finish();
+}
+
+const PEOPLE = 'id,sex,age,approved\n1,F,30,1\n2,M,41,0\n3,F,29,1\n4,M,,1\n';
+
+describe('createCsvParser', () => {
+  it('splits rows and fields', () => {
+    expect(parse(['a,b\n1,2\n'])).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('handles quoted fields with delimiters, escaped quotes and line breaks', () => {
+    expect(parse(['name,note\n"Doe, Jane","said ""hi""\nthen left"\n'])).toEqual([
+      ['name', 'note'],
+      ['Doe, Jane', 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it('gives the same rows however the text is chunked', () => {
+    const text = 'a,b\r\n"x,""y""",2\r\n\r\n3,4';
+    const whole = parse([text]);
+    expect(parse(text.split(''))).toEqual(whole);
+    expect(whole).toEqual([['a', 'b'], ['x,"y"', '2'], ['3', '4']]);
+  });
+
+  it('skips blank lines and keeps a final row without a line break', () => {
+    expect(parse(['a\n\n1\n\n2'])).toEqual([['a'], ['1'], ['2']]);
+  });
+
+  it('rejects an unterminated quoted field', () => {
+    const parser = createCsvParser(() => {});
+    parser.push('a\n"open');
+    expect(() => parser.flush()).toThrow('Unterminated quoted field');
+  });
+});
+
+describe('readHeader', () => {
+  it('trims column names', () => {
+    expect(readHeader([' id', 'sex '])).toEqual(['id', 'sex']);
+  });
+
+  it('rejects blank column names', () => {
+    expect(() => readHeader(['id', ' '])).toThrow('Column 2 has no name');
+  });
+});
+
+describe('readCsvHeader', () => {
+  it('reads the header row', async () => {
+    await expect(readCsvHeader(new Blob([PEOPLE]))).resolves.toEqual(['id', 'sex', 'age', 'approved']);
+  });
+
+  it('rejects an empty file', async () => {
+    await expect(readCsvHeader(new Blob(['']))).rejects.toThrow('no header row');
+  });
+});
+
+describe('streamCsv', () => {
+  it('reports every row and the bytes read', async () => {
+    const rows: string[][] = [];
+    let progress = 0;
+    await streamCsv(new Blob([PEOPLE]), (row) => rows.push(row), (bytesRead, totalBytes) => {
+      progress = bytesRead / totalBytes;
+    });
+    expect(rows).toHaveLength(5);
+    expect(progress).toBe(1);
+  });
+});
+
+describe('createCsvProfiler', () => {
+  it('counts rows and infers column types', () => {
+    const schema = profile(PEOPLE);
+    expect(schema.rowCount).toBe(4);
+    expect(schema.columns.map((column) => [column.name, column.type])).toEqual([
+      ['id', 'numeric'],
+      ['sex', 'categorical'],
+      ['age', 'numeric'],
+      ['approved', 'boolean'],
+    ]);
+  });
+
+  it('tracks nulls, value counts and numeric summaries', () => {
+    const age = profile(PEOPLE).columns[2];
+    expect(age.nullCount).toBe(1);
+    expect(age).toMatchObject({ min: 29, max: 41, mean: 100 / 3 });
+
+    const sex = profile(PEOPLE).columns[1];
+    expect(sex.valueCounts).toEqual([{ value: 'F', count: 2 }, { value: 'M', count: 2 }]);
+  });
+
+  it('marks a column without values as empty', () => {
+    expect(profile('a,b\n1,\n2,NA\n').columns[1].type).toBe('empty');
+  });
+});
+
+describe('column selection', () => {
+  const schema = profile(PEOPLE);
+
+  it('offers only grouping columns as options', () => {
+    expect(getColumnOptions(schema, ['approved']).map((option) => option.value)).toEqual(['id', 'sex', 'age']);
+  });
+
+  it('matches preferred columns case-insensitively', () => {
+    expect(findPreferredColumns(schema, ['Gender', ' SEX '])).toEqual(['sex']);
+  });
+
+  it('accepts columns and groups from the file', () => {
+    expect(checkColumnSelection(schema, { targetVariable: 'approved', sensitiveAttribute: 'sex', groups: ['F', 'M'] })).toBeNull();
+  });
+
+  it('reports a missing column or group', () => {
+    expect(checkColumnSelection(schema, { targetVariable: 'label' })).toBe('Column "label" does not exist in people.csv');
+    expect(checkColumnSelection(schema, { sensitiveAttribute: 'sex', groups: ['F', 'X'] }))
+      .toBe('Group "X" does not appear in column "sex"');
+  });
+
+  it('requires a profiled file', () => {
+    expect(checkColumnSelection(null, {})).toBe('The uploaded file has not been profiled yet');
+  });
+});
+
+describe('checkFileSelection', () => {
+  const selection = { targetVariable: 'approved', sensitiveAttribute: 'sex', groups: ['F', 'M'] };
+
+  it('accepts a file with the columns and groups', async () => {
+    await expect(checkFileSelection(new File([PEOPLE], 'b.csv'), selection)).resolves.toBeNull();
+  });
+
+  it('reports a file without data rows', async () => {
+    await expect(checkFileSelection(new File(['id,sex,age,approved\n'], 'b.csv'), selection))
+      .resolves.toBe('b.csv has no data rows');
+  });
+
+  it('reports a missing column or group', async () => {
+    await expect(checkFileSelection(new File(['id,gender,approved\n1,F,1\n'], 'b.csv'), selection))
+      .resolves.toBe('Column "sex" does not exist in b.csv');
+    await expect(checkFileSelection(new File(['sex,approved\nF,1\n'], 'b.csv'), selection))
+      .resolves.toBe('Group "M" does not appear in column "sex" of b.csv');
+  });
+});
+
+describe('formatCsv', () => {
+  it('quotes fields that need it', () => {
+    expect(formatCsv([['name', 'count'], ['Doe, "J"', 2]])).toBe('name,count\r\n"Doe, ""J""",2');
+  });
+
+  it('round-trips through the parser', () => {
+    const rows = [['a', 'b'], ['x\ny', 'z,"q"']];
+    expect(parse([formatCsv(rows)])).toEqual(rows);
+  });
+});
@@ -0,0 +1,402 @@
+// Client-side CSV parsing and column profiling
+export type ColumnType = 'numeric' | 'boolean' | 'datetime' | 'categorical' | 'text' | 'empty';
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: ColumnType;
+  nullCount: number;
+  distinctCount: number;
+  // Most frequent values first, capped at MAX_TRACKED_VALUES
+  valueCounts: ValueCount[];
+  distinctTruncated: boolean;
+  min?: number;
+  max?: number;
+  mean?: number;
+}
+
+export interface DatasetSchema {
+  fileName: string;
+  rowCount: number;
+  columns: ColumnProfile[];
+}
+
+const MAX_TRACKED_VALUES = 1000;
+// Numeric columns with at most this many values can still group rows
+export const MAX_CATEGORICAL_VALUES = 50;
+// Most groups a sensitive attribute may split the rows into
+export const MAX_GROUPS = MAX_CATEGORICAL_VALUES;
+const NULL_TOKENS = new Set(['', 'na', 'n/a', 'nan', 'null', 'none']);
+const BOOLEAN_TOKENS = new Set(['true', 'false', 'yes', 'no']);
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export function isNullValue(value: string) {
+  return NULL_TOKENS.has(value.trim().toLowerCase());
+}
+
+// Column names from a header row; a blank name would leave the column impossible to select
+export function readHeader(row: string[]) {
+  return row.map((name, index) => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error(`Column ${index + 1} has no name in the header row; every column needs a header`);
+    }
+    return trimmed;
+  });
+}
+
+// Incremental RFC 4180 parser: text may be pushed in arbitrary chunks,
+// quoted fields and line breaks are allowed to span chunk boundaries.
+export function createCsvParser(onRow: (row: string[]) => void) {
+  let field = '';
+  let row: string[] = [];
+  let inQuotes = false;
+  let pendingQuote = false;
+  let pendingCarriageReturn = false;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+
+  const endRow = () => {
+    endField();
+    // Skip blank lines
+    if (row.length > 1 || row[0] !== '') {
+      onRow(row);
+    }
+    row = [];
+  };
+
+  const push = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (pendingCarriageReturn) {
+        pendingCarriageReturn = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (pendingQuote) {
+          pendingQuote = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+        } else if (char === '"') {
+          pendingQuote = true;
+          continue;
+        } else {
+          field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === ',') {
+        endField();
+      } else if (char === '\n') {
+        endRow();
+      } else if (char === '\r') {
+        endRow();
+        pendingCarriageReturn = true;
+      } else {
+        field += char;
+      }
+    }
+  };
+
+  const flush = () => {
+    if (inQuotes && !pendingQuote) {
+      throw new Error('Unterminated quoted field at end of file');
+    }
+    inQuotes = false;
+    pendingQuote = false;
+    if (field !== '' || row.length > 0) {
+      endRow();
+    }
+  };
+
+  return { push, flush };
+}
+
+// Messages a CSV worker posts back while it streams a file
+export type CsvWorkerMessage<T> =
+  | { type: 'progress'; bytesRead: number; totalBytes: number }
+  | { type: 'done'; result: T }
+  | { type: 'error'; message: string };
+
+// Parses the file as it is read, so only the current chunk is ever held in memory
+export async function streamCsv(
+  file: Blob,
+  onRow: (row: string[]) => void,
+  onProgress?: (bytesRead: number, totalBytes: number) => void
+) {
+  const parser = createCsvParser(onRow);
+  const decoder = new TextDecoder();
+  const reader = file.stream().getReader();
+  let bytesRead = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    parser.push(decoder.decode(value, { stream: true }));
+    onProgress?.(bytesRead, file.size);
+  }
+  parser.push(decoder.decode());
+  parser.flush();
+}
+
+// Reads just enough of the file to parse its header row
+export async function readCsvHeader(file: Blob) {
+  let header: string[] | null = null;
+  const parser = createCsvParser((row) => {
+    header ??= row;
+  });
+  const decoder = new TextDecoder();
+  const reader = file.stream().getReader();
+  try {
+    while (!header) {
+      const { done, value } = await reader.read();
+      if (done) {
+        parser.push(decoder.decode());
+        parser.flush();
+        break;
+      }
+      parser.push(decoder.decode(value, { stream: true }));
+    }
+  } finally {
+    reader.cancel();
+  }
+  if (!header) throw new Error('The file has no header row');
+  return readHeader(header);
+}
+
+interface ColumnAccumulator {
+  name: string;
+  nullCount: number;
+  numericCount: number;
+  booleanCount: number;
+  dateCount: number;
+  sum: number;
+  min: number;
+  max: number;
+  counts: Map<string, number>;
+  truncated: boolean;
+}
+
+// Builds a DatasetSchema one row at a time so arbitrarily large files can be
+// profiled without holding them in memory.
+export function createCsvProfiler(fileName: string) {
+  let columns: ColumnAccumulator[] | null = null;
+  let rowCount = 0;
+
+  const addRow = (row: string[]) => {
+    if (!columns) {
+      columns = readHeader(row).map((name) => ({
+        name,
+        nullCount: 0,
+        numericCount: 0,
+        booleanCount: 0,
+        dateCount: 0,
+        sum: 0,
+        min: Infinity,
+        max: -Infinity,
+        counts: new Map(),
+        truncated: false,
+      }));
+      return;
+    }
+
+    rowCount++;
+    columns.forEach((column, index) => {
+      const raw = row[index] ?? '';
+      if (isNullValue(raw)) {
+        column.nullCount++;
+        return;
+      }
+
+      const value = raw.trim();
+      const numeric = Number(value);
+      if (Number.isFinite(numeric)) {
+        column.numericCount++;
+        column.sum += numeric;
+        column.min = Math.min(column.min, numeric);
+        column.max = Math.max(column.max, numeric);
+      } else if (BOOLEAN_TOKENS.has(value.toLowerCase())) {
+        column.booleanCount++;
+      } else if (DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))) {
+        column.dateCount++;
+      }
+
+      const count = column.counts.get(value);
+      if (count !== undefined) {
+        column.counts.set(value, count + 1);
+      } else if (column.counts.size < MAX_TRACKED_VALUES) {
+        column.counts.set(value, 1);
+      } else {
+        column.truncated = true;
+      }
+    });
+  };
+
+  const finish = (): DatasetSchema => ({
+    fileName,
+    rowCount,
+    columns: (columns ?? []).map((column) => toColumnProfile(column, rowCount)),
+  });
+
+  return { addRow, finish };
+}
+
+function toColumnProfile(column: ColumnAccumulator, rowCount: number): ColumnProfile {
+  const nonNull = rowCount - column.nullCount;
+  const valueCounts = Array.from(column.counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count);
+  const isNumeric = nonNull > 0 && column.numericCount === nonNull;
+
+  return {
+    name: column.name,
+    type: inferColumnType(column, nonNull, rowCount),
+    nullCount: column.nullCount,
+    distinctCount: column.counts.size,
+    valueCounts,
+    distinctTruncated: column.truncated,
+    ...(isNumeric && {
+      min: column.min,
+      max: column.max,
+      mean: column.sum / nonNull,
+    }),
+  };
+}
+
+function inferColumnType(column: ColumnAccumulator, nonNull: number, rowCount: number): ColumnType {
+  if (nonNull === 0) return 'empty';
+
+  const distinct = column.counts.size;
+  if (column.booleanCount === nonNull) return 'boolean';
+  if (column.numericCount === nonNull) {
+    const binary = !column.truncated && distinct <= 2 &&
+      Array.from(column.counts.keys()).every((value) => Number(value) === 0 || Number(value) === 1);
+    return binary ? 'boolean' : 'numeric';
+  }
+  if (column.dateCount === nonNull) return 'datetime';
+
+  const categoricalLimit = Math.max(MAX_CATEGORICAL_VALUES, Math.ceil(rowCount * 0.05));
+  return !column.truncated && distinct <= categoricalLimit ? 'categorical' : 'text';
+}
+
+export function findColumn(schema: DatasetSchema | null, name: string) {
+  return schema?.columns.find((column) => column.name === name);
+}
+
+export function getColumnValues(schema: DatasetSchema | null, name: string) {
+  return findColumn(schema, name)?.valueCounts.map(({ value }) => value) ?? [];
+}
+
+// Sensitive attributes and targets only make sense on low-cardinality columns
+export function isGroupingColumn(column: ColumnProfile) {
+  return column.type === 'categorical' || column.type === 'boolean' ||
+    (column.type === 'numeric' && !column.distinctTruncated && column.distinctCount <= MAX_CATEGORICAL_VALUES);
+}
+
+export function getColumnOptions(schema: DatasetSchema | null, exclude: string[] = []) {
+  return (schema?.columns ?? [])
+    .filter((column) => isGroupingColumn(column) && !exclude.includes(column.name))
+    .map((column) => ({ value: column.name, hint: column.type }));
+}
+
+// Names from a preference list that exist as grouping columns, matched case-insensitively
+export function findPreferredColumns(schema: DatasetSchema | null, names: string[]) {
+  return names
+    .map((name) => schema?.columns.find((column) =>
+      isGroupingColumn(column) && column.name.toLowerCase() === name.trim().toLowerCase()
+    )?.name)
+    .filter((name): name is string => Boolean(name));
+}
+
+export function getGroupOptions(schema: DatasetSchema | null, columnName: string, exclude: string[] = []) {
+  return (findColumn(schema, columnName)?.valueCounts ?? [])
+    .filter(({ value }) => !exclude.includes(value))
+    .map(({ value, count }) => ({ value, hint: `${count.toLocaleString()} rows` }));
+}
+
+// Catches column or group names that do not exist in the uploaded file
+export function checkColumnSelection(
+  schema: DatasetSchema | null,
+  selection: { targetVariable?: string; sensitiveAttribute?: string; groups?: string[] }
+): string | null {
+  if (!schema) {
+    return 'The uploaded file has not been profiled yet';
+  }
+  for (const column of [selection.targetVariable, selection.sensitiveAttribute]) {
+    if (column && !findColumn(schema, column)) {
+      return `Column "${column}" does not exist in ${schema.fileName}`;
+    }
+  }
+  if (selection.sensitiveAttribute) {
+    const values = getColumnValues(schema, selection.sensitiveAttribute);
+    const missing = (selection.groups ?? []).find((group) => group && !values.includes(group));
+    if (missing) {
+      return `Group "${missing}" does not appear in column "${selection.sensitiveAttribute}"`;
+    }
+  }
+  return null;
+}
+
+// Same checks as checkColumnSelection for a file that has not been profiled, plus that it has rows.
+// Streams the whole file, since the groups may first appear anywhere in it.
+export async function checkFileSelection(
+  file: File,
+  selection: { targetVariable: string; sensitiveAttribute: string; groups: string[] }
+): Promise<string | null> {
+  let header: string[] | null = null;
+  let rowCount = 0;
+  const unseenGroups = new Set(selection.groups.filter(Boolean));
+  let attributeIndex = -1;
+
+  await streamCsv(file, (row) => {
+    if (!header) {
+      header = readHeader(row);
+      attributeIndex = header.indexOf(selection.sensitiveAttribute);
+      return;
+    }
+    rowCount++;
+    if (attributeIndex >= 0) unseenGroups.delete((row[attributeIndex] ?? '').trim());
+  });
+
+  if (!header) {
+    return `${file.name} has no header row`;
+  }
+  for (const column of [selection.targetVariable, selection.sensitiveAttribute]) {
+    if (column && !header.includes(column)) {
+      return `Column "${column}" does not exist in ${file.name}`;
+    }
+  }
+  if (rowCount === 0) {
+    return `${file.name} has no data rows`;
+  }
+  const [missing] = unseenGroups;
+  if (missing !== undefined) {
+    return `Group "${missing}" does not appear in column "${selection.sensitiveAttribute}" of ${file.name}`;
+  }
+  return null;
+}
+
+// Quotes fields containing delimiters, quotes or line breaks, per RFC 4180
+function formatCsvField(value: string | number) {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsv(rows: (string | number)[][]) {
+  return rows.map((row) => row.map(formatCsvField).join(',')).join('\r\n');
+}
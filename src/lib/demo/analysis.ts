@@ -0,0 +1,296 @@
+// Plausible fairness metrics and attributions computed in the browser for demo mode.
+// The stand-in model scores a row by averaging the positive rate of its value in every
+// feature column, so each feature's contribution is exactly additive, like SHAP values.
+import type { FairnessMetrics, GroupPairMetrics, GroupPerformance } from '../api';
+import { createCsvParser, isNullValue } from '../csv';
+import { FAIRNESS_METRICS, isMetricFair } from '../fairness';
+import type { FairnessThresholds } from '../policies';
+import { DemoBackendError } from './errors';
+
+export interface DemoDataset {
+  columns: string[];
+  rows: string[][];
+}
+
+export interface DemoModel {
+  // Rows with a target value, in the order every other array is indexed by
+  rows: string[][];
+  target: number;
+  features: number[];
+  baseRate: number;
+  labels: boolean[];
+  predictions: boolean[];
+  // Per row, per feature contribution to the score
+  contributions: number[][];
+  // Per feature contributions for any row, including edited ones
+  explain: (row: string[]) => number[];
+}
+
+const POSITIVE_TOKENS = new Set(['1', 'true', 'yes', 'y', 'positive', 'approved', 'hired', 'accepted', 'granted']);
+const NUMERIC_BIN_THRESHOLD = 10;
+const ID_COLUMN_PATTERN = /(^|[_\s])(id|uuid|key)$/i;
+// Intersections smaller than this are too noisy to report
+export const MIN_GROUP_SIZE = 5;
+// Equal-width score bins for calibration curves
+const CALIBRATION_BINS = 10;
+
+export async function readDataset(file: Blob): Promise<DemoDataset> {
+  const rows: string[][] = [];
+  const parser = createCsvParser((row) => rows.push(row));
+  parser.push(await file.text());
+  parser.flush();
+
+  const [columns = [], ...data] = rows;
+  if (columns.length === 0) {
+    throw new DemoBackendError('The file has no header row', 422);
+  }
+  return { columns, rows: data };
+}
+
+export function columnIndex(dataset: DemoDataset, name: string) {
+  const index = dataset.columns.indexOf(name);
+  if (index === -1) {
+    throw new DemoBackendError(`Column "${name}" not found in the uploaded file`, 422);
+  }
+  return index;
+}
+
+// Recognised positive tokens win; otherwise the rarer outcome is treated as positive
+function findPositiveLabel(values: string[]) {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  const known = [...counts.keys()].find((value) => POSITIVE_TOKENS.has(value.trim().toLowerCase()));
+  if (known !== undefined) return known;
+  return [...counts.entries()].sort((a, b) => a[1] - b[1])[0]?.[0];
+}
+
+// Continuous columns are bucketed into quartiles so each bucket has a meaningful rate.
+// Returns the mapping rather than the buckets so edited values land in the same buckets.
+function columnBucketer(values: string[]): (value: string) => string {
+  const numbers = values.map(Number);
+  const distinct = new Set(values).size;
+  if (distinct <= NUMERIC_BIN_THRESHOLD || numbers.some((value, i) => isNullValue(values[i]) || Number.isNaN(value))) {
+    return (value) => value;
+  }
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const cuts = [0.25, 0.5, 0.75].map((q) => sorted[Math.floor(q * (sorted.length - 1))]);
+  return (value) => {
+    // Non-numeric input matches no bucket and so contributes nothing
+    if (value.trim() === '' || Number.isNaN(Number(value))) return value;
+    const bucket = cuts.findIndex((cut) => Number(value) <= cut);
+    return bucket === -1 ? `> ${cuts[2]}` : `≤ ${cuts[bucket]}`;
+  };
+}
+
+// weightFor lets a row count for more or less than one row when fitting, as reweighing does
+export function trainModel(
+  dataset: DemoDataset,
+  targetColumn: string,
+  weightFor: (row: string[], label: boolean) => number = () => 1
+): DemoModel {
+  const target = columnIndex(dataset, targetColumn);
+  const rows = dataset.rows.filter((row) => !isNullValue(row[target] ?? ''));
+  if (rows.length === 0) {
+    throw new DemoBackendError(`Column "${targetColumn}" has no values`, 422);
+  }
+
+  const positive = findPositiveLabel(rows.map((row) => row[target]));
+  const labels = rows.map((row) => row[target] === positive);
+  const weights = rows.map((row, i) => weightFor(row, labels[i]));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const baseRate = weights.reduce((sum, weight, i) => sum + (labels[i] ? weight : 0), 0) / totalWeight;
+
+  // Identifier-like columns (a distinct value per row that is not a measurement) carry no signal
+  const isIdentifier = (index: number) => {
+    const values = rows.map((row) => row[index] ?? '');
+    if (new Set(values).size < rows.length) return false;
+    return ID_COLUMN_PATTERN.test(dataset.columns[index]) || values.some((value) => Number.isNaN(Number(value)));
+  };
+  const features = dataset.columns
+    .map((_, index) => index)
+    .filter((index) => index !== target && !isIdentifier(index));
+
+  const bucketers = features.map((index) => columnBucketer(rows.map((row) => row[index] ?? '')));
+  const bucketed = features.map((index, f) => rows.map((row) => bucketers[f](row[index] ?? '')));
+  const rates = bucketed.map((values) => {
+    const stats = new Map<string, { positive: number; total: number }>();
+    values.forEach((value, i) => {
+      const entry = stats.get(value) ?? { positive: 0, total: 0 };
+      entry.total += weights[i];
+      if (labels[i]) entry.positive += weights[i];
+      stats.set(value, entry);
+    });
+    // Smoothed towards the base rate so rare values do not dominate
+    return new Map([...stats].map(([value, { positive, total }]) => [value, (positive + baseRate) / (total + 1)]));
+  });
+
+  // Values never seen in training score at the base rate
+  const explain = (row: string[]) =>
+    features.map((index, f) => {
+      const rate = rates[f].get(bucketers[f](row[index] ?? '')) ?? baseRate;
+      return (rate - baseRate) / features.length;
+    });
+  const contributions = rows.map(explain);
+  const predictions = contributions.map(isPositiveScore);
+
+  return { rows, target, features, baseRate, labels, predictions, contributions, explain };
+}
+
+export function isPositiveScore(contributions: number[]) {
+  return contributions.reduce((sum, value) => sum + value, 0) >= 0;
+}
+
+// Model output per row, on the same scale as the base rate; the default decision threshold is the base rate
+export function rowScores(model: DemoModel) {
+  return model.contributions.map((row) => model.baseRate + row.reduce((sum, value) => sum + value, 0));
+}
+
+export function accuracyOf(model: DemoModel, predictions: boolean[]) {
+  return ratio(predictions.filter((predicted, i) => predicted === model.labels[i]).length, predictions.length);
+}
+
+const ratio = (numerator: number, denominator: number) => (denominator === 0 ? 0 : numerator / denominator);
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+interface GroupRates {
+  selection: number;
+  truePositive: number;
+  falsePositive: number;
+}
+
+function groupRates(model: DemoModel, members: number[]): GroupRates {
+  const predicted = members.filter((i) => model.predictions[i]).length;
+  const actualPositive = members.filter((i) => model.labels[i]);
+  const actualNegative = members.filter((i) => !model.labels[i]);
+  return {
+    selection: ratio(predicted, members.length),
+    truePositive: ratio(actualPositive.filter((i) => model.predictions[i]).length, actualPositive.length),
+    falsePositive: ratio(actualNegative.filter((i) => model.predictions[i]).length, actualNegative.length),
+  };
+}
+
+export function computeMetrics(model: DemoModel, privileged: number[], unprivileged: number[]): FairnessMetrics {
+  const p = groupRates(model, privileged);
+  const u = groupRates(model, unprivileged);
+  return {
+    disparate_impact: round(p.selection === 0 ? 1 : u.selection / p.selection),
+    statistical_parity_difference: round(u.selection - p.selection),
+    equal_opportunity_difference: round(u.truePositive - p.truePositive),
+    average_odds_difference: round((u.falsePositive - p.falsePositive + u.truePositive - p.truePositive) / 2),
+  };
+}
+
+export function groupPerformance(model: DemoModel, members: number[], group: string): GroupPerformance {
+  const count = (predicted: boolean, label: boolean) =>
+    members.filter((i) => model.predictions[i] === predicted && model.labels[i] === label).length;
+  const truePositives = count(true, true);
+  const falsePositives = count(true, false);
+  const trueNegatives = count(false, false);
+  const falseNegatives = count(false, true);
+
+  const scores = rowScores(model);
+  const bins = Array.from({ length: CALIBRATION_BINS }, () => ({ score: 0, positive: 0, count: 0 }));
+  for (const i of members) {
+    const bin = bins[Math.min(CALIBRATION_BINS - 1, Math.max(0, Math.floor(scores[i] * CALIBRATION_BINS)))];
+    bin.score += scores[i];
+    bin.positive += model.labels[i] ? 1 : 0;
+    bin.count += 1;
+  }
+
+  return {
+    group,
+    record_count: members.length,
+    confusion_matrix: {
+      true_positives: truePositives,
+      false_positives: falsePositives,
+      true_negatives: trueNegatives,
+      false_negatives: falseNegatives,
+    },
+    selection_rate: round(ratio(truePositives + falsePositives, members.length)),
+    true_positive_rate: round(ratio(truePositives, truePositives + falseNegatives)),
+    false_positive_rate: round(ratio(falsePositives, falsePositives + trueNegatives)),
+    false_negative_rate: round(ratio(falseNegatives, truePositives + falseNegatives)),
+    precision: round(ratio(truePositives, truePositives + falsePositives)),
+    calibration: bins
+      .filter((bin) => bin.count > 0)
+      .map((bin) => ({ mean_score: round(bin.score / bin.count), observed_rate: round(bin.positive / bin.count), count: bin.count })),
+  };
+}
+
+// Positions in the model's rows whose value in `column` equals `group`
+export function groupMembers(model: DemoModel, column: number, group: string) {
+  return model.rows.flatMap((row, i) => (row[column] === group ? [i] : []));
+}
+
+export function isWithinThresholds(metrics: FairnessMetrics, thresholds: FairnessThresholds) {
+  return FAIRNESS_METRICS.every(({ key }) => isMetricFair(key, metrics[key], thresholds));
+}
+
+export function recommendFor(metrics: FairnessMetrics, thresholds: FairnessThresholds, subject: string) {
+  const recommendations: string[] = [];
+  if (metrics.disparate_impact < thresholds.disparate_impact) {
+    recommendations.push(`Selection rate for ${subject} is ${Math.round(metrics.disparate_impact * 100)}% of the reference group; consider reweighing training data`);
+  }
+  if (Math.abs(metrics.equal_opportunity_difference) > thresholds.equal_opportunity_difference) {
+    recommendations.push(`True positive rates differ for ${subject}; review features that act as proxies for the sensitive attribute`);
+  }
+  if (Math.abs(metrics.average_odds_difference) > thresholds.average_odds_difference) {
+    recommendations.push(`Error rates are unbalanced for ${subject}; consider equalized odds post-processing`);
+  }
+  return recommendations;
+}
+
+export function compareGroups(
+  dataset: DemoDataset,
+  model: DemoModel,
+  attributes: string[],
+  referenceGroups: Record<string, string>,
+  comparisonGroups: Record<string, string[]>,
+  intersectional: boolean
+): GroupPairMetrics[] {
+  const indexes = attributes.map((attribute) => columnIndex(dataset, attribute));
+  const comparisons: GroupPairMetrics[] = [];
+
+  attributes.forEach((attribute, a) => {
+    const reference = groupMembers(model, indexes[a], referenceGroups[attribute]);
+    for (const group of comparisonGroups[attribute] ?? []) {
+      const members = groupMembers(model, indexes[a], group);
+      if (members.length === 0) continue;
+      comparisons.push({
+        attribute,
+        reference_group: referenceGroups[attribute],
+        group,
+        metrics: computeMetrics(model, reference, members),
+        record_count: members.length,
+      });
+    }
+  });
+
+  if (intersectional && attributes.length > 1) {
+    const keyOf = (row: string[]) => indexes.map((index) => row[index]).join(' × ');
+    const referenceKey = attributes.map((attribute) => referenceGroups[attribute]).join(' × ');
+    const cells = new Map<string, number[]>();
+    model.rows.forEach((row, i) => {
+      const included = attributes.every((attribute, a) =>
+        row[indexes[a]] === referenceGroups[attribute] || (comparisonGroups[attribute] ?? []).includes(row[indexes[a]])
+      );
+      if (!included) return;
+      const key = keyOf(row);
+      cells.set(key, [...(cells.get(key) ?? []), i]);
+    });
+
+    const reference = cells.get(referenceKey) ?? [];
+    for (const [key, members] of cells) {
+      if (key === referenceKey || members.length < MIN_GROUP_SIZE || reference.length === 0) continue;
+      comparisons.push({
+        attribute: attributes.join(' × '),
+        reference_group: referenceKey,
+        group: key,
+        metrics: computeMetrics(model, reference, members),
+        record_count: members.length,
+      });
+    }
+  }
+
+  return comparisons;
+}
@@ -0,0 +1,966 @@
+// Local stand-in for the backend, used when demo mode is switched on in Settings.
+// Requests from the generated client are routed to handlers that compute results
+// from the uploaded CSV in the browser; responses follow the OpenAPI contract.
+import type {
+  AnalysisJob,
+  ApiRequestOptions,
+  ApprovalTransition,
+  AuditArtifactInput,
+  BiasDetectionRequest,
+  ComplianceReportRequest,
+  ComplianceResult,
+  ComplianceTrend,
+  CounterfactualRequest,
+  DashboardData,
+  ExplainRequest,
+  GovernanceModel,
+  GovernanceModelInput,
+  GlobalExplainRequest,
+  GovernanceModelUpdate,
+  GroupBiasDetectionRequest,
+  GroupBiasResult,
+  HttpMethod,
+  MitigationAcceptance,
+  MitigationRequest,
+  MitigationResult,
+  ModelStatusChange,
+  RegulationResult,
+  ThresholdSweepRequest,
+  UploadChunk,
+  UploadSession,
+  UploadSessionRequest,
+  WhatIfRequest,
+} from '../generated/openapi';
+import { FAIRNESS_METRICS, getThresholdLabel } from '../fairness';
+import { APPROVAL_TRANSITIONS } from '../governance';
+import { DEFAULT_REPAIR_LEVEL, MITIGATION_TECHNIQUE_LABELS } from '../mitigation';
+import { DEFAULT_POLICY_PROFILE_ID, FairnessThresholds, getPolicyProfile } from '../policies';
+import {
+  accuracyOf,
+  columnIndex,
+  compareGroups,
+  computeMetrics,
+  DemoDataset,
+  DemoModel,
+  groupMembers,
+  groupPerformance,
+  isPositiveScore,
+  isWithinThresholds,
+  readDataset,
+  recommendFor,
+  rowScores,
+  trainModel,
+} from './analysis';
+import { DemoBackendError } from './errors';
+import { applyMitigation } from './mitigation';
+import { assessEvidence } from './statistics';
+import {
+  DEMO_COMPLIANT_RISK_LIMIT,
+  DEMO_GOVERNANCE_MODELS,
+  DEMO_MODEL_RISK,
+  DEMO_RISK_HISTORY,
+  DEMO_TREND_WEEKS,
+} from './fixtures';
+import { buildPdf, PdfLine } from './pdf';
+import { evaluateRegulations } from './regulations';
+
+type Handler = (params: string[], options: ApiRequestOptions) => Promise<unknown>;
+
+interface Route {
+  method: HttpMethod;
+  pattern: RegExp;
+  handler: Handler;
+}
+
+// Enough delay for loading states to show up during demos
+const RESPONSE_DELAY_MS = 400;
+// Jobs wait briefly in the queue and reveal group comparisons one step at a time
+const JOB_QUEUE_DELAY_MS = 800;
+const JOB_STEP_DELAY_MS = 300;
+
+let governanceModels: GovernanceModel[] = structuredClone(DEMO_GOVERNANCE_MODELS);
+const reportPdfs = new Map<string, Blob>();
+const uploads = new Map<string, { session: UploadSession; chunks: Blob[] }>();
+const jobs = new Map<string, AnalysisJob>();
+// Mitigated configurations that can still be accepted as a new model version
+const mitigations = new Map<string, { request: MitigationRequest; result: MitigationResult; acceptedVersion?: string }>();
+
+const defaultThresholds = () => getPolicyProfile(DEFAULT_POLICY_PROFILE_ID).thresholds;
+const auditStatus = (compliant: boolean) => (compliant ? 'COMPLIANT' : 'NON_COMPLIANT');
+const roundScore = (value: number) => Math.round(value * 10000) / 10000;
+const sumScores = (values: number[]) => values.reduce((sum, value) => sum + value, 0);
+
+function getDashboardSummary(): DashboardData {
+  const compliant = DEMO_MODEL_RISK.filter((model) => model.status === 'COMPLIANT').length;
+  const riskiest = [...DEMO_MODEL_RISK].sort((a, b) => b.risk_score - a.risk_score)[0];
+  const averageRisk = DEMO_MODEL_RISK.reduce((sum, model) => sum + model.risk_score, 0) / DEMO_MODEL_RISK.length;
+  return {
+    timestamp: new Date().toISOString(),
+    total_models_audited: DEMO_MODEL_RISK.length,
+    compliant_models: compliant,
+    non_compliant_models: DEMO_MODEL_RISK.length - compliant,
+    compliance_rate: Math.round((compliant / DEMO_MODEL_RISK.length) * 100),
+    top_bias_source: riskiest.bias_source,
+    most_risky_model: riskiest.model_name,
+    audit_status: compliant === DEMO_MODEL_RISK.length ? 'COMPLIANT' : 'NON_COMPLIANT',
+    risk_score: Math.round(averageRisk),
+    last_audit: DEMO_MODEL_RISK.map((model) => model.last_audited).sort().reverse()[0],
+    pending_actions: DEMO_MODEL_RISK.length - compliant,
+    trend: 'improving',
+  };
+}
+
+const statusForRisk = (score: number) => (score < DEMO_COMPLIANT_RISK_LIMIT ? 'COMPLIANT' : 'NON_COMPLIANT');
+
+function getComplianceTrend(): ComplianceTrend[] {
+  return DEMO_TREND_WEEKS.map((week, i) => {
+    const audited = DEMO_RISK_HISTORY.filter((model) => model.risk_scores[i] !== null);
+    const compliant = audited.filter((model) => statusForRisk(model.risk_scores[i]!) === 'COMPLIANT').length;
+    const status_changes: ModelStatusChange[] = audited
+      .map((model) => {
+        const previous = i > 0 ? model.risk_scores[i - 1] : null;
+        return {
+          model_name: model.model_name,
+          version: model.version,
+          from_status: previous === null ? null : statusForRisk(previous),
+          to_status: statusForRisk(model.risk_scores[i]!),
+          risk_score: model.risk_scores[i]!,
+        };
+      })
+      // The first week is the baseline, so nothing counts as a change yet
+      .filter((change) => i > 0 && change.from_status !== change.to_status);
+    return {
+      week,
+      compliant_models: compliant,
+      non_compliant_models: audited.length - compliant,
+      average_risk_score: Math.round(audited.reduce((sum, model) => sum + model.risk_scores[i]!, 0) / audited.length),
+      status_changes,
+    };
+  });
+}
+
+function createUpload(body: UploadSessionRequest): UploadSession {
+  const session = { upload_id: crypto.randomUUID(), file_name: body.file_name, size: body.size, received_bytes: 0, complete: body.size === 0 };
+  uploads.set(session.upload_id, { session, chunks: [] });
+  return session;
+}
+
+function findUpload(uploadId: string) {
+  const upload = uploads.get(uploadId);
+  if (!upload) {
+    throw new DemoBackendError(`Upload ${uploadId} was not found`, 404);
+  }
+  return upload;
+}
+
+// Chunks must arrive in order; a client resuming from a stale offset is told where to continue
+function appendChunk(uploadId: string, body: UploadChunk) {
+  const upload = findUpload(uploadId);
+  const { session } = upload;
+  if (Number(body.offset) !== session.received_bytes) {
+    throw new DemoBackendError(`Expected the chunk at offset ${session.received_bytes}`, 409);
+  }
+  if (session.received_bytes + body.chunk.size > session.size) {
+    throw new DemoBackendError('Chunk runs past the declared file size', 422);
+  }
+  upload.chunks.push(body.chunk);
+  session.received_bytes += body.chunk.size;
+  session.complete = session.received_bytes === session.size;
+  return session;
+}
+
+// Analysis requests carry the CSV inline or name a finished chunked upload
+function datasetFile(body: { file?: Blob; upload_id?: string }) {
+  if (body.upload_id) {
+    const upload = findUpload(body.upload_id);
+    if (!upload.session.complete) {
+      throw new DemoBackendError(`Upload ${body.upload_id} is incomplete`, 409);
+    }
+    return new Blob(upload.chunks);
+  }
+  if (!body.file) {
+    throw new DemoBackendError('Send the dataset as file or upload_id', 422);
+  }
+  return body.file;
+}
+
+type PairRequest = BiasDetectionRequest | ComplianceReportRequest | ThresholdSweepRequest | MitigationRequest;
+
+async function loadPair(body: PairRequest) {
+  const dataset = await readDataset(datasetFile(body));
+  const model = trainModel(dataset, body.target_variable);
+  const column = columnIndex(dataset, body.sensitive_attribute);
+  const privileged = groupMembers(model, column, body.privileged_group);
+  const unprivileged = groupMembers(model, column, body.unprivileged_group);
+  if (privileged.length === 0 || unprivileged.length === 0) {
+    throw new DemoBackendError(`Both groups must appear in column "${body.sensitive_attribute}"`, 422);
+  }
+  return { dataset, model, column, privileged, unprivileged };
+}
+
+async function analyzePair(body: BiasDetectionRequest | ComplianceReportRequest, thresholds: FairnessThresholds) {
+  const { model, privileged, unprivileged } = await loadPair(body);
+
+  const metrics = computeMetrics(model, privileged, unprivileged);
+  const compliant = isWithinThresholds(metrics, thresholds);
+  const evidence = assessEvidence(model, privileged, unprivileged, thresholds);
+  const recommendations = recommendFor(metrics, thresholds, body.unprivileged_group);
+  if (evidence.verdict === 'insufficient_evidence') {
+    recommendations.unshift(
+      `The data cannot yet confirm or rule out bias against ${body.unprivileged_group}; collect more records before acting on this result`
+    );
+  }
+  return {
+    metrics,
+    audit_status: auditStatus(compliant),
+    recommendations: recommendations.length > 0
+      ? recommendations
+      : ['All fairness metrics are within thresholds; re-audit after the next retraining'],
+    record_count: model.rows.length,
+    group_performance: {
+      privileged: groupPerformance(model, privileged, body.privileged_group),
+      unprivileged: groupPerformance(model, unprivileged, body.unprivileged_group),
+    },
+    evidence,
+  };
+}
+
+const DEFAULT_SCORE_THRESHOLDS = Array.from({ length: 19 }, (_, i) => roundScore((i + 1) * 0.05));
+
+// The demo model's own decision threshold is the base rate: a row is positive when its
+// contributions sum to zero or more
+async function sweepThresholds(body: ThresholdSweepRequest, thresholds: FairnessThresholds) {
+  const { model, privileged, unprivileged } = await loadPair(body);
+  const requested = body.score_thresholds?.length ? body.score_thresholds.map(Number) : DEFAULT_SCORE_THRESHOLDS;
+  if (requested.some((threshold) => Number.isNaN(threshold) || threshold < 0 || threshold > 1)) {
+    throw new DemoBackendError('Score thresholds must be between 0 and 1', 422);
+  }
+
+  const scores = rowScores(model);
+  const points = [...new Set(requested)].sort((a, b) => a - b).map((threshold) => {
+    const predictions = scores.map((score) => score >= threshold);
+    const metrics = computeMetrics({ ...model, predictions }, privileged, unprivileged);
+    return {
+      threshold,
+      metrics,
+      accuracy: roundScore(accuracyOf(model, predictions)),
+      selection_rate: roundScore(predictions.filter(Boolean).length / predictions.length),
+      within_thresholds: isWithinThresholds(metrics, thresholds),
+    };
+  });
+
+  return { default_threshold: roundScore(model.baseRate), points, record_count: model.rows.length };
+}
+
+async function mitigateBias(body: MitigationRequest, thresholds: FairnessThresholds): Promise<MitigationResult> {
+  const { dataset, model, column, privileged, unprivileged } = await loadPair(body);
+  const repairLevel = body.repair_level === undefined ? DEFAULT_REPAIR_LEVEL : Number(body.repair_level);
+  if (Number.isNaN(repairLevel) || repairLevel < 0 || repairLevel > 1) {
+    throw new DemoBackendError('Repair level must be between 0 and 1', 422);
+  }
+
+  const pair = {
+    column,
+    privileged,
+    unprivileged,
+    privilegedGroup: body.privileged_group,
+    unprivilegedGroup: body.unprivileged_group,
+  };
+  const { predictions, parameters, summary } = applyMitigation(dataset, model, pair, body.technique, repairLevel, thresholds);
+  const evaluate = (candidate: boolean[]) => {
+    const metrics = computeMetrics({ ...model, predictions: candidate }, privileged, unprivileged);
+    return {
+      metrics,
+      accuracy: roundScore(accuracyOf(model, candidate)),
+      audit_status: auditStatus(isWithinThresholds(metrics, thresholds)),
+    };
+  };
+
+  const { file: _file, upload_id: _uploadId, ...request } = body;
+  const result: MitigationResult = {
+    mitigation_id: crypto.randomUUID(),
+    technique: body.technique,
+    before: evaluate(model.predictions),
+    after: evaluate(predictions),
+    parameters,
+    summary,
+    record_count: model.rows.length,
+  };
+  mitigations.set(result.mitigation_id, { request, result });
+  return result;
+}
+
+// The new version inherits the owner and risk tier of the mitigated one when it is registered
+function acceptMitigation(mitigationId: string, { version, owner, risk_tier }: MitigationAcceptance) {
+  const mitigation = mitigations.get(mitigationId);
+  if (!mitigation) {
+    throw new DemoBackendError(`Mitigation ${mitigationId} was not found`, 404);
+  }
+  if (mitigation.acceptedVersion) {
+    throw new DemoBackendError(`This mitigation was already accepted as v${mitigation.acceptedVersion}`, 409);
+  }
+  if (!version?.trim()) {
+    throw new DemoBackendError('A version is required', 422);
+  }
+
+  const { request, result } = mitigation;
+  const base = governanceModels.find((entry) => entry.model_name === request.model_name && entry.version === request.model_version);
+  const modelOwner = owner?.trim() || base?.owner;
+  if (!modelOwner) {
+    throw new DemoBackendError(`${request.model_name} v${request.model_version} is not registered; give an owner for the new version`, 422);
+  }
+  const model = registerModel({
+    model_name: request.model_name,
+    version: version.trim(),
+    owner: modelOwner,
+    risk_tier: risk_tier ?? base?.risk_tier ?? 'high',
+  });
+  mitigation.acceptedVersion = model.version;
+  const artifact = {
+    artifact_id: crypto.randomUUID(),
+    type: 'bias_mitigation' as const,
+    title: `${MITIGATION_TECHNIQUE_LABELS[result.technique]} applied to v${request.model_version} for ${request.sensitive_attribute}`,
+    created_at: new Date().toISOString(),
+  };
+  return saveModel({ ...model, audit_artifacts: [artifact] });
+}
+
+async function detectGroupBias(body: GroupBiasDetectionRequest) {
+  const thresholds = body.fairness_thresholds ?? defaultThresholds();
+  const dataset = await readDataset(datasetFile(body));
+  const model = trainModel(dataset, body.target_variable);
+  const comparisons = compareGroups(
+    dataset,
+    model,
+    body.sensitive_attributes,
+    body.reference_groups,
+    body.comparison_groups,
+    body.intersectional
+  );
+  const failing = comparisons.filter((comparison) => !isWithinThresholds(comparison.metrics, thresholds));
+  return {
+    comparisons,
+    audit_status: auditStatus(failing.length === 0),
+    recommendations: failing.length > 0
+      ? failing.slice(0, 3).flatMap((comparison) => recommendFor(comparison.metrics, thresholds, comparison.group).slice(0, 1))
+      : ['Every compared group is within thresholds'],
+    record_count: model.rows.length,
+  };
+}
+
+function findInstance(model: DemoModel, instanceIndex: number) {
+  const index = Number(instanceIndex);
+  if (!Number.isInteger(index) || index < 0 || index >= model.rows.length) {
+    throw new DemoBackendError(`Instance index must be between 0 and ${model.rows.length - 1}`, 422);
+  }
+  return index;
+}
+
+async function explainInstance(body: ExplainRequest) {
+  const dataset = await readDataset(datasetFile(body));
+  const model = trainModel(dataset, body.target_variable);
+  const index = findInstance(model, body.instance_index);
+
+  const contributions = model.features.map((feature, f) => ({
+    feature: dataset.columns[feature],
+    value: Math.round(model.contributions[index][f] * 10000) / 10000,
+  }));
+  const ranked = [...contributions].sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+  const [top, ...rest] = ranked;
+  const score = model.baseRate + contributions.reduce((sum, { value }) => sum + value, 0);
+  const outcome = model.predictions[index] ? 'positive' : 'negative';
+  const sensitiveRank = ranked.findIndex(({ feature }) => feature === body.sensitive_attribute);
+
+  const summary = top
+    ? `For instance ${index} the model predicts a ${outcome} outcome. ${top.feature} had the largest influence, ` +
+      `${top.value >= 0 ? 'raising' : 'lowering'} the score${rest.length > 0 ? `, followed by ${rest.slice(0, 2).map(({ feature }) => feature).join(' and ')}` : ''}.`
+    : `For instance ${index} the model predicts a ${outcome} outcome.`;
+  const roleDetail: Record<string, string> = {
+    executive: 'No action is needed unless these drivers relate to a protected characteristic.',
+    compliance: `Check whether the leading drivers act as proxies for ${body.sensitive_attribute}.`,
+    technical: `Score ${score.toFixed(3)} against a base rate of ${model.baseRate.toFixed(3)}; attributions are additive over ${contributions.length} features.`,
+  };
+
+  return {
+    model_name: body.model_name,
+    model_version: body.model_version,
+    instance_index: index,
+    shap_values: Object.fromEntries(contributions.map(({ feature, value }) => [feature, value])),
+    base_value: Math.round(model.baseRate * 10000) / 10000,
+    prediction: Math.round(score * 10000) / 10000,
+    feature_importance: ranked.map(({ feature, value }) => ({
+      feature,
+      importance: Math.abs(value),
+      direction: value >= 0 ? 'positive' : 'negative',
+    })),
+    natural_language_explanation: `${summary} ${roleDetail[body.role] ?? roleDetail.executive}`,
+    role: body.role,
+    recommendations: sensitiveRank !== -1 && sensitiveRank < 3
+      ? [`${body.sensitive_attribute} is among the strongest drivers of this prediction; remove it or its proxies from the feature set`]
+      : ['The sensitive attribute is not a leading driver for this instance; spot-check other instances from the same group'],
+  };
+}
+
+function predictRow(dataset: DemoDataset, model: DemoModel, row: string[]) {
+  const contributions = model.explain(row);
+  return {
+    prediction: roundScore(model.baseRate + sumScores(contributions)),
+    outcome: isPositiveScore(contributions) ? 'positive' as const : 'negative' as const,
+    shap_values: Object.fromEntries(model.features.map((feature, f) => [dataset.columns[feature], roundScore(contributions[f])])),
+  };
+}
+
+async function explainWhatIf(body: WhatIfRequest) {
+  const dataset = await readDataset(datasetFile(body));
+  const model = trainModel(dataset, body.target_variable);
+  const index = findInstance(model, body.instance_index);
+  const row = model.rows[index];
+  const edited = [...row];
+  Object.entries(body.feature_values ?? {}).forEach(([column, value]) => {
+    const target = columnIndex(dataset, column);
+    if (target === model.target) {
+      throw new DemoBackendError(`"${column}" is the target variable and cannot be changed`, 422);
+    }
+    edited[target] = String(value);
+  });
+
+  return {
+    instance_index: index,
+    base_value: roundScore(model.baseRate),
+    original: predictRow(dataset, model, row),
+    modified: predictRow(dataset, model, edited),
+  };
+}
+
+const MAX_COUNTERFACTUALS = 5;
+// Pairs are only tried among the features that move the score most, to keep the search small
+const MAX_PAIR_FEATURES = 8;
+
+interface CandidateChange {
+  feature: number;
+  value: string;
+  // Score change towards the other outcome; contributions are additive, so changes add up
+  gain: number;
+  // How far the value is from the row's own, so nearby numbers are preferred
+  distance: number;
+}
+
+// Single changes are tried first, then pairs, then a greedy run over the strongest changes,
+// so the first counterfactuals returned are the ones with the fewest edits
+async function findCounterfactuals(body: CounterfactualRequest) {
+  const dataset = await readDataset(datasetFile(body));
+  const model = trainModel(dataset, body.target_variable);
+  const index = findInstance(model, body.instance_index);
+  const sensitive = columnIndex(dataset, body.sensitive_attribute);
+  const limit = body.max_results ? Number(body.max_results) : MAX_COUNTERFACTUALS;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new DemoBackendError('max_results must be a positive whole number', 422);
+  }
+
+  const row = model.rows[index];
+  const contributions = model.explain(row);
+  const score = sumScores(contributions);
+  // +1 when the row is negative and needs pushing up, -1 when it is positive
+  const direction = isPositiveScore(contributions) ? -1 : 1;
+  const flips = (changes: CandidateChange[]) => {
+    const next = score + direction * sumScores(changes.map(({ gain }) => gain));
+    return direction === 1 ? next >= 0 : next < 0;
+  };
+
+  const candidates = model.features
+    .filter((feature) => feature !== sensitive)
+    .map((feature) => {
+      const current = row[feature] ?? '';
+      const values = [...new Set(model.rows.map((other) => other[feature] ?? ''))].filter((value) => value !== current);
+      return values
+        .map((value) => {
+          const edited = [...row];
+          edited[feature] = value;
+          const distance = Math.abs(Number(value) - Number(current));
+          return {
+            feature,
+            value,
+            gain: direction * (sumScores(model.explain(edited)) - score),
+            distance: Number.isNaN(distance) ? 0 : distance,
+          };
+        })
+        .filter(({ gain }) => gain > 0);
+    })
+    .filter((changes) => changes.length > 0);
+
+  // Closest value that still flips the outcome, for single changes
+  const nearest = (changes: CandidateChange[]) =>
+    changes.reduce((best, change) => (change.distance < best.distance || (change.distance === best.distance && change.gain < best.gain) ? change : best));
+  // Largest push towards the other outcome, for combined changes
+  const strongest = (changes: CandidateChange[]) =>
+    changes.reduce((best, change) => (change.gain > best.gain || (change.gain === best.gain && change.distance < best.distance) ? change : best));
+
+  const found: CandidateChange[][] = candidates
+    .map((changes) => changes.filter((change) => flips([change])))
+    .filter((changes) => changes.length > 0)
+    .map((changes) => [nearest(changes)]);
+
+  const single = new Set(found.map(([change]) => change.feature));
+  const strongestMoves = candidates
+    .map(strongest)
+    .filter(({ feature }) => !single.has(feature))
+    .sort((a, b) => b.gain - a.gain);
+  const pairFeatures = strongestMoves.slice(0, MAX_PAIR_FEATURES);
+  pairFeatures.forEach((first, i) =>
+    pairFeatures.slice(i + 1).forEach((second) => {
+      if (flips([first, second])) found.push([first, second]);
+    })
+  );
+
+  if (found.length === 0) {
+    const greedy: CandidateChange[] = [];
+    for (const move of strongestMoves) {
+      greedy.push(move);
+      if (flips(greedy)) {
+        found.push(greedy);
+        break;
+      }
+    }
+  }
+
+  const counterfactuals = found
+    .sort((a, b) => a.length - b.length || sumScores(a.map(({ gain }) => gain)) - sumScores(b.map(({ gain }) => gain)))
+    .slice(0, limit)
+    .map((changes) => {
+      const edited = [...row];
+      changes.forEach(({ feature, value }) => (edited[feature] = value));
+      const { prediction, outcome } = predictRow(dataset, model, edited);
+      return {
+        changes: changes.map(({ feature, value }) => ({
+          feature: dataset.columns[feature],
+          from_value: row[feature] ?? '',
+          to_value: value,
+        })),
+        prediction,
+        outcome,
+      };
+    });
+  const { prediction, outcome } = predictRow(dataset, model, row);
+
+  return {
+    instance_index: index,
+    prediction,
+    outcome,
+    fixed_features: [body.sensitive_attribute],
+    counterfactuals,
+  };
+}
+
+// Rows are spread evenly over the dataset so a sample covers all of it
+async function explainGlobal(body: GlobalExplainRequest) {
+  const dataset = await readDataset(datasetFile(body));
+  const model = trainModel(dataset, body.target_variable);
+  const rowCount = model.rows.length;
+  const sampleSize = body.sample_size ? Number(body.sample_size) : rowCount;
+  if (!Number.isInteger(sampleSize) || sampleSize < 1) {
+    throw new DemoBackendError('Sample size must be a positive whole number', 422);
+  }
+  const indexes = sampleSize >= rowCount
+    ? model.rows.map((_, i) => i)
+    : Array.from({ length: sampleSize }, (_, i) => Math.floor((i * rowCount) / sampleSize));
+
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  const features = model.features.map((feature) => dataset.columns[feature]);
+  const instances = indexes.map((index) => {
+    const shap = model.contributions[index].map(round);
+    return {
+      instance_index: index,
+      prediction: round(model.baseRate + shap.reduce((sum, value) => sum + value, 0)),
+      shap_values: shap,
+      feature_values: model.features.map((feature) => model.rows[index][feature] ?? ''),
+    };
+  });
+  const meanAbs = features.map((feature, f) => ({
+    feature,
+    mean_abs_shap: round(instances.reduce((sum, instance) => sum + Math.abs(instance.shap_values[f]), 0) / instances.length),
+  }));
+
+  return {
+    model_name: body.model_name,
+    model_version: body.model_version,
+    row_count: rowCount,
+    base_value: round(model.baseRate),
+    features,
+    instances,
+    mean_abs_shap: meanAbs.sort((a, b) => b.mean_abs_shap - a.mean_abs_shap),
+  };
+}
+
+function previewSections(body: ComplianceReportRequest, regulations: RegulationResult[], recommendations: string[]) {
+  const failing = regulations.filter((regulation) => regulation.status === 'non-compliant');
+  const pending = regulations.filter((regulation) => regulation.status === 'pending');
+  const failedEvidence = failing
+    .flatMap((regulation) => regulation.clauses)
+    .flatMap((clause) => clause.evidence.filter((item) => !item.passed));
+  const findings = [...new Map(failedEvidence.map((item) => [item.metric, item])).values()];
+
+  return [
+    {
+      title: 'Executive Summary',
+      body: failing.length > 0
+        ? `${body.model_name} v${body.model_version} does not meet ${failing.map((regulation) => regulation.name).join(', ')} ` +
+          `for ${body.unprivileged_group} compared with ${body.privileged_group}.`
+        : `${body.model_name} v${body.model_version} meets every checked fairness requirement for ${body.sensitive_attribute}.`,
+    },
+    {
+      title: 'Key Findings',
+      body: findings.length > 0
+        ? findings.map((item) => `${item.metric.replace(/_/g, ' ')} is ${item.value.toFixed(3)} (required ${item.threshold})`).join('; ') + '.'
+        : `No metric breaches a threshold.${pending.length > 0 ? ` ${pending.map((regulation) => regulation.name).join(', ')} still need documented human review.` : ''}`,
+    },
+    {
+      title: 'Recommendations',
+      body: body.role === 'executive' ? recommendations[0] : recommendations.join(' '),
+    },
+  ];
+}
+
+async function generateComplianceReport(body: ComplianceReportRequest) {
+  const thresholds = body.fairness_thresholds ?? defaultThresholds();
+  const result = await analyzePair(body, thresholds);
+  const regulations = evaluateRegulations(result.metrics, thresholds);
+  const preview = previewSections(body, regulations, result.recommendations);
+  const report: ComplianceResult = {
+    report_id: crypto.randomUUID(),
+    model_name: body.model_name,
+    model_version: body.model_version,
+    role: body.role,
+    audit_status: auditStatus(regulations.every((regulation) => regulation.status !== 'non-compliant')),
+    regulations,
+    preview,
+    generated_at: new Date().toISOString(),
+  };
+
+  const lines: PdfLine[] = [
+    { text: 'Ethical AI Compliance Report', size: 20, bold: true },
+    { text: 'Sample report generated in demo mode', size: 9 },
+    { text: '' },
+    { text: `Model: ${body.model_name} v${body.model_version}` },
+    { text: `Prepared for: ${body.role} stakeholders` },
+    { text: `Generated: ${new Date(report.generated_at).toLocaleString()}` },
+    { text: `Records analysed: ${result.record_count.toLocaleString()}` },
+    { text: `Comparison: ${body.unprivileged_group} vs ${body.privileged_group} (${body.sensitive_attribute})` },
+    { text: '' },
+    ...preview.flatMap((section) => [
+      { text: section.title, size: 14, bold: true },
+      { text: section.body },
+      { text: '' },
+    ]),
+    { text: 'Regulatory Status', size: 14, bold: true },
+    ...regulations.flatMap((regulation) => [
+      { text: `${regulation.name}: ${regulation.status}`, bold: true },
+      ...regulation.clauses.map((clause) => ({ text: `  ${clause.clause_id} ${clause.title} - ${clause.status}` })),
+    ]),
+    { text: '' },
+    { text: 'Fairness Metrics', size: 14, bold: true },
+    ...FAIRNESS_METRICS.map(({ key, label }) => ({
+      text: `${label}: ${result.metrics[key].toFixed(3)} (threshold ${getThresholdLabel(key, thresholds)})`,
+    })),
+  ];
+  reportPdfs.set(report.report_id, buildPdf(lines));
+  return report;
+}
+
+function findReportPdf(reportId: string) {
+  const pdf = reportPdfs.get(reportId);
+  if (!pdf) {
+    throw new DemoBackendError(`Report ${reportId} was not found`, 404);
+  }
+  return pdf;
+}
+
+function findModel(modelName: string, version: string) {
+  const model = governanceModels.find((entry) => entry.model_name === modelName && entry.version === version);
+  if (!model) {
+    throw new DemoBackendError(`Model ${modelName} v${version} is not registered`, 404);
+  }
+  return model;
+}
+
+function saveModel(model: GovernanceModel) {
+  governanceModels = governanceModels.map((entry) =>
+    entry.model_name === model.model_name && entry.version === model.version ? model : entry
+  );
+  return model;
+}
+
+function registerModel(input: GovernanceModelInput) {
+  if (governanceModels.some((entry) => entry.model_name === input.model_name && entry.version === input.version)) {
+    throw new DemoBackendError(`Model ${input.model_name} v${input.version} is already registered`, 409);
+  }
+  const now = new Date().toISOString();
+  const model: GovernanceModel = {
+    ...input,
+    approval_state: 'draft',
+    audit_artifacts: [],
+    approval_history: [{ from_state: null, to_state: 'draft', actor: 'demo', comment: 'Registered', timestamp: now }],
+    updated_at: now,
+  };
+  governanceModels = [...governanceModels, model];
+  return model;
+}
+
+function transitionModel(model: GovernanceModel, { approval_state, comment }: ApprovalTransition) {
+  if (!APPROVAL_TRANSITIONS[model.approval_state].includes(approval_state)) {
+    throw new DemoBackendError(`Cannot move a ${model.approval_state} model to ${approval_state}`, 409);
+  }
+  const now = new Date().toISOString();
+  return saveModel({
+    ...model,
+    approval_state,
+    approval_history: [
+      ...model.approval_history,
+      { from_state: model.approval_state, to_state: approval_state, actor: 'demo', comment, timestamp: now },
+    ],
+    updated_at: now,
+  });
+}
+
+type JobReporter = (progress: number, message: string, partialResult?: unknown) => void;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function findJob(jobId: string) {
+  const job = jobs.get(jobId);
+  if (!job) {
+    throw new DemoBackendError(`Job ${jobId} was not found`, 404);
+  }
+  return job;
+}
+
+// Updates are dropped once a job has settled, so a cancelled job stays cancelled
+function updateJob(jobId: string, changes: Partial<AnalysisJob>) {
+  const job = findJob(jobId);
+  if (['succeeded', 'failed', 'cancelled'].includes(job.status)) return;
+  jobs.set(jobId, { ...job, ...changes, updated_at: new Date().toISOString() });
+}
+
+// Queues the work and returns straight away; the client follows the job by polling
+function submitJob(work: (report: JobReporter) => Promise<unknown>) {
+  const now = new Date().toISOString();
+  const job: AnalysisJob = {
+    job_id: crypto.randomUUID(),
+    status: 'queued',
+    progress: 0,
+    message: 'Waiting for a worker',
+    created_at: now,
+    updated_at: now,
+  };
+  jobs.set(job.job_id, job);
+
+  const report: JobReporter = (progress, message, partialResult) =>
+    updateJob(job.job_id, { status: 'processing', progress, message, partial_result: partialResult });
+  delay(JOB_QUEUE_DELAY_MS)
+    .then(() => {
+      report(0.1, 'Reading dataset');
+      return work(report);
+    })
+    .then(
+      (result) => updateJob(job.job_id, { status: 'succeeded', progress: 1, message: 'Finished', result }),
+      (error) => updateJob(job.job_id, {
+        status: 'failed',
+        message: 'Failed',
+        error: error instanceof DemoBackendError ? error.message : 'Analysis failed',
+      })
+    );
+  return structuredClone(job);
+}
+
+// Streams the comparisons as partial results, as a backend working through group pairs would
+async function revealComparisons(result: GroupBiasResult, report: JobReporter) {
+  const total = result.comparisons.length;
+  for (let i = 1; i < total; i++) {
+    report(
+      0.1 + (0.9 * i) / total,
+      `Compared ${i} of ${total} group pairs`,
+      { ...result, comparisons: result.comparisons.slice(0, i), recommendations: [] }
+    );
+    await delay(JOB_STEP_DELAY_MS);
+  }
+  return result;
+}
+
+function cancelJob(jobId: string) {
+  updateJob(jobId, { status: 'cancelled', message: 'Cancelled' });
+  return structuredClone(findJob(jobId));
+}
+
+const routes: Route[] = [
+  { method: 'GET', pattern: /^\/api\/v1\/dashboard\/summary$/, handler: async () => getDashboardSummary() },
+  { method: 'GET', pattern: /^\/api\/v1\/dashboard\/model_risk$/, handler: async () => DEMO_MODEL_RISK },
+  { method: 'GET', pattern: /^\/api\/v1\/dashboard\/compliance_trend$/, handler: async () => getComplianceTrend() },
+  { method: 'POST', pattern: /^\/api\/v1\/uploads$/, handler: async (_, { json }) => createUpload(json as UploadSessionRequest) },
+  { method: 'GET', pattern: /^\/api\/v1\/uploads\/([^/]+)$/, handler: async ([uploadId]) => findUpload(uploadId).session },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/uploads\/([^/]+)\/chunks$/,
+    handler: async ([uploadId], { form }) => appendChunk(uploadId, form as UploadChunk),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/bias\/detect$/,
+    handler: (_, { form }) => {
+      const body = form as BiasDetectionRequest;
+      return analyzePair(body, body.fairness_thresholds ?? defaultThresholds());
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/bias\/detect\/groups$/,
+    handler: (_, { form }) => detectGroupBias(form as GroupBiasDetectionRequest),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/bias\/threshold-sweep$/,
+    handler: async (_, { form }) => {
+      const body = form as ThresholdSweepRequest;
+      return sweepThresholds(body, body.fairness_thresholds ?? defaultThresholds());
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/bias\/mitigate$/,
+    handler: async (_, { form }) => {
+      const body = form as MitigationRequest;
+      return mitigateBias(body, body.fairness_thresholds ?? defaultThresholds());
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/bias\/mitigations\/([^/]+)\/accept$/,
+    handler: async ([mitigationId], { json }) => acceptMitigation(mitigationId, json as MitigationAcceptance),
+  },
+  { method: 'POST', pattern: /^\/api\/v1\/explain$/, handler: (_, { form }) => explainInstance(form as ExplainRequest) },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/explain\/what-if$/,
+    handler: (_, { form }) => explainWhatIf(form as WhatIfRequest),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/explain\/counterfactuals$/,
+    handler: (_, { form }) => findCounterfactuals(form as CounterfactualRequest),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/explain\/global$/,
+    handler: (_, { form }) => explainGlobal(form as GlobalExplainRequest),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/compliance\/generate$/,
+    handler: (_, { form }) => generateComplianceReport(form as ComplianceReportRequest),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/jobs\/bias\/detect$/,
+    handler: async (_, { form }) => {
+      const body = form as BiasDetectionRequest;
+      return submitJob(() => analyzePair(body, body.fairness_thresholds ?? defaultThresholds()));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/jobs\/bias\/detect\/groups$/,
+    handler: async (_, { form }) => submitJob(async (report) => {
+      const result = await detectGroupBias(form as GroupBiasDetectionRequest);
+      return revealComparisons(result, report);
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/jobs\/bias\/threshold-sweep$/,
+    handler: async (_, { form }) => submitJob(async (report) => {
+      const body = form as ThresholdSweepRequest;
+      report(0.4, 'Scoring every threshold');
+      return sweepThresholds(body, body.fairness_thresholds ?? defaultThresholds());
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/jobs\/bias\/mitigate$/,
+    handler: async (_, { form }) => submitJob(async (report) => {
+      const body = form as MitigationRequest;
+      report(0.4, `Applying ${MITIGATION_TECHNIQUE_LABELS[body.technique] ?? body.technique}`);
+      return mitigateBias(body, body.fairness_thresholds ?? defaultThresholds());
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/jobs\/explain$/,
+    handler: async (_, { form }) => submitJob(() => explainInstance(form as ExplainRequest)),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/jobs\/explain\/global$/,
+    handler: async (_, { form }) => submitJob(async (report) => {
+      report(0.3, 'Computing SHAP values for every row');
+      return explainGlobal(form as GlobalExplainRequest);
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/jobs\/compliance\/generate$/,
+    handler: async (_, { form }) => submitJob(async (report) => {
+      report(0.5, 'Evaluating regulations');
+      return generateComplianceReport(form as ComplianceReportRequest);
+    }),
+  },
+  { method: 'GET', pattern: /^\/api\/v1\/jobs\/([^/]+)$/, handler: async ([jobId]) => structuredClone(findJob(jobId)) },
+  { method: 'POST', pattern: /^\/api\/v1\/jobs\/([^/]+)\/cancel$/, handler: async ([jobId]) => cancelJob(jobId) },
+  {
+    method: 'GET',
+    pattern: /^\/api\/v1\/compliance\/reports\/([^/]+)\/pdf$/,
+    handler: async ([reportId]) => findReportPdf(reportId),
+  },
+  { method: 'GET', pattern: /^\/api\/v1\/governance\/models$/, handler: async () => governanceModels },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/governance\/models$/,
+    handler: async (_, { json }) => registerModel(json as GovernanceModelInput),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/v1\/governance\/models\/([^/]+)\/([^/]+)$/,
+    handler: async ([name, version]) => findModel(name, version),
+  },
+  {
+    method: 'PATCH',
+    pattern: /^\/api\/v1\/governance\/models\/([^/]+)\/([^/]+)$/,
+    handler: async ([name, version], { json }) => {
+      const changes = json as GovernanceModelUpdate;
+      return saveModel({ ...findModel(name, version), ...changes, updated_at: new Date().toISOString() });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/governance\/models\/([^/]+)\/([^/]+)\/transition$/,
+    handler: async ([name, version], { json }) => transitionModel(findModel(name, version), json as ApprovalTransition),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/governance\/models\/([^/]+)\/([^/]+)\/artifacts$/,
+    handler: async ([name, version], { json }) => {
+      const model = findModel(name, version);
+      const artifact = { ...(json as AuditArtifactInput), artifact_id: crypto.randomUUID() };
+      return saveModel({ ...model, audit_artifacts: [...model.audit_artifacts, artifact], updated_at: new Date().toISOString() });
+    },
+  },
+];
+
+export async function demoRequest(method: HttpMethod, endpoint: string, options: ApiRequestOptions): Promise<unknown> {
+  const path = endpoint.split('?')[0];
+  for (const route of routes) {
+    const match = route.method === method && route.pattern.exec(path);
+    if (match) {
+      await new Promise((resolve) => setTimeout(resolve, RESPONSE_DELAY_MS));
+      return route.handler(match.slice(1).map(decodeURIComponent), options);
+    }
+  }
+  throw new DemoBackendError(`Demo mode does not support ${method} ${path}`, 404);
+}
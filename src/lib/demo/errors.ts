@@ -0,0 +1,7 @@
+// Raised by the demo backend where the real server would answer with an error status
+export class DemoBackendError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'DemoBackendError';
+  }
+}
@@ -0,0 +1,127 @@
+// Sample portfolio shown by the dashboard and model registry in demo mode
+import type { GovernanceModel, ModelRisk } from '../api';
+
+export const DEMO_MODEL_RISK: ModelRisk[] = [
+  {
+    model_name: 'hiring_classifier',
+    version: '2.1',
+    status: 'NON_COMPLIANT',
+    risk_score: 78,
+    bias_source: 'gender',
+    disparate_impact: 0.71,
+    last_audited: '2026-10-12',
+  },
+  {
+    model_name: 'credit_scoring',
+    version: '4.0',
+    status: 'COMPLIANT',
+    risk_score: 24,
+    bias_source: 'age',
+    disparate_impact: 0.91,
+    last_audited: '2026-10-15',
+  },
+  {
+    model_name: 'loan_approval',
+    version: '1.3',
+    status: 'NON_COMPLIANT',
+    risk_score: 64,
+    bias_source: 'race',
+    disparate_impact: 0.77,
+    last_audited: '2026-10-09',
+  },
+  {
+    model_name: 'churn_predictor',
+    version: '3.2',
+    status: 'COMPLIANT',
+    risk_score: 12,
+    bias_source: 'region',
+    disparate_impact: 0.96,
+    last_audited: '2026-10-17',
+  },
+  {
+    model_name: 'insurance_pricing',
+    version: '1.0',
+    status: 'COMPLIANT',
+    risk_score: 35,
+    bias_source: 'age',
+    disparate_impact: 0.86,
+    last_audited: '2026-10-02',
+  },
+];
+
+export const DEMO_TREND_WEEKS = [
+  '2026-07-27',
+  '2026-08-03',
+  '2026-08-10',
+  '2026-08-17',
+  '2026-08-24',
+  '2026-08-31',
+  '2026-09-07',
+  '2026-09-14',
+  '2026-09-21',
+  '2026-09-28',
+  '2026-10-05',
+  '2026-10-12',
+];
+
+// Weekly risk score per model, aligned with DEMO_TREND_WEEKS; null before the first audit.
+// The last score matches DEMO_MODEL_RISK.
+export const DEMO_RISK_HISTORY: Array<{ model_name: string; version: string; risk_scores: Array<number | null> }> = [
+  { model_name: 'hiring_classifier', version: '2.1', risk_scores: [82, 84, 85, 83, 81, 80, 79, 81, 80, 79, 78, 78] },
+  { model_name: 'credit_scoring', version: '4.0', risk_scores: [58, 57, 55, 54, 52, 49, 45, 38, 32, 28, 26, 24] },
+  { model_name: 'loan_approval', version: '1.3', risk_scores: [70, 69, 71, 68, 62, 55, 48, 46, 57, 65, 64, 64] },
+  { model_name: 'churn_predictor', version: '3.2', risk_scores: [30, 28, 25, 20, 18, 15, 14, 13, 12, 12, 12, 12] },
+  { model_name: 'insurance_pricing', version: '1.0', risk_scores: [null, null, null, 62, 55, 52, 51, 48, 44, 40, 36, 35] },
+];
+
+// Models scoring below this are reported as compliant
+export const DEMO_COMPLIANT_RISK_LIMIT = 50;
+
+export const DEMO_GOVERNANCE_MODELS: GovernanceModel[] = [
+  {
+    model_name: 'hiring_classifier',
+    version: '2.1',
+    owner: 'talent-analytics',
+    risk_tier: 'high',
+    approval_state: 'under_review',
+    audit_artifacts: [
+      {
+        artifact_id: 'demo-artifact-1',
+        type: 'bias_detection',
+        title: 'Gender bias audit',
+        created_at: '2026-10-12T09:30:00Z',
+      },
+    ],
+    approval_history: [
+      { from_state: null, to_state: 'draft', actor: 'demo', comment: 'Registered', timestamp: '2026-09-30T14:00:00Z' },
+      { from_state: 'draft', to_state: 'under_review', actor: 'demo', comment: 'Ready for review', timestamp: '2026-10-12T10:00:00Z' },
+    ],
+    updated_at: '2026-10-12T10:00:00Z',
+  },
+  {
+    model_name: 'credit_scoring',
+    version: '4.0',
+    owner: 'risk-modelling',
+    risk_tier: 'high',
+    approval_state: 'approved',
+    audit_artifacts: [],
+    approval_history: [
+      { from_state: null, to_state: 'draft', actor: 'demo', comment: 'Registered', timestamp: '2026-08-01T08:00:00Z' },
+      { from_state: 'draft', to_state: 'under_review', actor: 'demo', comment: '', timestamp: '2026-08-20T08:00:00Z' },
+      { from_state: 'under_review', to_state: 'approved', actor: 'demo', comment: 'Passed fairness review', timestamp: '2026-09-02T08:00:00Z' },
+    ],
+    updated_at: '2026-09-02T08:00:00Z',
+  },
+  {
+    model_name: 'churn_predictor',
+    version: '3.2',
+    owner: 'customer-insights',
+    risk_tier: 'minimal',
+    approval_state: 'draft',
+    audit_artifacts: [],
+    approval_history: [
+      { from_state: null, to_state: 'draft', actor: 'demo', comment: 'Registered', timestamp: '2026-10-17T16:00:00Z' },
+    ],
+    updated_at: '2026-10-17T16:00:00Z',
+  },
+];
@@ -0,0 +1,170 @@
+// Demo versions of the mitigation techniques. Each returns new predictions for the model's rows;
+// labels stay as they are, so metrics and accuracy are comparable with the unmitigated model.
+import type { MitigationTechnique } from '../api';
+import type { FairnessThresholds } from '../policies';
+import { computeMetrics, DemoDataset, DemoModel, isWithinThresholds, rowScores, trainModel } from './analysis';
+import { DemoBackendError } from './errors';
+
+export interface MitigationPair {
+  // Sensitive attribute column and the positions of each group in the model's rows
+  column: number;
+  privileged: number[];
+  unprivileged: number[];
+  privilegedGroup: string;
+  unprivilegedGroup: string;
+}
+
+export interface MitigationOutcome {
+  predictions: boolean[];
+  parameters: Record<string, number>;
+  summary: string;
+}
+
+// Reject option classification tries widening bands around the threshold up to this margin
+const MAX_REJECT_MARGIN = 0.25;
+const REJECT_MARGIN_STEP = 0.01;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Kamiran and Calders: weight = expected / observed frequency of each group and label combination
+function reweigh(dataset: DemoDataset, model: DemoModel, pair: MitigationPair): MitigationOutcome {
+  const key = (group: string, label: boolean) => `${group}\u0000${label}`;
+  const groupCounts = new Map<string, number>();
+  const jointCounts = new Map<string, number>();
+  model.rows.forEach((row, i) => {
+    const group = row[pair.column] ?? '';
+    groupCounts.set(group, (groupCounts.get(group) ?? 0) + 1);
+    jointCounts.set(key(group, model.labels[i]), (jointCounts.get(key(group, model.labels[i])) ?? 0) + 1);
+  });
+  const total = model.rows.length;
+  const positives = model.labels.filter(Boolean).length;
+  const weightOf = (group: string, label: boolean) => {
+    const expected = (groupCounts.get(group) ?? 0) * (label ? positives : total - positives) / total;
+    return expected / (jointCounts.get(key(group, label)) || 1);
+  };
+
+  const reweighed = trainModel(dataset, dataset.columns[model.target], (row, label) => weightOf(row[pair.column] ?? '', label));
+  const parameters: Record<string, number> = {};
+  for (const group of [pair.privilegedGroup, pair.unprivilegedGroup]) {
+    parameters[`weight ${group} positive`] = round(weightOf(group, true));
+    parameters[`weight ${group} negative`] = round(weightOf(group, false));
+  }
+  return {
+    predictions: reweighed.predictions,
+    parameters,
+    summary: `Retrained with positive ${pair.unprivilegedGroup} rows weighted ${parameters[`weight ${pair.unprivilegedGroup} positive`].toFixed(2)} ` +
+      `and positive ${pair.privilegedGroup} rows weighted ${parameters[`weight ${pair.privilegedGroup} positive`].toFixed(2)}.`,
+  };
+}
+
+// Each numeric feature is moved towards the value at the same rank in the pooled distribution
+function removeDisparateImpact(dataset: DemoDataset, model: DemoModel, pair: MitigationPair, repairLevel: number): MitigationOutcome {
+  const groups = new Map<string, number[]>();
+  model.rows.forEach((row, i) => {
+    const group = row[pair.column] ?? '';
+    groups.set(group, [...(groups.get(group) ?? []), i]);
+  });
+
+  const repaired = model.rows.map((row) => [...row]);
+  const numericFeatures = model.features.filter((feature) =>
+    feature !== pair.column && model.rows.every((row) => (row[feature] ?? '').trim() !== '' && !Number.isNaN(Number(row[feature])))
+  );
+  for (const feature of numericFeatures) {
+    const pooled = model.rows.map((row) => Number(row[feature])).sort((a, b) => a - b);
+    for (const members of groups.values()) {
+      const ranked = [...members].sort((a, b) => Number(model.rows[a][feature]) - Number(model.rows[b][feature]));
+      ranked.forEach((i, rank) => {
+        const quantile = ranked.length > 1 ? rank / (ranked.length - 1) : 0.5;
+        const target = pooled[Math.round(quantile * (pooled.length - 1))];
+        const value = Number(model.rows[i][feature]);
+        repaired[i][feature] = String(round(value + repairLevel * (target - value)));
+      });
+    }
+  }
+
+  const retrained = trainModel({ columns: dataset.columns, rows: repaired }, dataset.columns[model.target]);
+  return {
+    predictions: retrained.predictions,
+    parameters: { 'repair level': repairLevel, 'repaired features': numericFeatures.length },
+    summary: numericFeatures.length > 0
+      ? `Repaired ${numericFeatures.length} numeric feature${numericFeatures.length === 1 ? '' : 's'} at level ${repairLevel} and retrained.`
+      : 'No numeric features to repair; predictions are unchanged.',
+  };
+}
+
+// Both groups are selected at the model's overall selection rate
+function adjustThresholds(model: DemoModel, pair: MitigationPair): MitigationOutcome {
+  const scores = rowScores(model);
+  const rate = model.predictions.filter(Boolean).length / model.predictions.length;
+  const predictions = [...model.predictions];
+  const parameters: Record<string, number> = { 'default threshold': round(model.baseRate) };
+
+  for (const [group, members] of [[pair.privilegedGroup, pair.privileged], [pair.unprivilegedGroup, pair.unprivileged]] as const) {
+    // Selected by rank so tied scores at the threshold cannot push a group past the target rate
+    const ranked = [...members].sort((a, b) => scores[b] - scores[a]);
+    const selected = Math.round(rate * ranked.length);
+    ranked.forEach((i, rank) => (predictions[i] = rank < selected));
+    // Above every score when nobody should be selected
+    const threshold = selected === 0 ? Infinity : scores[ranked[selected - 1]];
+    parameters[`threshold ${group}`] = Number.isFinite(threshold) ? round(threshold) : 1;
+  }
+  return {
+    predictions,
+    parameters,
+    summary: `Thresholds set to ${parameters[`threshold ${pair.privilegedGroup}`].toFixed(3)} for ${pair.privilegedGroup} and ` +
+      `${parameters[`threshold ${pair.unprivilegedGroup}`].toFixed(3)} for ${pair.unprivilegedGroup}, selecting about ${percent(rate)} of each.`,
+  };
+}
+
+// Uses the narrowest band that meets the policy, or the one closest to parity when none does
+function rejectOption(model: DemoModel, pair: MitigationPair, thresholds: FairnessThresholds): MitigationOutcome {
+  const scores = rowScores(model);
+  const unprivileged = new Set(pair.unprivileged);
+  const privileged = new Set(pair.privileged);
+  const withMargin = (margin: number) =>
+    model.predictions.map((predicted, i) => {
+      if (Math.abs(scores[i] - model.baseRate) > margin) return predicted;
+      return unprivileged.has(i) ? true : privileged.has(i) ? false : predicted;
+    });
+
+  let best = { margin: 0, predictions: model.predictions, distance: Infinity };
+  for (let step = 1; step * REJECT_MARGIN_STEP <= MAX_REJECT_MARGIN + 1e-9; step++) {
+    const margin = round(step * REJECT_MARGIN_STEP);
+    const predictions = withMargin(margin);
+    const metrics = computeMetrics({ ...model, predictions }, pair.privileged, pair.unprivileged);
+    if (isWithinThresholds(metrics, thresholds)) {
+      best = { margin, predictions, distance: 0 };
+      break;
+    }
+    const distance = Math.abs(1 - metrics.disparate_impact);
+    if (distance < best.distance) best = { margin, predictions, distance };
+  }
+  const flipped = best.predictions.filter((predicted, i) => predicted !== model.predictions[i]).length;
+  return {
+    predictions: best.predictions,
+    parameters: { 'default threshold': round(model.baseRate), margin: best.margin },
+    summary: `Outcomes within ${best.margin.toFixed(2)} of the threshold were reassigned, changing ${flipped} prediction${flipped === 1 ? '' : 's'}.`,
+  };
+}
+
+export function applyMitigation(
+  dataset: DemoDataset,
+  model: DemoModel,
+  pair: MitigationPair,
+  technique: MitigationTechnique,
+  repairLevel: number,
+  thresholds: FairnessThresholds
+): MitigationOutcome {
+  switch (technique) {
+    case 'reweighing':
+      return reweigh(dataset, model, pair);
+    case 'disparate_impact_remover':
+      return removeDisparateImpact(dataset, model, pair, repairLevel);
+    case 'threshold_adjustment':
+      return adjustThresholds(model, pair);
+    case 'reject_option_classification':
+      return rejectOption(model, pair, thresholds);
+  }
+  throw new DemoBackendError(`Unknown mitigation technique "${technique}"`, 422);
+}
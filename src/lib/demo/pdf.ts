@@ -0,0 +1,68 @@
+// Minimal text-only PDF writer for the sample reports returned in demo mode
+export interface PdfLine {
+  text: string;
+  size?: number;
+  bold?: boolean;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const LINE_HEIGHT = 18;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT);
+
+// The standard fonts only cover Latin-1, so symbols are spelled out
+function escapeText(text: string) {
+  return text
+    .replace(/×/g, 'x')
+    .replace(/≥/g, '>=')
+    .replace(/≤/g, '<=')
+    .replace(/±/g, '+/-')
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+}
+
+function pageContent(lines: PdfLine[]) {
+  return lines.map((line, i) => {
+    const y = PAGE_HEIGHT - MARGIN - i * LINE_HEIGHT;
+    const font = line.bold ? 'F2' : 'F1';
+    return `BT /${font} ${line.size ?? 11} Tf ${MARGIN} ${y} Td (${escapeText(line.text)}) Tj ET`;
+  }).join('\n');
+}
+
+export function buildPdf(lines: PdfLine[]) {
+  const pages: PdfLine[][] = [];
+  for (let i = 0; i < Math.max(lines.length, 1); i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+
+  // Objects 1-4 are fixed; each page adds a page object and its content stream
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold >>',
+  ];
+  pages.forEach((page, i) => {
+    const content = pageContent(page);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new Blob([pdf], { type: 'application/pdf' });
+}
@@ -0,0 +1,124 @@
+// Regulation clauses the demo backend checks fairness metrics against
+import type { ComplianceClause, FairnessMetrics, RegulationResult, RegulationStatus } from '../api';
+import { FairnessMetric, getThresholdLabel, isMetricFair } from '../fairness';
+import { FairnessThresholds, getPolicyProfile } from '../policies';
+
+interface ClauseRule {
+  clause_id: string;
+  title: string;
+  // Metrics checked as evidence; an empty list needs documentation the backend cannot see
+  metrics: FairnessMetric[];
+  // Defaults to the thresholds sent with the request
+  thresholds?: FairnessThresholds;
+}
+
+interface RegulationRule {
+  regulation_id: string;
+  name: string;
+  clauses: ClauseRule[];
+}
+
+const REGULATIONS: RegulationRule[] = [
+  {
+    regulation_id: 'eeoc',
+    name: 'EEOC Uniform Guidelines',
+    clauses: [
+      {
+        clause_id: '29 CFR 1607.4(D)',
+        title: 'Four-fifths rule for adverse impact',
+        metrics: ['disparate_impact'],
+        thresholds: getPolicyProfile('eeoc_four_fifths').thresholds,
+      },
+    ],
+  },
+  {
+    regulation_id: 'eu_ai_act',
+    name: 'EU AI Act',
+    clauses: [
+      {
+        clause_id: 'Art. 10(2)(f)',
+        title: 'Examination of data for possible biases',
+        metrics: ['disparate_impact', 'statistical_parity_difference'],
+        thresholds: getPolicyProfile('eu_ai_act_high_risk').thresholds,
+      },
+      {
+        clause_id: 'Art. 15(1)',
+        title: 'Consistent accuracy across groups',
+        metrics: ['equal_opportunity_difference', 'average_odds_difference'],
+        thresholds: getPolicyProfile('eu_ai_act_high_risk').thresholds,
+      },
+      { clause_id: 'Art. 14', title: 'Human oversight measures', metrics: [] },
+    ],
+  },
+  {
+    regulation_id: 'gdpr',
+    name: 'GDPR',
+    clauses: [
+      {
+        clause_id: 'Art. 5(1)(a)',
+        title: 'Fair processing of personal data',
+        metrics: ['statistical_parity_difference'],
+      },
+      { clause_id: 'Art. 22(3)', title: 'Right to human intervention in automated decisions', metrics: [] },
+    ],
+  },
+  {
+    regulation_id: 'internal_policy',
+    name: 'Internal Fairness Policy',
+    clauses: [
+      {
+        clause_id: 'FP-1',
+        title: 'All fairness metrics within policy thresholds',
+        metrics: ['disparate_impact', 'statistical_parity_difference', 'equal_opportunity_difference', 'average_odds_difference'],
+      },
+    ],
+  },
+];
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// Any failing clause fails the regulation; otherwise unchecked clauses leave it pending
+function combineStatuses(statuses: RegulationStatus[]): RegulationStatus {
+  if (statuses.includes('non-compliant')) return 'non-compliant';
+  return statuses.includes('pending') ? 'pending' : 'compliant';
+}
+
+function evaluateClause(rule: ClauseRule, metrics: FairnessMetrics, thresholds: FairnessThresholds): ComplianceClause {
+  const clauseThresholds = rule.thresholds ?? thresholds;
+  const evidence = rule.metrics.map((metric) => ({
+    metric,
+    value: round(metrics[metric]),
+    threshold: getThresholdLabel(metric, clauseThresholds),
+    passed: isMetricFair(metric, metrics[metric], clauseThresholds),
+  }));
+  const status: RegulationStatus = evidence.length === 0
+    ? 'pending'
+    : evidence.every((item) => item.passed) ? 'compliant' : 'non-compliant';
+  return { clause_id: rule.clause_id, title: rule.title, status, evidence };
+}
+
+function summarize(clauses: ComplianceClause[], status: RegulationStatus) {
+  const failing = clauses.filter((clause) => clause.status === 'non-compliant');
+  const pending = clauses.filter((clause) => clause.status === 'pending');
+  if (status === 'non-compliant') {
+    return `Fails ${failing.map((clause) => clause.clause_id).join(', ')}`;
+  }
+  if (status === 'pending') {
+    return `Metrics pass; ${pending.map((clause) => clause.clause_id).join(', ')} needs documented review`;
+  }
+  return 'Every checked clause passes';
+}
+
+export function evaluateRegulations(metrics: FairnessMetrics, thresholds: FairnessThresholds): RegulationResult[] {
+  return REGULATIONS.map((regulation) => {
+    const clauses = regulation.clauses.map((rule) => evaluateClause(rule, metrics, thresholds));
+    const status = combineStatuses(clauses.map((clause) => clause.status));
+    return {
+      regulation_id: regulation.regulation_id,
+      name: regulation.name,
+      status,
+      summary: summarize(clauses, status),
+      clauses,
+    };
+  });
+}
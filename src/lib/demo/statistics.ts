@@ -0,0 +1,169 @@
+// Uncertainty for the demo fairness metrics: percentile bootstrap intervals, a test of no
+// difference between the groups per metric, and verdicts that only commit when the data does.
+import type {
+  EvidenceVerdict,
+  FairnessEvidence,
+  FairnessMetricEvidence,
+  FairnessMetrics,
+  MetricEvidence,
+  SignificanceTest,
+} from '../api';
+import { FAIRNESS_METRICS, FairnessMetric, isMetricFair } from '../fairness';
+import type { FairnessThresholds } from '../policies';
+import { computeMetrics, DemoModel } from './analysis';
+
+const CONFIDENCE_LEVEL = 0.95;
+const BOOTSTRAP_SAMPLES = 500;
+// Below this many records in a group a metric's verdict is insufficient evidence
+const MIN_SAMPLE_SIZE = 30;
+// Fixed seed so the same dataset always gets the same intervals
+const BOOTSTRAP_SEED = 20240601;
+// Chi-squared is unreliable when an expected cell count is below this
+const MIN_EXPECTED_COUNT = 5;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// mulberry32
+function seededRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Abramowitz and Stegun 7.1.26, accurate to about 1e-7
+function erfc(x: number) {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const value = poly * Math.exp(-x * x);
+  return x >= 0 ? value : 2 - value;
+}
+
+function logFactorials(n: number) {
+  const table = new Float64Array(n + 1);
+  for (let i = 2; i <= n; i++) table[i] = table[i - 1] + Math.log(i);
+  return table;
+}
+
+// 2x2 table of [group][outcome]: [[a, b], [c, d]]
+function testTable(a: number, b: number, c: number, d: number, alpha: number): SignificanceTest {
+  const n = a + b + c + d;
+  const rows = [a + b, c + d];
+  const columns = [a + c, b + d];
+  if (rows.includes(0) || columns.includes(0)) {
+    return { test: 'chi_squared', statistic: 0, p_value: 1, significant: false };
+  }
+
+  const expected = rows.flatMap((row) => columns.map((column) => (row * column) / n));
+  if (expected.some((count) => count < MIN_EXPECTED_COUNT)) {
+    const logF = logFactorials(n);
+    const probability = (x: number) =>
+      Math.exp(
+        logF[rows[0]] + logF[rows[1]] + logF[columns[0]] + logF[columns[1]] - logF[n] -
+        logF[x] - logF[rows[0] - x] - logF[columns[0] - x] - logF[rows[1] - columns[0] + x]
+      );
+    const observed = probability(a);
+    let pValue = 0;
+    for (let x = Math.max(0, columns[0] - rows[1]); x <= Math.min(rows[0], columns[0]); x++) {
+      const p = probability(x);
+      if (p <= observed * (1 + 1e-7)) pValue += p;
+    }
+    pValue = Math.min(1, pValue);
+    return { test: 'fisher_exact', statistic: null, p_value: round(pValue), significant: pValue < alpha };
+  }
+
+  const statistic = (n * (a * d - b * c) ** 2) / (rows[0] * rows[1] * columns[0] * columns[1]);
+  const pValue = erfc(Math.sqrt(statistic / 2));
+  return { test: 'chi_squared', statistic: round(statistic), p_value: round(pValue), significant: pValue < alpha };
+}
+
+// Share of bootstrap values on the far side of zero difference, doubled
+function bootstrapTest(values: number[], alpha: number): SignificanceTest {
+  const below = values.filter((value) => value <= 0).length / values.length;
+  const above = values.filter((value) => value >= 0).length / values.length;
+  const pValue = Math.min(1, 2 * Math.min(below, above));
+  return { test: 'bootstrap', statistic: null, p_value: round(pValue), significant: pValue < alpha };
+}
+
+// Fair or unfair only when every value in the interval agrees
+function intervalVerdict(metric: FairnessMetric, lower: number, upper: number, thresholds: FairnessThresholds): EvidenceVerdict {
+  const ideal = metric === 'disparate_impact' ? 1 : 0;
+  const closest = Math.min(upper, Math.max(lower, ideal));
+  if (isMetricFair(metric, lower, thresholds) && isMetricFair(metric, upper, thresholds)) return 'fair';
+  if (!isMetricFair(metric, closest, thresholds)) return 'unfair';
+  return 'insufficient_evidence';
+}
+
+function quantile(sorted: number[], q: number) {
+  const position = q * (sorted.length - 1);
+  const below = Math.floor(position);
+  const above = Math.min(sorted.length - 1, below + 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+export function assessEvidence(
+  model: DemoModel,
+  privileged: number[],
+  unprivileged: number[],
+  thresholds: FairnessThresholds
+): FairnessEvidence {
+  const alpha = 1 - CONFIDENCE_LEVEL;
+  const random = seededRandom(BOOTSTRAP_SEED);
+  const resample = (members: number[]) => members.map(() => members[Math.floor(random() * members.length)]);
+  const samples: FairnessMetrics[] = Array.from({ length: BOOTSTRAP_SAMPLES }, () =>
+    computeMetrics(model, resample(privileged), resample(unprivileged))
+  );
+
+  const count = (members: number[], keep: (i: number) => boolean) => members.filter(keep).length;
+  const selected = (i: number) => model.predictions[i];
+  const positives = (members: number[]) => members.filter((i) => model.labels[i]);
+  const negatives = (members: number[]) => members.filter((i) => !model.labels[i]);
+  const selectionTable = (p: number[], u: number[]) =>
+    testTable(count(p, selected), p.length - count(p, selected), count(u, selected), u.length - count(u, selected), alpha);
+
+  const selectionTest = selectionTable(privileged, unprivileged);
+  const tests: Record<FairnessMetric, SignificanceTest> = {
+    disparate_impact: selectionTest,
+    statistical_parity_difference: selectionTest,
+    equal_opportunity_difference: selectionTable(positives(privileged), positives(unprivileged)),
+    average_odds_difference: bootstrapTest(samples.map((sample) => sample.average_odds_difference), alpha),
+  };
+  const groupSize = Math.min(privileged.length, unprivileged.length);
+  const positiveSize = Math.min(positives(privileged).length, positives(unprivileged).length);
+  const sampleSizes: Record<FairnessMetric, number> = {
+    disparate_impact: groupSize,
+    statistical_parity_difference: groupSize,
+    equal_opportunity_difference: positiveSize,
+    average_odds_difference: Math.min(positiveSize, negatives(privileged).length, negatives(unprivileged).length),
+  };
+
+  const evidenceFor = (key: FairnessMetric): MetricEvidence => {
+    const sorted = samples.map((sample) => sample[key]).sort((a, b) => a - b);
+    const lower = round(quantile(sorted, alpha / 2));
+    const upper = round(quantile(sorted, 1 - alpha / 2));
+    return {
+      interval: { lower, upper },
+      test: tests[key],
+      verdict: sampleSizes[key] < MIN_SAMPLE_SIZE ? 'insufficient_evidence' : intervalVerdict(key, lower, upper, thresholds),
+      sample_size: sampleSizes[key],
+    };
+  };
+  const metrics: FairnessMetricEvidence = {
+    disparate_impact: evidenceFor('disparate_impact'),
+    statistical_parity_difference: evidenceFor('statistical_parity_difference'),
+    equal_opportunity_difference: evidenceFor('equal_opportunity_difference'),
+    average_odds_difference: evidenceFor('average_odds_difference'),
+  };
+
+  const verdicts = FAIRNESS_METRICS.map(({ key }) => metrics[key].verdict);
+  return {
+    confidence_level: CONFIDENCE_LEVEL,
+    bootstrap_samples: BOOTSTRAP_SAMPLES,
+    min_sample_size: MIN_SAMPLE_SIZE,
+    verdict: verdicts.includes('unfair') ? 'unfair' : verdicts.includes('insufficient_evidence') ? 'insufficient_evidence' : 'fair',
+    metrics,
+  };
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { createDatasetAuditor, DataAuditConfig } from './diagnostics';
+
+function audit(rows: string[][], config: Partial<DataAuditConfig> = {}) {
+  const auditor = createDatasetAuditor('people.csv', {
+    sensitiveAttributes: ['sex'],
+    targetColumn: null,
+    positiveLabel: null,
+    ...config,
+  });
+  rows.forEach(auditor.addRow);
+  return auditor.finish();
+}
+
+// 40 rows per group: smoker is 30 yes / 10 no for A and 10 yes / 30 no for B,
+// approved is 30 of 40 for A and 15 of 40 for B
+const balancedRows = [
+  ['id', 'sex', 'smoker', 'approved'],
+  ...Array.from({ length: 80 }, (_, i) => {
+    const group = i < 40 ? 'A' : 'B';
+    const j = i % 40;
+    const smoker = (group === 'A' ? j < 30 : j < 10) ? 'yes' : 'no';
+    const approved = (group === 'A' ? j < 30 : j < 15) ? '1' : '0';
+    return [String(i + 1), group, smoker, approved];
+  }),
+];
+
+describe('createDatasetAuditor', () => {
+  it('reports group sizes and shares', () => {
+    const [sex] = audit(balancedRows).attributes;
+    expect(sex.representation).toEqual([
+      { group: 'A', count: 40, share: 0.5 },
+      { group: 'B', count: 40, share: 0.5 },
+    ]);
+    expect(sex.imbalanceRatio).toBe(1);
+  });
+
+  it("scores categorical proxies with Cramér's V", () => {
+    const [sex] = audit(balancedRows).attributes;
+    expect(sex.proxies).toContainEqual({ column: 'smoker', measure: 'cramers_v', strength: 0.5 });
+  });
+
+  it('skips row identifiers and the target column when scoring proxies', () => {
+    const [sex] = audit(balancedRows, { targetColumn: 'approved', positiveLabel: '1' }).attributes;
+    expect(sex.proxies.map(({ column }) => column)).toEqual(['smoker']);
+  });
+
+  it('scores numeric proxies with the correlation ratio', () => {
+    // Means 3.5 and 13.5: SS_between = 300 and SS_within = 35
+    const rows = [
+      ['sex', 'score'],
+      ...[16, 15, 14, 13, 12, 11].map((score) => ['B', String(score)]),
+      ...[6, 5, 4, 3, 2, 1].map((score) => ['A', String(score)]),
+    ];
+    const [sex] = audit(rows).attributes;
+    expect(sex.proxies).toEqual([{ column: 'score', measure: 'correlation_ratio', strength: 0.9463 }]);
+  });
+
+  it('compares label base rates between groups', () => {
+    const [sex] = audit(balancedRows, { targetColumn: 'approved', positiveLabel: '1' }).attributes;
+    expect(sex.baseRates).toEqual([
+      { group: 'A', labelled: 40, positives: 30, rate: 0.75 },
+      { group: 'B', labelled: 40, positives: 15, rate: 0.375 },
+    ]);
+    expect(sex.baseRateRatio).toBe(0.5);
+  });
+
+  it('skips base rates without a target column', () => {
+    const [sex] = audit(balancedRows).attributes;
+    expect(sex.baseRates).toBeNull();
+    expect(sex.baseRateRatio).toBeNull();
+  });
+
+  it('flags small and imbalanced groups and missing value gaps', () => {
+    const rows = [
+      ['sex', 'income'],
+      ...Array.from({ length: 60 }, () => ['X', '100']),
+      ...Array.from({ length: 10 }, (_, i) => ['Y', i < 5 ? '' : '100']),
+      ['NA', '100'],
+    ];
+    const report = audit(rows);
+    const [sex] = report.attributes;
+    expect(report.rowCount).toBe(71);
+    expect(sex.missingCount).toBe(1);
+    expect(sex.imbalanceRatio).toBe(0.1667);
+    expect(sex.missingValues).toEqual([{ column: 'income', rates: [{ group: 'X', rate: 0 }, { group: 'Y', rate: 0.5 }], gap: 0.5 }]);
+    expect(report.findings.map(({ check, severity }) => [check, severity])).toEqual([
+      ['representation', 'high'],
+      ['missing_values', 'high'],
+      ['representation', 'medium'],
+    ]);
+  });
+
+  it('orders findings with high severity first', () => {
+    const { findings } = audit(balancedRows, { targetColumn: 'approved', positiveLabel: '1' });
+    expect(findings.map(({ check }) => check)).toEqual(['base_rate', 'proxy']);
+    expect(findings.every(({ severity }) => severity === 'high')).toBe(true);
+  });
+
+  it('rejects a missing column', () => {
+    expect(() => audit([['age', 'income']])).toThrow('Column "sex" does not exist in people.csv');
+  });
+
+  it('rejects an attribute with too many groups', () => {
+    const rows = [['sex'], ...Array.from({ length: 51 }, (_, i) => [`group ${i}`])];
+    expect(() => audit(rows)).toThrow('sex has more than 50 distinct values');
+  });
+
+  it('rejects a file without a header row', () => {
+    expect(() => audit([])).toThrow('The file has no header row');
+  });
+});
@@ -0,0 +1,385 @@
+// Dataset-level bias diagnostics computed from the CSV alone, before any model exists
+import { isNullValue, MAX_CATEGORICAL_VALUES, MAX_GROUPS, readHeader } from './csv';
+
+export interface DataAuditConfig {
+  sensitiveAttributes: string[];
+  // Label column and its favourable value; base rates are skipped without them
+  targetColumn: string | null;
+  positiveLabel: string | null;
+}
+
+export interface GroupRepresentation {
+  group: string;
+  count: number;
+  share: number;
+}
+
+export interface GroupBaseRate {
+  group: string;
+  labelled: number;
+  positives: number;
+  rate: number;
+}
+
+// Cramér's V for categorical columns, the correlation ratio (eta) for numeric ones; both run from 0 to 1
+export type AssociationMeasure = 'cramers_v' | 'correlation_ratio';
+
+export interface ProxyVariable {
+  column: string;
+  measure: AssociationMeasure;
+  strength: number;
+}
+
+export interface MissingValueDisparity {
+  column: string;
+  rates: { group: string; rate: number }[];
+  // Highest minus lowest missing rate across groups
+  gap: number;
+}
+
+export interface AttributeAudit {
+  attribute: string;
+  // Rows with no value for the attribute, left out of every group
+  missingCount: number;
+  representation: GroupRepresentation[];
+  // Smallest group size over largest
+  imbalanceRatio: number;
+  baseRates: GroupBaseRate[] | null;
+  // Lowest base rate over highest
+  baseRateRatio: number | null;
+  // Strongest first; free-text columns and row identifiers are not scored
+  proxies: ProxyVariable[];
+  // Columns with missing values, largest gap first
+  missingValues: MissingValueDisparity[];
+}
+
+export type DataAuditCheck = 'representation' | 'base_rate' | 'proxy' | 'missing_values';
+export type FindingSeverity = 'high' | 'medium';
+
+export interface DataAuditFinding {
+  attribute: string;
+  check: DataAuditCheck;
+  severity: FindingSeverity;
+  message: string;
+}
+
+export interface DataAuditReport {
+  fileName: string;
+  rowCount: number;
+  attributes: AttributeAudit[];
+  // High severity first
+  findings: DataAuditFinding[];
+}
+
+export const DATA_AUDIT_CHECK_LABELS: Record<DataAuditCheck, string> = {
+  representation: 'Representation',
+  base_rate: 'Label base rate',
+  proxy: 'Proxy variable',
+  missing_values: 'Missing values',
+};
+
+export const ASSOCIATION_MEASURE_LABELS: Record<AssociationMeasure, string> = {
+  cramers_v: "Cramér's V",
+  correlation_ratio: 'Correlation ratio',
+};
+
+// Groups smaller than this are too small to audit reliably
+export const MIN_GROUP_RECORDS = 30;
+// Smallest over largest group below this counts as imbalanced
+export const IMBALANCE_RATIO_LIMIT = 0.5;
+// Four-fifths rule applied to the labels instead of predictions
+export const BASE_RATE_RATIO_LIMIT = 0.8;
+export const MODERATE_PROXY_STRENGTH = 0.3;
+export const STRONG_PROXY_STRENGTH = 0.5;
+// Differences in missing rate between groups, in absolute terms
+export const MISSING_GAP_LIMIT = 0.05;
+const HIGH_MISSING_GAP = 0.2;
+
+// Numeric columns with more values than this are compared by their means rather than as categories
+const NUMERIC_DISTINCT_THRESHOLD = 10;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+interface NumericStats {
+  count: number;
+  sum: number;
+  sumOfSquares: number;
+}
+
+interface ColumnAccumulator {
+  index: number;
+  name: string;
+  numeric: boolean;
+  // Integers that only ever increase down the file, i.e. a row identifier
+  sequential: boolean;
+  last: number;
+  // Value -> group -> rows; dropped once the column has too many values to be categorical
+  contingency: Map<string, Map<string, number>> | null;
+  numericStats: Map<string, NumericStats>;
+  missing: Map<string, number>;
+}
+
+interface AttributeAccumulator {
+  name: string;
+  index: number;
+  missingCount: number;
+  groups: Map<string, number>;
+  labelled: Map<string, number>;
+  positives: Map<string, number>;
+  columns: ColumnAccumulator[];
+}
+
+const increment = (map: Map<string, number>, key: string, by = 1) => map.set(key, (map.get(key) ?? 0) + by);
+
+// Chi-squared of the value-by-group table scaled to 0..1: V = sqrt(chi2 / (n * (min(values, groups) - 1))).
+// For example 40 rows in group A split 30 yes / 10 no and 40 in group B split 10 yes / 30 no expect 20
+// in every cell, so chi2 = 4 * 10^2 / 20 = 20 and V = sqrt(20 / (80 * 1)) = 0.5.
+function cramersV(contingency: Map<string, Map<string, number>>, groups: string[]) {
+  const rowTotals = new Map<string, number>();
+  const groupTotals = new Map<string, number>();
+  let total = 0;
+  for (const [value, counts] of contingency) {
+    for (const [group, count] of counts) {
+      increment(rowTotals, value, count);
+      increment(groupTotals, group, count);
+      total += count;
+    }
+  }
+  const dimension = Math.min(rowTotals.size, groups.filter((group) => groupTotals.has(group)).length);
+  if (total === 0 || dimension < 2) return 0;
+
+  let chiSquared = 0;
+  for (const [value, rowTotal] of rowTotals) {
+    for (const [group, groupTotal] of groupTotals) {
+      const expected = (rowTotal * groupTotal) / total;
+      const observed = contingency.get(value)?.get(group) ?? 0;
+      chiSquared += (observed - expected) ** 2 / expected;
+    }
+  }
+  return Math.sqrt(chiSquared / (total * (dimension - 1)));
+}
+
+// Share of the column's variance explained by group membership, square-rooted: eta = sqrt(SS_between / SS_total).
+// For example group A with values 1 and 3 (mean 2) and group B with 5 and 7 (mean 6) have an overall mean of 4,
+// so SS_total = 9 + 1 + 1 + 9 = 20, SS_between = 2 * 2^2 + 2 * 2^2 = 16 and eta = sqrt(16 / 20) ≈ 0.89.
+function correlationRatio(stats: Map<string, NumericStats>) {
+  let count = 0;
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (const group of stats.values()) {
+    count += group.count;
+    sum += group.sum;
+    sumOfSquares += group.sumOfSquares;
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  const totalVariance = sumOfSquares - count * mean * mean;
+  if (totalVariance <= 0) return 0;
+  let between = 0;
+  for (const group of stats.values()) {
+    if (group.count > 0) between += group.count * (group.sum / group.count - mean) ** 2;
+  }
+  return Math.sqrt(Math.min(1, between / totalVariance));
+}
+
+function scoreProxy(column: ColumnAccumulator, groups: string[]): ProxyVariable | null {
+  const distinct = column.contingency?.size ?? Infinity;
+  if (column.numeric && distinct > NUMERIC_DISTINCT_THRESHOLD) {
+    // An identifier only tracks the order of the rows, not anything about them
+    if (column.sequential) return null;
+    return { column: column.name, measure: 'correlation_ratio', strength: round(correlationRatio(column.numericStats)) };
+  }
+  if (column.contingency && distinct <= MAX_CATEGORICAL_VALUES) {
+    return { column: column.name, measure: 'cramers_v', strength: round(cramersV(column.contingency, groups)) };
+  }
+  return null;
+}
+
+function finishAttribute(attribute: AttributeAccumulator, config: DataAuditConfig): AttributeAudit {
+  const groups = [...attribute.groups.keys()].sort((a, b) => attribute.groups.get(b)! - attribute.groups.get(a)!);
+  const total = groups.reduce((sum, group) => sum + attribute.groups.get(group)!, 0);
+  const representation = groups.map((group) => ({
+    group,
+    count: attribute.groups.get(group)!,
+    share: round(attribute.groups.get(group)! / total),
+  }));
+  const counts = representation.map(({ count }) => count);
+
+  let baseRates: GroupBaseRate[] | null = null;
+  let baseRateRatio: number | null = null;
+  if (config.targetColumn && config.positiveLabel !== null) {
+    baseRates = groups
+      .filter((group) => (attribute.labelled.get(group) ?? 0) > 0)
+      .map((group) => {
+        const labelled = attribute.labelled.get(group)!;
+        const positives = attribute.positives.get(group) ?? 0;
+        return { group, labelled, positives, rate: round(positives / labelled) };
+      });
+    const rates = baseRates.map(({ rate }) => rate);
+    const highest = Math.max(...rates);
+    baseRateRatio = rates.length < 2 ? null : round(highest === 0 ? 1 : Math.min(...rates) / highest);
+  }
+
+  const proxies = attribute.columns
+    .filter((column) => column.name !== config.targetColumn)
+    .map((column) => scoreProxy(column, groups))
+    .filter((proxy): proxy is ProxyVariable => proxy !== null)
+    .sort((a, b) => b.strength - a.strength);
+
+  const missingValues = attribute.columns
+    .filter((column) => column.missing.size > 0)
+    .map((column) => {
+      const rates = groups.map((group) => ({ group, rate: round((column.missing.get(group) ?? 0) / attribute.groups.get(group)!) }));
+      const values = rates.map(({ rate }) => rate);
+      return { column: column.name, rates, gap: round(Math.max(...values) - Math.min(...values)) };
+    })
+    .sort((a, b) => b.gap - a.gap);
+
+  return {
+    attribute: attribute.name,
+    missingCount: attribute.missingCount,
+    representation,
+    imbalanceRatio: counts.length === 0 ? 1 : round(Math.min(...counts) / Math.max(...counts)),
+    baseRates,
+    baseRateRatio,
+    proxies,
+    missingValues,
+  };
+}
+
+function findingsFor(audit: AttributeAudit): DataAuditFinding[] {
+  const findings: DataAuditFinding[] = [];
+  const add = (check: DataAuditCheck, severity: FindingSeverity, message: string) =>
+    findings.push({ attribute: audit.attribute, check, severity, message });
+
+  const small = audit.representation.filter(({ count }) => count < MIN_GROUP_RECORDS);
+  if (small.length > 0) {
+    add('representation', 'high', `${small.map(({ group }) => group).join(', ')} ${small.length === 1 ? 'has' : 'have'} fewer than ${MIN_GROUP_RECORDS} records; metrics for ${small.length === 1 ? 'it' : 'them'} will be unreliable`);
+  }
+  if (audit.representation.length > 1 && audit.imbalanceRatio < IMBALANCE_RATIO_LIMIT) {
+    const largest = audit.representation[0];
+    const smallest = audit.representation[audit.representation.length - 1];
+    add('representation', 'medium', `${smallest.group} makes up ${percent(smallest.share)} of rows against ${percent(largest.share)} for ${largest.group}`);
+  }
+
+  if (audit.baseRates && audit.baseRateRatio !== null && audit.baseRateRatio < BASE_RATE_RATIO_LIMIT) {
+    const sorted = [...audit.baseRates].sort((a, b) => a.rate - b.rate);
+    const lowest = sorted[0];
+    const highest = sorted[sorted.length - 1];
+    add('base_rate', 'high', `${lowest.group} has the favourable label ${percent(lowest.rate)} of the time against ${percent(highest.rate)} for ${highest.group}; a model will learn this gap`);
+  }
+
+  for (const proxy of audit.proxies) {
+    if (proxy.strength < MODERATE_PROXY_STRENGTH) break;
+    add('proxy', proxy.strength >= STRONG_PROXY_STRENGTH ? 'high' : 'medium', `${proxy.column} is associated with ${audit.attribute} (${ASSOCIATION_MEASURE_LABELS[proxy.measure]} ${proxy.strength.toFixed(2)}) and can stand in for it`);
+  }
+
+  for (const disparity of audit.missingValues) {
+    if (disparity.gap < MISSING_GAP_LIMIT) break;
+    const sorted = [...disparity.rates].sort((a, b) => a.rate - b.rate);
+    add('missing_values', disparity.gap >= HIGH_MISSING_GAP ? 'high' : 'medium', `${disparity.column} is missing for ${percent(sorted[sorted.length - 1].rate)} of ${sorted[sorted.length - 1].group} against ${percent(sorted[0].rate)} of ${sorted[0].group}`);
+  }
+  return findings;
+}
+
+// Accumulates the diagnostics one row at a time so large files never sit in memory
+export function createDatasetAuditor(fileName: string, config: DataAuditConfig) {
+  let attributes: AttributeAccumulator[] | null = null;
+  let target = -1;
+  let rowCount = 0;
+
+  const start = (header: string[]) => {
+    const names = readHeader(header);
+    const indexOf = (name: string) => {
+      const index = names.indexOf(name);
+      if (index === -1) throw new Error(`Column "${name}" does not exist in ${fileName}`);
+      return index;
+    };
+    target = config.targetColumn ? indexOf(config.targetColumn) : -1;
+    attributes = config.sensitiveAttributes.map((name) => {
+      const index = indexOf(name);
+      return {
+        name,
+        index,
+        missingCount: 0,
+        groups: new Map(),
+        labelled: new Map(),
+        positives: new Map(),
+        columns: names.flatMap((columnName, columnIndex) =>
+          columnIndex === index
+            ? []
+            : [{ index: columnIndex, name: columnName, numeric: true, sequential: true, last: -Infinity, contingency: new Map(), numericStats: new Map(), missing: new Map() }]
+        ),
+      };
+    });
+  };
+
+  const addRow = (row: string[]) => {
+    if (!attributes) {
+      start(row);
+      return;
+    }
+    rowCount += 1;
+    const label = target === -1 ? '' : (row[target] ?? '').trim();
+
+    for (const attribute of attributes) {
+      const group = (row[attribute.index] ?? '').trim();
+      if (isNullValue(group)) {
+        attribute.missingCount += 1;
+        continue;
+      }
+      if (!attribute.groups.has(group) && attribute.groups.size >= MAX_GROUPS) {
+        throw new Error(`${attribute.name} has more than ${MAX_GROUPS} distinct values; choose a categorical column`);
+      }
+      increment(attribute.groups, group);
+      if (target !== -1 && !isNullValue(label)) {
+        increment(attribute.labelled, group);
+        if (label === config.positiveLabel) increment(attribute.positives, group);
+      }
+
+      for (const column of attribute.columns) {
+        const value = (row[column.index] ?? '').trim();
+        if (isNullValue(value)) {
+          increment(column.missing, group);
+          continue;
+        }
+        if (column.contingency) {
+          let counts = column.contingency.get(value);
+          if (!counts && column.contingency.size >= MAX_CATEGORICAL_VALUES) {
+            // Too many values to be categorical
+            column.contingency = null;
+          } else {
+            if (!counts) column.contingency.set(value, (counts = new Map()));
+            increment(counts, group);
+          }
+        }
+        const number = Number(value);
+        if (column.numeric && Number.isNaN(number)) {
+          column.numeric = false;
+        } else if (column.numeric) {
+          if (!Number.isInteger(number) || number <= column.last) column.sequential = false;
+          column.last = number;
+          const stats = column.numericStats.get(group) ?? { count: 0, sum: 0, sumOfSquares: 0 };
+          stats.count += 1;
+          stats.sum += number;
+          stats.sumOfSquares += number * number;
+          column.numericStats.set(group, stats);
+        }
+      }
+    }
+  };
+
+  const finish = (): DataAuditReport => {
+    if (!attributes) {
+      throw new Error('The file has no header row');
+    }
+    const audits = attributes.map((attribute) => finishAttribute(attribute, config));
+    const findings = audits
+      .flatMap(findingsFor)
+      .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'high' ? -1 : 1));
+    return { fileName, rowCount, attributes: audits, findings };
+  };
+
+  return { addRow, finish };
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import type { BiasDetectionResult, FairnessMetrics, GroupPairMetrics } from './api';
+import { compareBiasResults, findWorstComparison, getBiasSeverity, getThresholdLabel, isMetricFair } from './fairness';
+import type { FairnessThresholds } from './policies';
+
+const thresholds: FairnessThresholds = {
+  disparate_impact: 0.8,
+  statistical_parity_difference: 0.1,
+  equal_opportunity_difference: 0.1,
+  average_odds_difference: 0.1,
+};
+
+const fairMetrics: FairnessMetrics = {
+  disparate_impact: 0.95,
+  statistical_parity_difference: 0.02,
+  equal_opportunity_difference: -0.03,
+  average_odds_difference: 0.01,
+};
+
+const result = (metrics: Partial<FairnessMetrics>): BiasDetectionResult => ({
+  metrics: { ...fairMetrics, ...metrics },
+  audit_status: 'COMPLIANT',
+  recommendations: [],
+  record_count: 100,
+});
+
+const pair = (group: string, metrics: Partial<FairnessMetrics>): GroupPairMetrics => ({
+  attribute: 'race',
+  reference_group: 'White',
+  group,
+  metrics: { ...fairMetrics, ...metrics },
+  record_count: 50,
+});
+
+describe('isMetricFair', () => {
+  it('treats disparate impact as a minimum ratio', () => {
+    expect(isMetricFair('disparate_impact', 0.8, thresholds)).toBe(true);
+    expect(isMetricFair('disparate_impact', 0.79, thresholds)).toBe(false);
+    expect(isMetricFair('disparate_impact', 1.4, thresholds)).toBe(true);
+  });
+
+  it('allows the other metrics within ± their limit', () => {
+    expect(isMetricFair('statistical_parity_difference', -0.1, thresholds)).toBe(true);
+    expect(isMetricFair('statistical_parity_difference', 0.11, thresholds)).toBe(false);
+    expect(isMetricFair('average_odds_difference', -0.2, thresholds)).toBe(false);
+  });
+});
+
+describe('getThresholdLabel', () => {
+  it('labels the ratio with a minimum and differences with a band', () => {
+    expect(getThresholdLabel('disparate_impact', thresholds)).toBe('≥ 0.8');
+    expect(getThresholdLabel('equal_opportunity_difference', thresholds)).toBe('±0.1');
+  });
+});
+
+describe('compareBiasResults', () => {
+  it('reports crossings and an improved verdict', () => {
+    const comparison = compareBiasResults(result({ disparate_impact: 0.7 }), result({ disparate_impact: 0.85 }), thresholds);
+    const disparateImpact = comparison.metrics[0];
+    expect(disparateImpact).toMatchObject({ baselineFair: false, candidateFair: true, crossed: 'now_passing', trend: 'improved' });
+    expect(disparateImpact.delta).toBeCloseTo(0.15);
+    expect(comparison.verdict).toBe('improved');
+  });
+
+  it('measures trends by distance from parity rather than sign', () => {
+    const comparison = compareBiasResults(
+      result({ statistical_parity_difference: -0.08 }),
+      result({ statistical_parity_difference: 0.03 }),
+      thresholds
+    );
+    expect(comparison.metrics[1]).toMatchObject({ crossed: null, trend: 'improved' });
+  });
+
+  it('lets threshold crossings outweigh smaller movements', () => {
+    const comparison = compareBiasResults(
+      result({ disparate_impact: 0.9, average_odds_difference: 0.09 }),
+      result({ disparate_impact: 0.99, average_odds_difference: 0.12 }),
+      thresholds
+    );
+    expect(comparison.verdict).toBe('regressed');
+  });
+
+  it('calls opposite crossings mixed', () => {
+    const comparison = compareBiasResults(
+      result({ disparate_impact: 0.7, average_odds_difference: 0.05 }),
+      result({ disparate_impact: 0.9, average_odds_difference: 0.2 }),
+      thresholds
+    );
+    expect(comparison.verdict).toBe('mixed');
+  });
+
+  it('ignores changes below the comparison tolerance', () => {
+    const comparison = compareBiasResults(result({}), result({ statistical_parity_difference: 0.022 }), thresholds);
+    expect(comparison.metrics.every((metric) => metric.trend === 'unchanged')).toBe(true);
+    expect(comparison.verdict).toBe('unchanged');
+  });
+});
+
+describe('getBiasSeverity', () => {
+  it('stays below 1 while every metric passes', () => {
+    expect(getBiasSeverity(fairMetrics, thresholds)).toBeLessThan(1);
+  });
+
+  it('counts failing metrics and breaks ties by distance from parity', () => {
+    const mild = getBiasSeverity({ ...fairMetrics, disparate_impact: 0.75 }, thresholds);
+    const severe = getBiasSeverity({ ...fairMetrics, disparate_impact: 0.4 }, thresholds);
+    const twoFailing = getBiasSeverity({ ...fairMetrics, disparate_impact: 0.75, average_odds_difference: 0.15 }, thresholds);
+    expect(Math.floor(mild)).toBe(1);
+    expect(severe).toBeGreaterThan(mild);
+    expect(Math.floor(severe)).toBe(1);
+    expect(Math.floor(twoFailing)).toBe(2);
+  });
+});
+
+describe('findWorstComparison', () => {
+  it('returns the pair furthest from parity', () => {
+    const worst = pair('Black', { disparate_impact: 0.5 });
+    expect(findWorstComparison([pair('Asian', { disparate_impact: 0.75 }), worst], thresholds)).toBe(worst);
+  });
+
+  it('keeps the first pair on a tie', () => {
+    const first = pair('Asian', { disparate_impact: 0.6 });
+    expect(findWorstComparison([first, pair('Black', { disparate_impact: 0.6 })], thresholds)).toBe(first);
+  });
+
+  it('returns null when every pair passes', () => {
+    expect(findWorstComparison([pair('Asian', { disparate_impact: 0.85 }), pair('Black', {})], thresholds)).toBeNull();
+    expect(findWorstComparison([], thresholds)).toBeNull();
+  });
+});
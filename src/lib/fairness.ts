@@ -0,0 +1,143 @@
+// Fairness metric definitions and pass/fail thresholds
+import type { BiasDetectionResult, EvidenceVerdict, FairnessMetrics, GroupPairMetrics, SignificanceTest } from './api';
+import type { FairnessThresholds } from './policies';
+
+export type FairnessMetric = keyof FairnessMetrics;
+
+export const FAIRNESS_METRICS: Array<{ key: FairnessMetric; label: string }> = [
+  { key: 'disparate_impact', label: 'Disparate Impact' },
+  { key: 'statistical_parity_difference', label: 'Statistical Parity Difference' },
+  { key: 'equal_opportunity_difference', label: 'Equal Opportunity Difference' },
+  { key: 'average_odds_difference', label: 'Average Odds Difference' },
+];
+
+export const EVIDENCE_VERDICT_LABELS: Record<EvidenceVerdict, string> = {
+  fair: 'Fair',
+  unfair: 'Unfair',
+  insufficient_evidence: 'Insufficient evidence',
+};
+
+export const SIGNIFICANCE_TEST_LABELS: Record<SignificanceTest['test'], string> = {
+  chi_squared: 'chi-squared',
+  fisher_exact: "Fisher's exact",
+  bootstrap: 'bootstrap',
+};
+
+// Changes smaller than this are treated as noise when comparing runs
+const COMPARISON_TOLERANCE = 0.005;
+
+// Disparate impact must reach its minimum ratio, the other metrics stay within ± their limit
+export function isMetricFair(metric: FairnessMetric, value: number, thresholds: FairnessThresholds) {
+  if (metric === 'disparate_impact') {
+    return value >= thresholds.disparate_impact;
+  }
+  return Math.abs(value) <= thresholds[metric];
+}
+
+export function getThresholdLabel(metric: FairnessMetric, thresholds: FairnessThresholds) {
+  return metric === 'disparate_impact' ? `≥ ${thresholds.disparate_impact}` : `±${thresholds[metric]}`;
+}
+
+// Width of the passing band measured from perfect parity
+function allowedDistance(metric: FairnessMetric, thresholds: FairnessThresholds) {
+  return metric === 'disparate_impact' ? 1 - thresholds.disparate_impact : thresholds[metric];
+}
+
+// How far a metric is from perfect parity (1 for the ratio, 0 for differences)
+function distanceFromParity(metric: string, value: number) {
+  return metric === 'disparate_impact' ? Math.abs(1 - value) : Math.abs(value);
+}
+
+export type MetricTrend = 'improved' | 'regressed' | 'unchanged';
+
+export interface MetricComparison {
+  metric: FairnessMetric;
+  label: string;
+  baseline: number;
+  candidate: number;
+  delta: number;
+  baselineFair: boolean;
+  candidateFair: boolean;
+  // Set when the candidate lands on the other side of the threshold
+  crossed: 'now_passing' | 'now_failing' | null;
+  trend: MetricTrend;
+}
+
+export type ComparisonVerdict = 'improved' | 'regressed' | 'mixed' | 'unchanged';
+
+export interface BiasComparison {
+  metrics: MetricComparison[];
+  verdict: ComparisonVerdict;
+}
+
+export function compareBiasResults(
+  baseline: BiasDetectionResult,
+  candidate: BiasDetectionResult,
+  thresholds: FairnessThresholds
+): BiasComparison {
+  const metrics = FAIRNESS_METRICS.map(({ key, label }): MetricComparison => {
+    const before = baseline.metrics[key];
+    const after = candidate.metrics[key];
+    const baselineFair = isMetricFair(key, before, thresholds);
+    const candidateFair = isMetricFair(key, after, thresholds);
+    const change = distanceFromParity(key, before) - distanceFromParity(key, after);
+
+    return {
+      metric: key,
+      label,
+      baseline: before,
+      candidate: after,
+      delta: after - before,
+      baselineFair,
+      candidateFair,
+      crossed: baselineFair === candidateFair ? null : candidateFair ? 'now_passing' : 'now_failing',
+      trend: Math.abs(change) < COMPARISON_TOLERANCE ? 'unchanged' : change > 0 ? 'improved' : 'regressed',
+    };
+  });
+
+  return { metrics, verdict: getVerdict(metrics) };
+}
+
+// Threshold crossings outweigh small movements on either side of a threshold
+function getVerdict(metrics: MetricComparison[]): ComparisonVerdict {
+  const nowPassing = metrics.some(m => m.crossed === 'now_passing');
+  const nowFailing = metrics.some(m => m.crossed === 'now_failing');
+  if (nowPassing || nowFailing) {
+    return nowPassing && nowFailing ? 'mixed' : nowPassing ? 'improved' : 'regressed';
+  }
+
+  const improved = metrics.some(m => m.trend === 'improved');
+  const regressed = metrics.some(m => m.trend === 'regressed');
+  if (improved && regressed) return 'mixed';
+  if (improved) return 'improved';
+  if (regressed) return 'regressed';
+  return 'unchanged';
+}
+
+// Number of failing metrics, with the largest distance from parity (relative to
+// the allowed band) as tie-breaker so there is always a worst group
+export function getBiasSeverity(metrics: FairnessMetrics, thresholds: FairnessThresholds) {
+  let failing = 0;
+  let worstRatio = 0;
+  for (const { key } of FAIRNESS_METRICS) {
+    const value = metrics[key];
+    if (!isMetricFair(key, value, thresholds)) failing++;
+    worstRatio = Math.max(worstRatio, distanceFromParity(key, value) / allowedDistance(key, thresholds));
+  }
+  return failing + Math.min(worstRatio, 10) / 10.1;
+}
+
+// The pair furthest from parity among those failing at least one metric, or null when every pair passes
+export function findWorstComparison(comparisons: GroupPairMetrics[], thresholds: FairnessThresholds) {
+  let worst: GroupPairMetrics | null = null;
+  let worstSeverity = -1;
+  for (const comparison of comparisons) {
+    const severity = getBiasSeverity(comparison.metrics, thresholds);
+    if (severity > worstSeverity) {
+      worst = comparison;
+      worstSeverity = severity;
+    }
+  }
+  // Below 1 no metric fails
+  return worstSeverity >= 1 ? worst : null;
+}
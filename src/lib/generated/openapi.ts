@@ -0,0 +1,1160 @@
+// Generated by scripts/generate-api.mjs from openapi.json. Do not edit by hand;
+// change the contract and run `npm run generate:api` instead.
+import { z } from 'zod';
+
+export interface DashboardData {
+  timestamp: string;
+  total_models_audited: number;
+  compliant_models: number;
+  non_compliant_models: number;
+  compliance_rate: number;
+  top_bias_source: string;
+  most_risky_model: string;
+  audit_status: string;
+  risk_score: number;
+  last_audit: string;
+  pending_actions: number;
+  trend: string;
+}
+
+export interface ModelRisk {
+  model_name: string;
+  version: string;
+  status: string;
+  risk_score: number;
+  bias_source: string;
+  disparate_impact: number;
+  last_audited: string;
+}
+
+export interface ModelStatusChange {
+  model_name: string;
+  version: string;
+  from_status: string | null;
+  to_status: string;
+  risk_score: number;
+}
+
+export interface ComplianceTrend {
+  week: string;
+  compliant_models: number;
+  non_compliant_models: number;
+  average_risk_score: number;
+  // Models whose status differs from the previous week; from_status is null for newly audited models
+  status_changes: Array<ModelStatusChange>;
+}
+
+export type JobStatus = 'queued' | 'processing' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface AnalysisJob {
+  job_id: string;
+  status: JobStatus;
+  // Fraction of the work done, from 0 to 1
+  progress: number;
+  // What the server is working on
+  message?: string | null;
+  // Result computed so far, shaped like the final result
+  partial_result?: unknown | null;
+  // Set once the job succeeds; shaped like the blocking endpoint's response
+  result?: unknown | null;
+  error?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ApprovalState = 'draft' | 'under_review' | 'approved' | 'retired';
+
+export type RiskTier = 'minimal' | 'limited' | 'high' | 'unacceptable';
+
+export interface AuditArtifactInput {
+  type: 'bias_detection' | 'bias_mitigation' | 'explainability' | 'compliance_report';
+  title: string;
+  created_at: string;
+  url?: string;
+}
+
+export interface AuditArtifact {
+  artifact_id: string;
+  type: 'bias_detection' | 'bias_mitigation' | 'explainability' | 'compliance_report';
+  title: string;
+  created_at: string;
+  url?: string;
+}
+
+export interface ApprovalEvent {
+  from_state: ApprovalState | null;
+  to_state: ApprovalState;
+  actor: string;
+  comment: string;
+  timestamp: string;
+}
+
+export interface ApprovalTransition {
+  approval_state: ApprovalState;
+  comment: string;
+}
+
+export interface GovernanceModelInput {
+  model_name: string;
+  version: string;
+  owner: string;
+  risk_tier: RiskTier;
+}
+
+export interface GovernanceModelUpdate {
+  owner?: string;
+  risk_tier?: RiskTier;
+}
+
+export interface GovernanceModel {
+  model_name: string;
+  version: string;
+  owner: string;
+  risk_tier: RiskTier;
+  approval_state: ApprovalState;
+  audit_artifacts: Array<AuditArtifact>;
+  approval_history: Array<ApprovalEvent>;
+  updated_at: string;
+}
+
+export interface FairnessMetrics {
+  disparate_impact: number;
+  statistical_parity_difference: number;
+  equal_opportunity_difference: number;
+  average_odds_difference: number;
+}
+
+export interface UploadSessionRequest {
+  file_name: string;
+  // Total file size in bytes
+  size: number;
+}
+
+export interface UploadSession {
+  upload_id: string;
+  file_name: string;
+  size: number;
+  // Offset the next chunk must start at
+  received_bytes: number;
+  complete: boolean;
+}
+
+export interface UploadChunk {
+  // Byte offset of the chunk; must equal received_bytes
+  offset: number;
+  chunk: Blob;
+}
+
+export interface BiasDetectionRequest {
+  // Dataset sent inline; omit when upload_id is given
+  file?: Blob;
+  // Completed chunked upload to analyse instead of file
+  upload_id?: string;
+  model_name: string;
+  model_version: string;
+  target_variable: string;
+  sensitive_attribute: string;
+  privileged_group: string;
+  unprivileged_group: string;
+  fairness_thresholds?: FairnessMetrics;
+}
+
+export interface BiasDetectionResult {
+  metrics: FairnessMetrics;
+  audit_status: string;
+  recommendations: Array<string>;
+  record_count: number;
+  group_performance?: GroupPerformanceComparison;
+  evidence?: FairnessEvidence;
+}
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+export interface SignificanceTest {
+  // Fisher's exact test replaces chi-squared when an expected cell count is below 5
+  test: 'chi_squared' | 'fisher_exact' | 'bootstrap';
+  // Test statistic; null for tests without one
+  statistic: number | null;
+  // Two-sided p-value for no difference between the groups
+  p_value: number;
+  // p_value is below 1 - confidence_level
+  significant: boolean;
+}
+
+export type EvidenceVerdict = 'fair' | 'unfair' | 'insufficient_evidence';
+
+export interface MetricEvidence {
+  interval: ConfidenceInterval;
+  test: SignificanceTest;
+  // fair or unfair only when the whole interval falls on one side of the threshold and sample_size is large enough
+  verdict: EvidenceVerdict;
+  // Records in the smaller group the metric is computed on
+  sample_size: number;
+}
+
+export interface FairnessMetricEvidence {
+  disparate_impact: MetricEvidence;
+  statistical_parity_difference: MetricEvidence;
+  equal_opportunity_difference: MetricEvidence;
+  average_odds_difference: MetricEvidence;
+}
+
+export interface FairnessEvidence {
+  confidence_level: number;
+  bootstrap_samples: number;
+  // Smallest sample_size that can support a fair or unfair verdict
+  min_sample_size: number;
+  // unfair when any metric is, otherwise insufficient_evidence when any metric is
+  verdict: EvidenceVerdict;
+  metrics: FairnessMetricEvidence;
+}
+
+export interface ConfusionMatrix {
+  true_positives: number;
+  false_positives: number;
+  true_negatives: number;
+  false_negatives: number;
+}
+
+export interface CalibrationBin {
+  // Average model score of the rows in the bin
+  mean_score: number;
+  // Share of those rows with the positive label
+  observed_rate: number;
+  count: number;
+}
+
+export interface GroupPerformance {
+  group: string;
+  record_count: number;
+  confusion_matrix: ConfusionMatrix;
+  selection_rate: number;
+  true_positive_rate: number;
+  false_positive_rate: number;
+  false_negative_rate: number;
+  precision: number;
+  // Non-empty score bins in ascending order
+  calibration: Array<CalibrationBin>;
+}
+
+export interface GroupPerformanceComparison {
+  privileged: GroupPerformance;
+  unprivileged: GroupPerformance;
+}
+
+export interface ThresholdSweepRequest {
+  // Dataset sent inline; omit when upload_id is given
+  file?: Blob;
+  // Completed chunked upload to analyse instead of file
+  upload_id?: string;
+  model_name: string;
+  model_version: string;
+  target_variable: string;
+  sensitive_attribute: string;
+  privileged_group: string;
+  unprivileged_group: string;
+  // Decision thresholds between 0 and 1 to evaluate; every 0.05 from 0.05 to 0.95 when omitted
+  score_thresholds?: Array<number>;
+  fairness_thresholds?: FairnessMetrics;
+}
+
+export interface ThresholdPoint {
+  threshold: number;
+  metrics: FairnessMetrics;
+  accuracy: number;
+  // Share of all rows predicted positive
+  selection_rate: number;
+  // Every fairness metric passes the request's fairness_thresholds
+  within_thresholds: boolean;
+}
+
+export interface ThresholdSweepResult {
+  // Threshold used by bias detection
+  default_threshold: number;
+  points: Array<ThresholdPoint>;
+  record_count: number;
+}
+
+export type MitigationTechnique = 'reweighing' | 'threshold_adjustment' | 'disparate_impact_remover' | 'reject_option_classification';
+
+export interface MitigationRequest {
+  // Dataset sent inline; omit when upload_id is given
+  file?: Blob;
+  // Completed chunked upload to analyse instead of file
+  upload_id?: string;
+  model_name: string;
+  model_version: string;
+  target_variable: string;
+  sensitive_attribute: string;
+  privileged_group: string;
+  unprivileged_group: string;
+  technique: MitigationTechnique;
+  // Disparate impact remover only: 0 leaves features unchanged, 1 fully aligns their distributions across groups; 1 when omitted
+  repair_level?: number;
+  fairness_thresholds?: FairnessMetrics;
+}
+
+export interface MitigationEvaluation {
+  metrics: FairnessMetrics;
+  accuracy: number;
+  audit_status: string;
+}
+
+export interface MitigationResult {
+  // Refers to the mitigated configuration when accepting it
+  mitigation_id: string;
+  technique: MitigationTechnique;
+  before: MitigationEvaluation;
+  after: MitigationEvaluation;
+  // Fitted settings, e.g. the decision threshold for each group
+  parameters: Record<string, number>;
+  summary: string;
+  record_count: number;
+}
+
+export interface MitigationAcceptance {
+  // Version to register the mitigated model under
+  version: string;
+  // Defaults to the owner of the mitigated version
+  owner?: string;
+  risk_tier?: RiskTier;
+}
+
+export interface GroupAnalysisConfig {
+  sensitive_attributes: Array<string>;
+  // Keyed by sensitive attribute
+  reference_groups: Record<string, string>;
+  comparison_groups: Record<string, Array<string>>;
+  intersectional: boolean;
+}
+
+export interface GroupBiasDetectionRequest {
+  // Dataset sent inline; omit when upload_id is given
+  file?: Blob;
+  // Completed chunked upload to analyse instead of file
+  upload_id?: string;
+  model_name: string;
+  model_version: string;
+  target_variable: string;
+  sensitive_attributes: Array<string>;
+  reference_groups: Record<string, string>;
+  comparison_groups: Record<string, Array<string>>;
+  intersectional: boolean;
+  fairness_thresholds?: FairnessMetrics;
+}
+
+export interface GroupPairMetrics {
+  // Single attribute ("gender") or an intersection ("gender × race")
+  attribute: string;
+  reference_group: string;
+  group: string;
+  metrics: FairnessMetrics;
+  record_count: number;
+}
+
+export interface GroupBiasResult {
+  comparisons: Array<GroupPairMetrics>;
+  audit_status: string;
+  recommendations: Array<string>;
+  record_count: number;
+}
+
+export interface ExplainRequest {
+  // Dataset sent inline; omit when upload_id is given
+  file?: Blob;
+  // Completed chunked upload to analyse instead of file
+  upload_id?: string;
+  model_name: string;
+  model_version: string;
+  target_variable: string;
+  sensitive_attribute: string;
+  instance_index: number;
+  role: string;
+}
+
+export interface ExplainabilityResult {
+  model_name: string;
+  model_version: string;
+  instance_index: number;
+  shap_values: Record<string, number>;
+  // Expected model output over the dataset; base_value plus the SHAP values gives prediction
+  base_value?: number;
+  // Model output for the instance
+  prediction?: number;
+  feature_importance: Array<{
+    feature: string;
+    importance: number;
+    direction: string;
+  }>;
+  natural_language_explanation: string;
+  role: string;
+  recommendations: Array<string>;
+}
+
+export interface WhatIfRequest {
+  // Dataset sent inline; omit when upload_id is given
+  file?: Blob;
+  // Completed chunked upload to analyse instead of file
+  upload_id?: string;
+  model_name: string;
+  model_version: string;
+  target_variable: string;
+  sensitive_attribute: string;
+  instance_index: number;
+  // Replacement values by column; other columns keep the row's values
+  feature_values: Record<string, string>;
+}
+
+export interface InstancePrediction {
+  prediction: number;
+  outcome: 'positive' | 'negative';
+  shap_values: Record<string, number>;
+}
+
+export interface WhatIfResult {
+  instance_index: number;
+  base_value: number;
+  original: InstancePrediction;
+  modified: InstancePrediction;
+}
+
+export interface CounterfactualRequest {
+  // Dataset sent inline; omit when upload_id is given
+  file?: Blob;
+  // Completed chunked upload to analyse instead of file
+  upload_id?: string;
+  model_name: string;
+  model_version: string;
+  target_variable: string;
+  // Held at the row's value in every counterfactual
+  sensitive_attribute: string;
+  instance_index: number;
+  max_results?: number;
+}
+
+export interface FeatureChange {
+  feature: string;
+  from_value: string;
+  to_value: string;
+}
+
+export interface Counterfactual {
+  changes: Array<FeatureChange>;
+  prediction: number;
+  outcome: 'positive' | 'negative';
+}
+
+export interface CounterfactualResult {
+  instance_index: number;
+  prediction: number;
+  outcome: 'positive' | 'negative';
+  fixed_features: Array<string>;
+  counterfactuals: Array<Counterfactual>;
+}
+
+export interface GlobalExplainRequest {
+  // Dataset sent inline; omit when upload_id is given
+  file?: Blob;
+  // Completed chunked upload to analyse instead of file
+  upload_id?: string;
+  model_name: string;
+  model_version: string;
+  target_variable: string;
+  sensitive_attribute: string;
+  // Rows to explain, spread evenly over the dataset; every row when omitted
+  sample_size?: number;
+}
+
+export interface GlobalExplanationInstance {
+  instance_index: number;
+  prediction: number;
+  // One value per entry in features
+  shap_values: Array<number>;
+  // The row's raw value for each entry in features
+  feature_values: Array<string>;
+}
+
+export interface FeatureShapSummary {
+  feature: string;
+  mean_abs_shap: number;
+}
+
+export interface GlobalExplainabilityResult {
+  model_name: string;
+  model_version: string;
+  // Rows in the dataset, of which instances is a sample
+  row_count: number;
+  base_value: number;
+  features: Array<string>;
+  instances: Array<GlobalExplanationInstance>;
+  // Features ranked by mean absolute SHAP value, largest first
+  mean_abs_shap: Array<FeatureShapSummary>;
+}
+
+export interface ComplianceReportRequest {
+  // Dataset sent inline; omit when upload_id is given
+  file?: Blob;
+  // Completed chunked upload to analyse instead of file
+  upload_id?: string;
+  model_name: string;
+  model_version: string;
+  target_variable: string;
+  sensitive_attribute: string;
+  privileged_group: string;
+  unprivileged_group: string;
+  role: string;
+  fairness_thresholds?: FairnessMetrics;
+}
+
+export type RegulationStatus = 'compliant' | 'non-compliant' | 'pending';
+
+export interface ComplianceEvidence {
+  metric: string;
+  value: number;
+  threshold: string;
+  passed: boolean;
+}
+
+export interface ComplianceClause {
+  clause_id: string;
+  title: string;
+  status: RegulationStatus;
+  evidence: Array<ComplianceEvidence>;
+}
+
+export interface RegulationResult {
+  regulation_id: string;
+  name: string;
+  status: RegulationStatus;
+  summary: string;
+  clauses: Array<ComplianceClause>;
+}
+
+export interface ReportSection {
+  title: string;
+  body: string;
+}
+
+export interface ComplianceResult {
+  report_id: string;
+  model_name: string;
+  model_version: string;
+  role: string;
+  audit_status: string;
+  regulations: Array<RegulationResult>;
+  // Sections of the PDF, for display before download
+  preview: Array<ReportSection>;
+  generated_at: string;
+}
+
+export const DashboardDataSchema = z.object({
+  timestamp: z.string(),
+  total_models_audited: z.number().int(),
+  compliant_models: z.number().int(),
+  non_compliant_models: z.number().int(),
+  compliance_rate: z.number(),
+  top_bias_source: z.string(),
+  most_risky_model: z.string(),
+  audit_status: z.string(),
+  risk_score: z.number(),
+  last_audit: z.string(),
+  pending_actions: z.number().int(),
+  trend: z.string(),
+});
+
+export const ModelRiskSchema = z.object({
+  model_name: z.string(),
+  version: z.string(),
+  status: z.string(),
+  risk_score: z.number(),
+  bias_source: z.string(),
+  disparate_impact: z.number(),
+  last_audited: z.string(),
+});
+
+export const ModelStatusChangeSchema = z.object({
+  model_name: z.string(),
+  version: z.string(),
+  from_status: z.string().nullable(),
+  to_status: z.string(),
+  risk_score: z.number(),
+});
+
+export const ComplianceTrendSchema = z.object({
+  week: z.string(),
+  compliant_models: z.number().int(),
+  non_compliant_models: z.number().int(),
+  average_risk_score: z.number(),
+  status_changes: z.array(ModelStatusChangeSchema),
+});
+
+export const JobStatusSchema = z.enum(['queued', 'processing', 'succeeded', 'failed', 'cancelled']);
+
+export const AnalysisJobSchema = z.object({
+  job_id: z.string(),
+  status: JobStatusSchema,
+  progress: z.number(),
+  message: z.string().nullable().optional(),
+  partial_result: z.unknown().nullable().optional(),
+  result: z.unknown().nullable().optional(),
+  error: z.string().nullable().optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const ApprovalStateSchema = z.enum(['draft', 'under_review', 'approved', 'retired']);
+
+export const RiskTierSchema = z.enum(['minimal', 'limited', 'high', 'unacceptable']);
+
+export const AuditArtifactInputSchema = z.object({
+  type: z.enum(['bias_detection', 'bias_mitigation', 'explainability', 'compliance_report']),
+  title: z.string(),
+  created_at: z.string(),
+  url: z.string().optional(),
+});
+
+export const AuditArtifactSchema = z.object({
+  artifact_id: z.string(),
+  type: z.enum(['bias_detection', 'bias_mitigation', 'explainability', 'compliance_report']),
+  title: z.string(),
+  created_at: z.string(),
+  url: z.string().optional(),
+});
+
+export const ApprovalEventSchema = z.object({
+  from_state: ApprovalStateSchema.nullable(),
+  to_state: ApprovalStateSchema,
+  actor: z.string(),
+  comment: z.string(),
+  timestamp: z.string(),
+});
+
+export const ApprovalTransitionSchema = z.object({
+  approval_state: ApprovalStateSchema,
+  comment: z.string(),
+});
+
+export const GovernanceModelInputSchema = z.object({
+  model_name: z.string(),
+  version: z.string(),
+  owner: z.string(),
+  risk_tier: RiskTierSchema,
+});
+
+export const GovernanceModelUpdateSchema = z.object({
+  owner: z.string().optional(),
+  risk_tier: RiskTierSchema.optional(),
+});
+
+export const GovernanceModelSchema = z.object({
+  model_name: z.string(),
+  version: z.string(),
+  owner: z.string(),
+  risk_tier: RiskTierSchema,
+  approval_state: ApprovalStateSchema,
+  audit_artifacts: z.array(AuditArtifactSchema),
+  approval_history: z.array(ApprovalEventSchema),
+  updated_at: z.string(),
+});
+
+export const FairnessMetricsSchema = z.object({
+  disparate_impact: z.number(),
+  statistical_parity_difference: z.number(),
+  equal_opportunity_difference: z.number(),
+  average_odds_difference: z.number(),
+});
+
+export const UploadSessionRequestSchema = z.object({
+  file_name: z.string(),
+  size: z.number().int(),
+});
+
+export const UploadSessionSchema = z.object({
+  upload_id: z.string(),
+  file_name: z.string(),
+  size: z.number().int(),
+  received_bytes: z.number().int(),
+  complete: z.boolean(),
+});
+
+export const UploadChunkSchema = z.object({
+  offset: z.number().int(),
+  chunk: z.instanceof(Blob),
+});
+
+export const BiasDetectionRequestSchema = z.object({
+  file: z.instanceof(Blob).optional(),
+  upload_id: z.string().optional(),
+  model_name: z.string(),
+  model_version: z.string(),
+  target_variable: z.string(),
+  sensitive_attribute: z.string(),
+  privileged_group: z.string(),
+  unprivileged_group: z.string(),
+  fairness_thresholds: FairnessMetricsSchema.optional(),
+});
+
+export const ConfusionMatrixSchema = z.object({
+  true_positives: z.number().int(),
+  false_positives: z.number().int(),
+  true_negatives: z.number().int(),
+  false_negatives: z.number().int(),
+});
+
+export const CalibrationBinSchema = z.object({
+  mean_score: z.number(),
+  observed_rate: z.number(),
+  count: z.number().int(),
+});
+
+export const GroupPerformanceSchema = z.object({
+  group: z.string(),
+  record_count: z.number().int(),
+  confusion_matrix: ConfusionMatrixSchema,
+  selection_rate: z.number(),
+  true_positive_rate: z.number(),
+  false_positive_rate: z.number(),
+  false_negative_rate: z.number(),
+  precision: z.number(),
+  calibration: z.array(CalibrationBinSchema),
+});
+
+export const GroupPerformanceComparisonSchema = z.object({
+  privileged: GroupPerformanceSchema,
+  unprivileged: GroupPerformanceSchema,
+});
+
+export const EvidenceVerdictSchema = z.enum(['fair', 'unfair', 'insufficient_evidence']);
+
+export const ConfidenceIntervalSchema = z.object({
+  lower: z.number(),
+  upper: z.number(),
+});
+
+export const SignificanceTestSchema = z.object({
+  test: z.enum(['chi_squared', 'fisher_exact', 'bootstrap']),
+  statistic: z.number().nullable(),
+  p_value: z.number(),
+  significant: z.boolean(),
+});
+
+export const MetricEvidenceSchema = z.object({
+  interval: ConfidenceIntervalSchema,
+  test: SignificanceTestSchema,
+  verdict: EvidenceVerdictSchema,
+  sample_size: z.number().int(),
+});
+
+export const FairnessMetricEvidenceSchema = z.object({
+  disparate_impact: MetricEvidenceSchema,
+  statistical_parity_difference: MetricEvidenceSchema,
+  equal_opportunity_difference: MetricEvidenceSchema,
+  average_odds_difference: MetricEvidenceSchema,
+});
+
+export const FairnessEvidenceSchema = z.object({
+  confidence_level: z.number(),
+  bootstrap_samples: z.number().int(),
+  min_sample_size: z.number().int(),
+  verdict: EvidenceVerdictSchema,
+  metrics: FairnessMetricEvidenceSchema,
+});
+
+export const BiasDetectionResultSchema = z.object({
+  metrics: FairnessMetricsSchema,
+  audit_status: z.string(),
+  recommendations: z.array(z.string()),
+  record_count: z.number().int(),
+  group_performance: GroupPerformanceComparisonSchema.optional(),
+  evidence: FairnessEvidenceSchema.optional(),
+});
+
+export const ThresholdSweepRequestSchema = z.object({
+  file: z.instanceof(Blob).optional(),
+  upload_id: z.string().optional(),
+  model_name: z.string(),
+  model_version: z.string(),
+  target_variable: z.string(),
+  sensitive_attribute: z.string(),
+  privileged_group: z.string(),
+  unprivileged_group: z.string(),
+  score_thresholds: z.array(z.number()).optional(),
+  fairness_thresholds: FairnessMetricsSchema.optional(),
+});
+
+export const ThresholdPointSchema = z.object({
+  threshold: z.number(),
+  metrics: FairnessMetricsSchema,
+  accuracy: z.number(),
+  selection_rate: z.number(),
+  within_thresholds: z.boolean(),
+});
+
+export const ThresholdSweepResultSchema = z.object({
+  default_threshold: z.number(),
+  points: z.array(ThresholdPointSchema),
+  record_count: z.number().int(),
+});
+
+export const MitigationTechniqueSchema = z.enum(['reweighing', 'threshold_adjustment', 'disparate_impact_remover', 'reject_option_classification']);
+
+export const MitigationRequestSchema = z.object({
+  file: z.instanceof(Blob).optional(),
+  upload_id: z.string().optional(),
+  model_name: z.string(),
+  model_version: z.string(),
+  target_variable: z.string(),
+  sensitive_attribute: z.string(),
+  privileged_group: z.string(),
+  unprivileged_group: z.string(),
+  technique: MitigationTechniqueSchema,
+  repair_level: z.number().optional(),
+  fairness_thresholds: FairnessMetricsSchema.optional(),
+});
+
+export const MitigationEvaluationSchema = z.object({
+  metrics: FairnessMetricsSchema,
+  accuracy: z.number(),
+  audit_status: z.string(),
+});
+
+export const MitigationResultSchema = z.object({
+  mitigation_id: z.string(),
+  technique: MitigationTechniqueSchema,
+  before: MitigationEvaluationSchema,
+  after: MitigationEvaluationSchema,
+  parameters: z.record(z.number()),
+  summary: z.string(),
+  record_count: z.number().int(),
+});
+
+export const MitigationAcceptanceSchema = z.object({
+  version: z.string(),
+  owner: z.string().optional(),
+  risk_tier: RiskTierSchema.optional(),
+});
+
+export const GroupAnalysisConfigSchema = z.object({
+  sensitive_attributes: z.array(z.string()),
+  reference_groups: z.record(z.string()),
+  comparison_groups: z.record(z.array(z.string())),
+  intersectional: z.boolean(),
+});
+
+export const GroupBiasDetectionRequestSchema = z.object({
+  file: z.instanceof(Blob).optional(),
+  upload_id: z.string().optional(),
+  model_name: z.string(),
+  model_version: z.string(),
+  target_variable: z.string(),
+  sensitive_attributes: z.array(z.string()),
+  reference_groups: z.record(z.string()),
+  comparison_groups: z.record(z.array(z.string())),
+  intersectional: z.boolean(),
+  fairness_thresholds: FairnessMetricsSchema.optional(),
+});
+
+export const GroupPairMetricsSchema = z.object({
+  attribute: z.string(),
+  reference_group: z.string(),
+  group: z.string(),
+  metrics: FairnessMetricsSchema,
+  record_count: z.number().int(),
+});
+
+export const GroupBiasResultSchema = z.object({
+  comparisons: z.array(GroupPairMetricsSchema),
+  audit_status: z.string(),
+  recommendations: z.array(z.string()),
+  record_count: z.number().int(),
+});
+
+export const ExplainRequestSchema = z.object({
+  file: z.instanceof(Blob).optional(),
+  upload_id: z.string().optional(),
+  model_name: z.string(),
+  model_version: z.string(),
+  target_variable: z.string(),
+  sensitive_attribute: z.string(),
+  instance_index: z.number().int(),
+  role: z.string(),
+});
+
+export const ExplainabilityResultSchema = z.object({
+  model_name: z.string(),
+  model_version: z.string(),
+  instance_index: z.number().int(),
+  shap_values: z.record(z.number()),
+  base_value: z.number().optional(),
+  prediction: z.number().optional(),
+  feature_importance: z.array(z.object({
+    feature: z.string(),
+    importance: z.number(),
+    direction: z.string(),
+  })),
+  natural_language_explanation: z.string(),
+  role: z.string(),
+  recommendations: z.array(z.string()),
+});
+
+export const WhatIfRequestSchema = z.object({
+  file: z.instanceof(Blob).optional(),
+  upload_id: z.string().optional(),
+  model_name: z.string(),
+  model_version: z.string(),
+  target_variable: z.string(),
+  sensitive_attribute: z.string(),
+  instance_index: z.number().int(),
+  feature_values: z.record(z.string()),
+});
+
+export const InstancePredictionSchema = z.object({
+  prediction: z.number(),
+  outcome: z.enum(['positive', 'negative']),
+  shap_values: z.record(z.number()),
+});
+
+export const WhatIfResultSchema = z.object({
+  instance_index: z.number().int(),
+  base_value: z.number(),
+  original: InstancePredictionSchema,
+  modified: InstancePredictionSchema,
+});
+
+export const CounterfactualRequestSchema = z.object({
+  file: z.instanceof(Blob).optional(),
+  upload_id: z.string().optional(),
+  model_name: z.string(),
+  model_version: z.string(),
+  target_variable: z.string(),
+  sensitive_attribute: z.string(),
+  instance_index: z.number().int(),
+  max_results: z.number().int().optional(),
+});
+
+export const FeatureChangeSchema = z.object({
+  feature: z.string(),
+  from_value: z.string(),
+  to_value: z.string(),
+});
+
+export const CounterfactualSchema = z.object({
+  changes: z.array(FeatureChangeSchema),
+  prediction: z.number(),
+  outcome: z.enum(['positive', 'negative']),
+});
+
+export const CounterfactualResultSchema = z.object({
+  instance_index: z.number().int(),
+  prediction: z.number(),
+  outcome: z.enum(['positive', 'negative']),
+  fixed_features: z.array(z.string()),
+  counterfactuals: z.array(CounterfactualSchema),
+});
+
+export const GlobalExplainRequestSchema = z.object({
+  file: z.instanceof(Blob).optional(),
+  upload_id: z.string().optional(),
+  model_name: z.string(),
+  model_version: z.string(),
+  target_variable: z.string(),
+  sensitive_attribute: z.string(),
+  sample_size: z.number().int().optional(),
+});
+
+export const GlobalExplanationInstanceSchema = z.object({
+  instance_index: z.number().int(),
+  prediction: z.number(),
+  shap_values: z.array(z.number()),
+  feature_values: z.array(z.string()),
+});
+
+export const FeatureShapSummarySchema = z.object({
+  feature: z.string(),
+  mean_abs_shap: z.number(),
+});
+
+export const GlobalExplainabilityResultSchema = z.object({
+  model_name: z.string(),
+  model_version: z.string(),
+  row_count: z.number().int(),
+  base_value: z.number(),
+  features: z.array(z.string()),
+  instances: z.array(GlobalExplanationInstanceSchema),
+  mean_abs_shap: z.array(FeatureShapSummarySchema),
+});
+
+export const ComplianceReportRequestSchema = z.object({
+  file: z.instanceof(Blob).optional(),
+  upload_id: z.string().optional(),
+  model_name: z.string(),
+  model_version: z.string(),
+  target_variable: z.string(),
+  sensitive_attribute: z.string(),
+  privileged_group: z.string(),
+  unprivileged_group: z.string(),
+  role: z.string(),
+  fairness_thresholds: FairnessMetricsSchema.optional(),
+});
+
+export const RegulationStatusSchema = z.enum(['compliant', 'non-compliant', 'pending']);
+
+export const ComplianceEvidenceSchema = z.object({
+  metric: z.string(),
+  value: z.number(),
+  threshold: z.string(),
+  passed: z.boolean(),
+});
+
+export const ComplianceClauseSchema = z.object({
+  clause_id: z.string(),
+  title: z.string(),
+  status: RegulationStatusSchema,
+  evidence: z.array(ComplianceEvidenceSchema),
+});
+
+export const RegulationResultSchema = z.object({
+  regulation_id: z.string(),
+  name: z.string(),
+  status: RegulationStatusSchema,
+  summary: z.string(),
+  clauses: z.array(ComplianceClauseSchema),
+});
+
+export const ReportSectionSchema = z.object({
+  title: z.string(),
+  body: z.string(),
+});
+
+export const ComplianceResultSchema = z.object({
+  report_id: z.string(),
+  model_name: z.string(),
+  model_version: z.string(),
+  role: z.string(),
+  audit_status: z.string(),
+  regulations: z.array(RegulationResultSchema),
+  preview: z.array(ReportSectionSchema),
+  generated_at: z.string(),
+});
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface ApiRequestOptions {
+  // Validates a JSON response; omitted for binary responses
+  schema?: z.ZodTypeAny;
+  json?: unknown;
+  form?: object;
+  responseType?: 'json' | 'blob';
+  // Aborts the request, e.g. from a cancel button
+  signal?: AbortSignal;
+  // Reports bytes sent while a form body uploads
+  onUploadProgress?: (loaded: number, total: number) => void;
+}
+
+export type RequestControl = Pick<ApiRequestOptions, 'signal' | 'onUploadProgress'>;
+
+export type ApiTransport = <T>(method: HttpMethod, path: string, options: ApiRequestOptions) => Promise<T>;
+
+export function createApiClient(request: ApiTransport) {
+  return {
+    // Dashboard summary data
+    getDashboardSummary: () =>
+      request<DashboardData>('GET', '/api/v1/dashboard/summary', { schema: DashboardDataSchema }),
+    // Model risk breakdown
+    getModelRisk: () =>
+      request<Array<ModelRisk>>('GET', '/api/v1/dashboard/model_risk', { schema: z.array(ModelRiskSchema) }),
+    // Weekly compliance counts, average risk and status changes
+    getComplianceTrend: () =>
+      request<Array<ComplianceTrend>>('GET', '/api/v1/dashboard/compliance_trend', { schema: z.array(ComplianceTrendSchema) }),
+    // Start a resumable chunked upload for a large dataset
+    createUpload: (body: UploadSessionRequest) =>
+      request<UploadSession>('POST', '/api/v1/uploads', { schema: UploadSessionSchema, json: body }),
+    // Bytes received so far, used to resume an interrupted upload
+    getUpload: (params: { upload_id: string }) =>
+      request<UploadSession>('GET', `/api/v1/uploads/${encodeURIComponent(params.upload_id)}`, { schema: UploadSessionSchema }),
+    // Append the next chunk of an upload
+    uploadChunk: (params: { upload_id: string }, body: UploadChunk, control?: RequestControl) =>
+      request<UploadSession>('POST', `/api/v1/uploads/${encodeURIComponent(params.upload_id)}/chunks`, { schema: UploadSessionSchema, form: body, ...control }),
+    // Bias detection analysis for one privileged/unprivileged pair
+    detectBias: (body: BiasDetectionRequest, control?: RequestControl) =>
+      request<BiasDetectionResult>('POST', '/api/v1/bias/detect', { schema: BiasDetectionResultSchema, form: body, ...control }),
+    // Fairness metrics and accuracy for one group pair at a range of decision thresholds
+    sweepThresholds: (body: ThresholdSweepRequest, control?: RequestControl) =>
+      request<ThresholdSweepResult>('POST', '/api/v1/bias/threshold-sweep', { schema: ThresholdSweepResultSchema, form: body, ...control }),
+    // Multi-group and intersectional bias analysis
+    detectGroupBias: (body: GroupBiasDetectionRequest, control?: RequestControl) =>
+      request<GroupBiasResult>('POST', '/api/v1/bias/detect/groups', { schema: GroupBiasResultSchema, form: body, ...control }),
+    // Apply a bias mitigation technique and evaluate the pair before and after
+    mitigateBias: (body: MitigationRequest, control?: RequestControl) =>
+      request<MitigationResult>('POST', '/api/v1/bias/mitigate', { schema: MitigationResultSchema, form: body, ...control }),
+    // Register the mitigated configuration as a new draft model version
+    acceptMitigation: (params: { mitigation_id: string }, body: MitigationAcceptance) =>
+      request<GovernanceModel>('POST', `/api/v1/bias/mitigations/${encodeURIComponent(params.mitigation_id)}/accept`, { schema: GovernanceModelSchema, json: body }),
+    // Model explainability analysis
+    explainInstance: (body: ExplainRequest, control?: RequestControl) =>
+      request<ExplainabilityResult>('POST', '/api/v1/explain', { schema: ExplainabilityResultSchema, form: body, ...control }),
+    // Re-score an instance with some feature values replaced
+    explainWhatIf: (body: WhatIfRequest, control?: RequestControl) =>
+      request<WhatIfResult>('POST', '/api/v1/explain/what-if', { schema: WhatIfResultSchema, form: body, ...control }),
+    // Smallest feature changes that flip an instance's outcome, keeping the sensitive attribute fixed
+    findCounterfactuals: (body: CounterfactualRequest, control?: RequestControl) =>
+      request<CounterfactualResult>('POST', '/api/v1/explain/counterfactuals', { schema: CounterfactualResultSchema, form: body, ...control }),
+    // SHAP values aggregated over all or a sample of the dataset's rows
+    explainGlobal: (body: GlobalExplainRequest, control?: RequestControl) =>
+      request<GlobalExplainabilityResult>('POST', '/api/v1/explain/global', { schema: GlobalExplainabilityResultSchema, form: body, ...control }),
+    // Compliance report generation
+    generateComplianceReport: (body: ComplianceReportRequest, control?: RequestControl) =>
+      request<ComplianceResult>('POST', '/api/v1/compliance/generate', { schema: ComplianceResultSchema, form: body, ...control }),
+    // Queue a bias detection analysis; the result is BiasDetectionResult
+    submitBiasDetectionJob: (body: BiasDetectionRequest, control?: RequestControl) =>
+      request<AnalysisJob>('POST', '/api/v1/jobs/bias/detect', { schema: AnalysisJobSchema, form: body, ...control }),
+    // Queue a multi-group bias analysis; the result is GroupBiasResult
+    submitGroupBiasDetectionJob: (body: GroupBiasDetectionRequest, control?: RequestControl) =>
+      request<AnalysisJob>('POST', '/api/v1/jobs/bias/detect/groups', { schema: AnalysisJobSchema, form: body, ...control }),
+    // Queue a threshold sweep; the result is ThresholdSweepResult
+    submitThresholdSweepJob: (body: ThresholdSweepRequest, control?: RequestControl) =>
+      request<AnalysisJob>('POST', '/api/v1/jobs/bias/threshold-sweep', { schema: AnalysisJobSchema, form: body, ...control }),
+    // Queue a bias mitigation; the result is MitigationResult
+    submitMitigationJob: (body: MitigationRequest, control?: RequestControl) =>
+      request<AnalysisJob>('POST', '/api/v1/jobs/bias/mitigate', { schema: AnalysisJobSchema, form: body, ...control }),
+    // Queue an explainability analysis; the result is ExplainabilityResult
+    submitExplainJob: (body: ExplainRequest, control?: RequestControl) =>
+      request<AnalysisJob>('POST', '/api/v1/jobs/explain', { schema: AnalysisJobSchema, form: body, ...control }),
+    // Queue a global explainability analysis; the result is GlobalExplainabilityResult
+    submitGlobalExplainJob: (body: GlobalExplainRequest, control?: RequestControl) =>
+      request<AnalysisJob>('POST', '/api/v1/jobs/explain/global', { schema: AnalysisJobSchema, form: body, ...control }),
+    // Queue compliance report generation; the result is ComplianceResult
+    submitComplianceReportJob: (body: ComplianceReportRequest, control?: RequestControl) =>
+      request<AnalysisJob>('POST', '/api/v1/jobs/compliance/generate', { schema: AnalysisJobSchema, form: body, ...control }),
+    // Status, progress and partial result of a job
+    getJob: (params: { job_id: string }) =>
+      request<AnalysisJob>('GET', `/api/v1/jobs/${encodeURIComponent(params.job_id)}`, { schema: AnalysisJobSchema }),
+    // Stop a queued or running job
+    cancelJob: (params: { job_id: string }) =>
+      request<AnalysisJob>('POST', `/api/v1/jobs/${encodeURIComponent(params.job_id)}/cancel`, { schema: AnalysisJobSchema }),
+    // PDF of a generated compliance report
+    downloadComplianceReport: (params: { report_id: string }, control?: RequestControl) =>
+      request<Blob>('GET', `/api/v1/compliance/reports/${encodeURIComponent(params.report_id)}/pdf`, { responseType: 'blob', ...control }),
+    // Model registry
+    listGovernanceModels: () =>
+      request<Array<GovernanceModel>>('GET', '/api/v1/governance/models', { schema: z.array(GovernanceModelSchema) }),
+    // Register a model version
+    registerGovernanceModel: (body: GovernanceModelInput) =>
+      request<GovernanceModel>('POST', '/api/v1/governance/models', { schema: GovernanceModelSchema, json: body }),
+    // One registered model version
+    getGovernanceModel: (params: { model_name: string; version: string }) =>
+      request<GovernanceModel>('GET', `/api/v1/governance/models/${encodeURIComponent(params.model_name)}/${encodeURIComponent(params.version)}`, { schema: GovernanceModelSchema }),
+    // Update owner or risk tier
+    updateGovernanceModel: (params: { model_name: string; version: string }, body: GovernanceModelUpdate) =>
+      request<GovernanceModel>('PATCH', `/api/v1/governance/models/${encodeURIComponent(params.model_name)}/${encodeURIComponent(params.version)}`, { schema: GovernanceModelSchema, json: body }),
+    // Change approval state
+    transitionGovernanceModel: (params: { model_name: string; version: string }, body: ApprovalTransition) =>
+      request<GovernanceModel>('POST', `/api/v1/governance/models/${encodeURIComponent(params.model_name)}/${encodeURIComponent(params.version)}/transition`, { schema: GovernanceModelSchema, json: body }),
+    // Link an audit artifact
+    linkGovernanceArtifact: (params: { model_name: string; version: string }, body: AuditArtifactInput) =>
+      request<GovernanceModel>('POST', `/api/v1/governance/models/${encodeURIComponent(params.model_name)}/${encodeURIComponent(params.version)}/artifacts`, { schema: GovernanceModelSchema, json: body }),
+  };
+}
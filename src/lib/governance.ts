@@ -0,0 +1,32 @@
+import type { ApprovalState, RiskTier } from './api';
+
+export const APPROVAL_STATES: ApprovalState[] = ['draft', 'under_review', 'approved', 'retired'];
+
+export const APPROVAL_STATE_LABELS: Record<ApprovalState, string> = {
+  draft: 'Draft',
+  under_review: 'Under Review',
+  approved: 'Approved',
+  retired: 'Retired',
+};
+
+// Models move forward through review; a reviewer may send a model back to draft
+export const APPROVAL_TRANSITIONS: Record<ApprovalState, ApprovalState[]> = {
+  draft: ['under_review'],
+  under_review: ['approved', 'draft'],
+  approved: ['retired'],
+  retired: [],
+};
+
+export const RISK_TIERS: RiskTier[] = ['minimal', 'limited', 'high', 'unacceptable'];
+
+export const RISK_TIER_LABELS: Record<RiskTier, string> = {
+  minimal: 'Minimal',
+  limited: 'Limited',
+  high: 'High',
+  unacceptable: 'Unacceptable',
+};
+
+// Route of the model detail page
+export function getModelPath(modelName: string, version: string) {
+  return `/models/${encodeURIComponent(modelName)}/${encodeURIComponent(version)}`;
+}
@@ -0,0 +1,282 @@
+// Local audit run history persisted in IndexedDB
+import type {
+  BiasDetectionResult,
+  ComplianceResult,
+  ExplainabilityResult,
+  GlobalExplainabilityResult,
+  GroupAnalysisConfig,
+  GroupBiasResult,
+  MitigationResult,
+  MitigationTechnique,
+  ThresholdSweepResult,
+} from './api';
+import { MITIGATION_TECHNIQUE_LABELS } from './mitigation';
+import { getSettings } from './settings';
+import { createSha256 } from './sha256';
+
+const DB_NAME = 'ethical-ai-auditor';
+const DB_VERSION = 2;
+const RUNS_STORE = 'runs';
+
+export type AuditRunKind =
+  | 'bias_detection'
+  | 'group_bias_detection'
+  | 'threshold_sweep'
+  | 'bias_mitigation'
+  | 'explainability'
+  | 'global_explainability'
+  | 'compliance_report';
+
+// Form fields sent with the request, named as in the API
+export interface AuditRunInputs {
+  model_name: string;
+  model_version: string;
+  target_variable: string;
+  sensitive_attribute: string;
+  privileged_group?: string;
+  unprivileged_group?: string;
+  instance_index?: number;
+  sample_size?: number;
+  score_thresholds?: number[];
+  technique?: MitigationTechnique;
+  repair_level?: number;
+  role?: string;
+  group_analysis?: GroupAnalysisConfig;
+  policy_id?: string;
+}
+
+export interface AuditRunFile {
+  name: string;
+  size: number;
+  sha256: string;
+}
+
+export interface ComplianceRunResult {
+  pdf: Blob;
+  report: ComplianceResult;
+}
+
+// Version 1 stored placeholder statuses that were never computed by the backend
+interface LegacyComplianceRunResult {
+  pdf: Blob;
+  status: Record<string, string>;
+}
+
+interface AuditRunResults {
+  bias_detection: BiasDetectionResult;
+  group_bias_detection: GroupBiasResult;
+  threshold_sweep: ThresholdSweepResult;
+  bias_mitigation: MitigationResult;
+  explainability: ExplainabilityResult;
+  global_explainability: GlobalExplainabilityResult;
+  compliance_report: ComplianceRunResult;
+}
+
+export type AuditRun<K extends AuditRunKind = AuditRunKind> = {
+  [Kind in K]: {
+    id: string;
+    kind: Kind;
+    createdAt: string;
+    file: AuditRunFile;
+    inputs: AuditRunInputs;
+    result: AuditRunResults[Kind];
+  };
+}[K];
+
+export const AUDIT_RUN_LABELS: Record<AuditRunKind, string> = {
+  bias_detection: 'Bias Detection',
+  group_bias_detection: 'Multi-Group Bias',
+  threshold_sweep: 'Threshold Sweep',
+  bias_mitigation: 'Bias Mitigation',
+  explainability: 'Explainability',
+  global_explainability: 'Global Explanation',
+  compliance_report: 'Compliance Report',
+};
+
+// Page that renders each kind of result; runs reopen there via ?run=<id>
+export const AUDIT_RUN_ROUTES: Record<AuditRunKind, string> = {
+  bias_detection: '/bias-detection',
+  group_bias_detection: '/bias-detection',
+  threshold_sweep: '/bias-detection',
+  bias_mitigation: '/bias-detection',
+  explainability: '/explainability',
+  global_explainability: '/explainability',
+  compliance_report: '/compliance',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Keeps the PDF of older compliance runs but marks every regulation as pending
+function upgradeComplianceRuns(store: IDBObjectStore) {
+  const cursorRequest = store.index('kind').openCursor('compliance_report');
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const run = cursor.value as AuditRun<'compliance_report'>;
+    const result = run.result as ComplianceRunResult | LegacyComplianceRunResult;
+    if ('status' in result) {
+      const report: ComplianceResult = {
+        report_id: run.id,
+        model_name: run.inputs.model_name,
+        model_version: run.inputs.model_version,
+        role: run.inputs.role ?? 'executive',
+        audit_status: 'UNKNOWN',
+        regulations: Object.keys(result.status).map((regulation) => ({
+          regulation_id: regulation,
+          name: regulation.replace(/_/g, ' ').toUpperCase(),
+          status: 'pending',
+          summary: 'Saved before per-regulation results were available; regenerate the report to evaluate',
+          clauses: [],
+        })),
+        preview: [],
+        generated_at: run.createdAt,
+      };
+      cursor.update({ ...run, result: { pdf: result.pdf, report } });
+    }
+    cursor.continue();
+  };
+}
+
+function openDatabase() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        if (event.oldVersion < 1) {
+          const store = request.result.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+          store.createIndex('kind', 'kind');
+        }
+        if (event.oldVersion < 2) {
+          upgradeComplianceRuns(request.transaction!.objectStore(RUNS_STORE));
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(RUNS_STORE, mode).objectStore(RUNS_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Files are hashed slice by slice so only one slice is ever held in memory
+const HASH_SLICE_SIZE = 16 * 1024 * 1024;
+
+export async function hashFile(file: Blob) {
+  const hash = createSha256();
+  for (let offset = 0; offset < file.size; offset += HASH_SLICE_SIZE) {
+    hash.update(new Uint8Array(await file.slice(offset, offset + HASH_SLICE_SIZE).arrayBuffer()));
+  }
+  return hash.digest();
+}
+
+export async function saveRun<K extends AuditRunKind>(
+  kind: K,
+  file: File,
+  inputs: AuditRunInputs,
+  result: AuditRunResults[K]
+): Promise<AuditRun<K>> {
+  const run = {
+    id: crypto.randomUUID(),
+    kind,
+    createdAt: new Date().toISOString(),
+    file: { name: file.name, size: file.size, sha256: await hashFile(file) },
+    inputs,
+    result,
+  } as AuditRun<K>;
+
+  await withStore('readwrite', (store) => store.put(run));
+  return run;
+}
+
+// Newest first
+export async function listRuns(kind?: AuditRunKind): Promise<AuditRun[]> {
+  const runs = await withStore<AuditRun[]>('readonly', (store) =>
+    kind ? store.index('kind').getAll(kind) : store.getAll()
+  );
+  return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Every kind of run for one model version, newest first
+export async function listModelRuns(modelName: string, version: string) {
+  const runs = await listRuns();
+  return runs.filter((run) => run.inputs.model_name === modelName && run.inputs.model_version === version);
+}
+
+// One-line outcome shown in run lists
+export function summarizeRun(run: AuditRun) {
+  switch (run.kind) {
+    case 'bias_detection':
+      return run.result.audit_status;
+    case 'group_bias_detection':
+      return `${run.result.audit_status} · ${run.result.comparisons.length} group pairs`;
+    case 'threshold_sweep': {
+      const fair = run.result.points.filter((point) => point.within_thresholds).length;
+      return `${fair} of ${run.result.points.length} thresholds within policy`;
+    }
+    case 'bias_mitigation':
+      return `${MITIGATION_TECHNIQUE_LABELS[run.result.technique]} · ${run.result.before.audit_status} → ${run.result.after.audit_status}`;
+    case 'explainability':
+      return `Instance ${run.result.instance_index} · ${run.result.role}`;
+    case 'global_explainability':
+      return `${run.result.instances.length} rows · top feature ${run.result.mean_abs_shap[0]?.feature ?? 'none'}`;
+    case 'compliance_report': {
+      const { regulations } = run.result.report;
+      const failing = regulations.filter((regulation) => regulation.status === 'non-compliant').length;
+      const pending = regulations.filter((regulation) => regulation.status === 'pending').length;
+      if (failing > 0) return `${failing} non-compliant`;
+      return pending > 0 ? `${pending} pending` : 'All regulations compliant';
+    }
+  }
+}
+
+export async function getRun(id: string): Promise<AuditRun | undefined> {
+  return withStore<AuditRun | undefined>('readonly', (store) => store.get(id));
+}
+
+export async function deleteRun(id: string) {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+// Returns the number of runs removed
+export async function deleteRunsBefore(cutoff: Date) {
+  const db = await openDatabase();
+  return new Promise<number>((resolve, reject) => {
+    const transaction = db.transaction(RUNS_STORE, 'readwrite');
+    const request = transaction.objectStore(RUNS_STORE).index('createdAt')
+      .openCursor(IDBKeyRange.upperBound(cutoff.toISOString(), true));
+    let deleted = 0;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      cursor.delete();
+      deleted++;
+      cursor.continue();
+    };
+    // Resolve only once every delete has committed
+    transaction.oncomplete = () => resolve(deleted);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Applies the retention period from settings; a period of 0 keeps every run
+export async function pruneExpiredRuns() {
+  const { retentionDays } = getSettings();
+  if (!retentionDays) return 0;
+  return deleteRunsBefore(new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000));
+}
@@ -0,0 +1,109 @@
+// Analyses running in the background. Jobs live outside the pages that start them, so they keep
+// running across navigation and show up in the jobs tray until dismissed.
+import type { AuditRunKind } from './history';
+import type { AnalysisControl, AnalysisStage } from './uploads';
+
+export type TrackedJobState = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface TrackedJob {
+  id: string;
+  kind: AuditRunKind;
+  label: string;
+  state: TrackedJobState;
+  stage: AnalysisStage;
+  progress: number;
+  message?: string;
+  partialResult?: unknown;
+  error?: string;
+  // Saved history run, set once the result is stored
+  runId?: string;
+  startedAt: string;
+}
+
+export interface JobHandle<T = unknown> {
+  id: string;
+  control: AnalysisControl<T>;
+  complete: () => void;
+  linkRun: (runId: string) => void;
+  fail: (error: unknown) => void;
+}
+
+const MAX_TRACKED_JOBS = 20;
+
+const listeners = new Set<() => void>();
+const controllers = new Map<string, AbortController>();
+let jobs: TrackedJob[] = [];
+
+function emit() {
+  listeners.forEach((listener) => listener());
+}
+
+function updateJob(id: string, changes: Partial<TrackedJob>) {
+  jobs = jobs.map((job) => (job.id === id ? { ...job, ...changes } : job));
+  emit();
+}
+
+export function getJobs() {
+  return jobs;
+}
+
+export function subscribeJobs(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Registers a job and returns the control to pass to the API call, plus callbacks for the outcome
+export function startJob<T = unknown>(kind: AuditRunKind, label: string): JobHandle<T> {
+  const id = crypto.randomUUID();
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  const job: TrackedJob = { id, kind, label, state: 'running', stage: 'uploading', progress: 0, startedAt: new Date().toISOString() };
+  // Oldest finished jobs make room first; running jobs are never dropped
+  const finished = jobs.filter((existing) => existing.state !== 'running');
+  const overflow = new Set(finished.slice(MAX_TRACKED_JOBS - 1).map((existing) => existing.id));
+  jobs = [job, ...jobs.filter((existing) => !overflow.has(existing.id))];
+  emit();
+
+  // Only the first outcome counts, e.g. a failure while saving a finished job is ignored
+  const settle = (changes: Partial<TrackedJob>) => {
+    if (!controllers.delete(id)) return;
+    updateJob(id, changes);
+  };
+
+  return {
+    id,
+    control: {
+      signal: controller.signal,
+      onStage: (stage, progress, message) => {
+        updateJob(id, { stage, ...(progress !== undefined && { progress }), message });
+      },
+      onPartialResult: (partialResult) => {
+        updateJob(id, { partialResult });
+      },
+    },
+    complete: () => settle({ state: 'succeeded', progress: 1, message: undefined }),
+    linkRun: (runId) => updateJob(id, { runId }),
+    fail: (error) => settle(
+      controller.signal.aborted
+        ? { state: 'cancelled', message: undefined }
+        : { state: 'failed', message: undefined, error: error instanceof Error ? error.message : 'Analysis failed' }
+    ),
+  };
+}
+
+export function cancelJob(id: string) {
+  controllers.get(id)?.abort();
+}
+
+export function dismissJob(id: string) {
+  jobs = jobs.filter((job) => job.id !== id || job.state === 'running');
+  emit();
+}
+
+export function clearFinishedJobs() {
+  jobs = jobs.filter((job) => job.state === 'running');
+  emit();
+}
@@ -0,0 +1,49 @@
+// Bias mitigation techniques offered after a bias detection run
+import type { MitigationTechnique } from './api';
+
+export interface MitigationTechniqueInfo {
+  id: MitigationTechnique;
+  label: string;
+  // Where in the pipeline the technique intervenes
+  stage: 'Pre-processing' | 'Post-processing';
+  description: string;
+}
+
+export const MITIGATION_TECHNIQUES: MitigationTechniqueInfo[] = [
+  {
+    id: 'reweighing',
+    label: 'Reweighing',
+    stage: 'Pre-processing',
+    description: 'Weights training rows so each group and outcome combination counts as if group and outcome were independent',
+  },
+  {
+    id: 'disparate_impact_remover',
+    label: 'Disparate Impact Remover',
+    stage: 'Pre-processing',
+    description: 'Aligns the distribution of each numeric feature across groups while keeping the ranking within each group',
+  },
+  {
+    id: 'threshold_adjustment',
+    label: 'Threshold Adjustment',
+    stage: 'Post-processing',
+    description: 'Picks a separate decision threshold for each group so both are selected at the same rate',
+  },
+  {
+    id: 'reject_option_classification',
+    label: 'Reject Option Classification',
+    stage: 'Post-processing',
+    description: 'Gives the favourable outcome to the unprivileged group, and the unfavourable one to the privileged group, for scores close to the threshold',
+  },
+];
+
+export const MITIGATION_TECHNIQUE_LABELS = Object.fromEntries(
+  MITIGATION_TECHNIQUES.map(({ id, label }) => [id, label])
+) as Record<MitigationTechnique, string>;
+
+export const DEFAULT_REPAIR_LEVEL = 1;
+
+// Suggested version for an accepted mitigation, e.g. 1.2 -> 1.3 and v2 -> v3; otherwise a suffix
+export function suggestMitigatedVersion(version: string) {
+  const match = /^(.*?)(\d+)$/.exec(version);
+  return match ? `${match[1]}${Number(match[2]) + 1}` : `${version}-mitigated`;
+}
@@ -0,0 +1,75 @@
+// Named fairness policy profiles: metric thresholds and risk score bands
+import type { FairnessMetrics } from './api';
+
+// Disparate impact is a minimum ratio; the other metrics are maximum absolute differences
+export type FairnessThresholds = FairnessMetrics;
+
+export interface RiskBands {
+  // Inclusive upper bounds; anything above `high` is critical
+  low: number;
+  medium: number;
+  high: number;
+}
+
+export interface PolicyProfile {
+  id: string;
+  name: string;
+  description: string;
+  thresholds: FairnessThresholds;
+  riskBands: RiskBands;
+}
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export const POLICY_PROFILES: PolicyProfile[] = [
+  {
+    id: 'eeoc_four_fifths',
+    name: 'EEOC four-fifths',
+    description: 'US EEOC four-fifths rule with ±0.1 parity tolerance',
+    thresholds: {
+      disparate_impact: 0.8,
+      statistical_parity_difference: 0.1,
+      equal_opportunity_difference: 0.1,
+      average_odds_difference: 0.1,
+    },
+    riskBands: { low: 30, medium: 60, high: 85 },
+  },
+  {
+    id: 'strict_internal',
+    name: 'Strict internal',
+    description: 'Internal policy for customer-facing decisions',
+    thresholds: {
+      disparate_impact: 0.9,
+      statistical_parity_difference: 0.05,
+      equal_opportunity_difference: 0.05,
+      average_odds_difference: 0.05,
+    },
+    riskBands: { low: 20, medium: 40, high: 70 },
+  },
+  {
+    id: 'eu_ai_act_high_risk',
+    name: 'EU AI Act high-risk',
+    description: 'High-risk systems under Annex III of the EU AI Act',
+    thresholds: {
+      disparate_impact: 0.85,
+      statistical_parity_difference: 0.05,
+      equal_opportunity_difference: 0.05,
+      average_odds_difference: 0.08,
+    },
+    riskBands: { low: 15, medium: 35, high: 60 },
+  },
+];
+
+export const DEFAULT_POLICY_PROFILE_ID = 'eeoc_four_fifths';
+
+export function getPolicyProfile(id: string | undefined): PolicyProfile {
+  return POLICY_PROFILES.find((profile) => profile.id === id)
+    ?? POLICY_PROFILES.find((profile) => profile.id === DEFAULT_POLICY_PROFILE_ID)!;
+}
+
+export function getRiskLevel(score: number, bands: RiskBands): RiskLevel {
+  if (score <= bands.low) return 'low';
+  if (score <= bands.medium) return 'medium';
+  if (score <= bands.high) return 'high';
+  return 'critical';
+}
@@ -0,0 +1,73 @@
+// User settings persisted in localStorage
+import { DEFAULT_POLICY_PROFILE_ID } from './policies';
+
+export type ReportRole = 'executive' | 'compliance' | 'technical';
+
+export const REPORT_ROLES: ReportRole[] = ['executive', 'compliance', 'technical'];
+
+export const REPORT_ROLE_LABELS: Record<ReportRole, string> = {
+  executive: 'Executive',
+  compliance: 'Compliance',
+  technical: 'Technical',
+};
+
+export interface AppSettings {
+  policyProfileId: string;
+  // Empty means the build-time VITE_API_BASE_URL
+  apiBaseUrl: string;
+  // Answer API calls from the in-browser demo backend instead of the server
+  demoMode: boolean;
+  requestTimeoutSeconds: number;
+  uploadTimeoutSeconds: number;
+  defaultReportRole: ReportRole;
+  // Columns preselected as sensitive attributes when they appear in an uploaded file
+  defaultSensitiveAttributes: string[];
+  // Saved runs older than this are deleted on startup; 0 keeps them forever
+  retentionDays: number;
+}
+
+const STORAGE_KEY = 'ethical-ai-auditor:settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  policyProfileId: DEFAULT_POLICY_PROFILE_ID,
+  apiBaseUrl: '',
+  demoMode: import.meta.env.VITE_DEMO_MODE === 'true',
+  requestTimeoutSeconds: 10,
+  uploadTimeoutSeconds: 30,
+  defaultReportRole: 'executive',
+  defaultSensitiveAttributes: [],
+  retentionDays: 0,
+};
+
+const listeners = new Set<() => void>();
+let current = loadSettings();
+
+function loadSettings(): AppSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function getSettings() {
+  return current;
+}
+
+export function updateSettings(changes: Partial<AppSettings>) {
+  current = { ...current, ...changes };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+  } catch (error) {
+    console.error('Failed to persist settings:', error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeSettings(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,78 @@
+// Shapes SHAP values for the explanation charts. Values are additive: the base value plus every
+// feature's contribution gives the model's output for the instance.
+
+// Features beyond this many are folded into one "other features" entry so charts stay readable
+export const MAX_CHART_FEATURES = 12;
+
+export interface ShapContribution {
+  feature: string;
+  value: number;
+}
+
+export interface WaterfallStep extends ShapContribution {
+  start: number;
+  end: number;
+  // [low, high], the form recharts expects for a floating bar
+  range: [number, number];
+}
+
+// Largest absolute contribution first, with the tail summed into one entry
+export function rankContributions(shapValues: Record<string, number>, limit = MAX_CHART_FEATURES): ShapContribution[] {
+  const ranked = Object.entries(shapValues)
+    .map(([feature, value]) => ({ feature, value }))
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+  if (ranked.length <= limit) return ranked;
+
+  const rest = ranked.slice(limit - 1);
+  return [
+    ...ranked.slice(0, limit - 1),
+    { feature: `${rest.length} other features`, value: rest.reduce((sum, { value }) => sum + value, 0) },
+  ];
+}
+
+export function sumContributions(shapValues: Record<string, number>) {
+  return Object.values(shapValues).reduce((sum, value) => sum + value, 0);
+}
+
+// Walks from the base value to the prediction, smallest contributions first so the largest
+// ones sit next to the final output, as in the usual SHAP waterfall layout
+export function waterfallSteps(shapValues: Record<string, number>, baseValue: number): WaterfallStep[] {
+  let running = baseValue;
+  return [...rankContributions(shapValues)].reverse().map(({ feature, value }) => {
+    const start = running;
+    running += value;
+    return { feature, value, start, end: running, range: [Math.min(start, running), Math.max(start, running)] };
+  });
+}
+
+export function formatShapValue(value: number) {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(3)}`;
+}
+
+// Beeswarm plots draw one dot per row and feature; larger samples are thinned to keep the page responsive
+export const MAX_BEESWARM_POINTS = 1000;
+
+export function sampleEvenly<T>(items: T[], max: number) {
+  if (items.length <= max) return items;
+  return Array.from({ length: max }, (_, i) => items[Math.floor((i * items.length) / max)]);
+}
+
+// Places each raw feature value between 0 (low) and 1 (high) for colouring. Numeric columns scale
+// by value; other columns by their sorted position among the distinct values.
+export function featureValueScale(values: string[]) {
+  const numbers = values.map(Number);
+  const numeric = values.every((value, i) => value.trim() !== '' && !Number.isNaN(numbers[i]));
+  if (numeric) {
+    const min = numbers.reduce((low, value) => Math.min(low, value), Infinity);
+    const span = numbers.reduce((high, value) => Math.max(high, value), -Infinity) - min || 1;
+    return { numeric, scale: (value: string) => (Number(value) - min) / span };
+  }
+  const distinct = [...new Set(values)].sort();
+  const positions = new Map(distinct.map((value, i) => [value, distinct.length > 1 ? i / (distinct.length - 1) : 0.5]));
+  return { numeric, scale: (value: string) => positions.get(value) ?? 0.5 };
+}
+
+// Blue for low feature values through to red for high ones, as in SHAP summary plots
+export function featureValueColor(position: number) {
+  return `hsl(${Math.round(220 + 130 * position)} 75% 52%)`;
+}
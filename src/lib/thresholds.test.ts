@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { ThresholdPoint } from './api';
+import { bestFairPoint, DEFAULT_THRESHOLD_RANGE, MAX_SWEEP_POINTS, nearestPoint, thresholdRange } from './thresholds';
+
+const point = (threshold: number, accuracy: number, within_thresholds: boolean): ThresholdPoint => ({
+  threshold,
+  accuracy,
+  within_thresholds,
+  selection_rate: 0.5,
+  metrics: {
+    disparate_impact: 1,
+    statistical_parity_difference: 0,
+    equal_opportunity_difference: 0,
+    average_odds_difference: 0,
+  },
+});
+
+describe('thresholdRange', () => {
+  it('includes both ends without floating point drift', () => {
+    expect(thresholdRange({ from: 0.1, to: 0.5, step: 0.1 })).toEqual([0.1, 0.2, 0.3, 0.4, 0.5]);
+  });
+
+  it('covers the default range in 19 steps', () => {
+    const range = thresholdRange(DEFAULT_THRESHOLD_RANGE);
+    expect(range).toHaveLength(19);
+    expect(range?.[0]).toBe(0.05);
+    expect(range?.[18]).toBe(0.95);
+  });
+
+  it('stops at the last step that fits', () => {
+    expect(thresholdRange({ from: 0, to: 1, step: 0.3 })).toEqual([0, 0.3, 0.6, 0.9]);
+  });
+
+  it('allows a single threshold', () => {
+    expect(thresholdRange({ from: 0.5, to: 0.5, step: 0.1 })).toEqual([0.5]);
+  });
+
+  it('rejects ranges outside 0 to 1, reversed ranges and bad steps', () => {
+    expect(thresholdRange({ from: -0.1, to: 0.5, step: 0.1 })).toBeNull();
+    expect(thresholdRange({ from: 0.1, to: 1.5, step: 0.1 })).toBeNull();
+    expect(thresholdRange({ from: 0.6, to: 0.5, step: 0.1 })).toBeNull();
+    expect(thresholdRange({ from: 0.1, to: 0.5, step: 0 })).toBeNull();
+    expect(thresholdRange({ from: 0.1, to: 0.5, step: NaN })).toBeNull();
+  });
+
+  it('rejects sweeps with too many points', () => {
+    expect(thresholdRange({ from: 0, to: 1, step: 1 / MAX_SWEEP_POINTS })).toBeNull();
+    expect(thresholdRange({ from: 0, to: 1, step: 1 / (MAX_SWEEP_POINTS - 1) })).toHaveLength(MAX_SWEEP_POINTS);
+  });
+});
+
+describe('nearestPoint', () => {
+  it('finds the point closest to the threshold', () => {
+    const points = [point(0.3, 0.7, true), point(0.5, 0.8, true), point(0.7, 0.75, false)];
+    expect(nearestPoint(points, 0.62)).toBe(points[2]);
+    expect(nearestPoint(points, 0)).toBe(points[0]);
+  });
+
+  it('returns null without points', () => {
+    expect(nearestPoint([], 0.5)).toBeNull();
+  });
+});
+
+describe('bestFairPoint', () => {
+  it('picks the most accurate point that passes every check', () => {
+    const points = [point(0.3, 0.7, true), point(0.5, 0.9, false), point(0.6, 0.8, true)];
+    expect(bestFairPoint(points)).toBe(points[2]);
+  });
+
+  it('returns null when no point passes', () => {
+    expect(bestFairPoint([point(0.5, 0.9, false)])).toBeNull();
+  });
+});
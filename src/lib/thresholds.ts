@@ -0,0 +1,35 @@
+// Decision threshold sweeps: which cut-offs to request and how to pick an operating point
+import type { ThresholdPoint } from './api';
+
+export interface ThresholdRange {
+  from: number;
+  to: number;
+  step: number;
+}
+
+export const DEFAULT_THRESHOLD_RANGE: ThresholdRange = { from: 0.05, to: 0.95, step: 0.05 };
+// Keeps requests and charts a manageable size
+export const MAX_SWEEP_POINTS = 200;
+
+// Returns null when the range is unusable, otherwise every step from `from` to `to` inclusive
+export function thresholdRange({ from, to, step }: ThresholdRange): number[] | null {
+  if (![from, to, step].every(Number.isFinite) || from < 0 || to > 1 || from > to || step <= 0) return null;
+  // Rounded so steps like 0.1 do not accumulate floating point error
+  const count = Math.floor((to - from) / step + 1e-9) + 1;
+  if (count > MAX_SWEEP_POINTS) return null;
+  return Array.from({ length: count }, (_, i) => Math.round((from + i * step) * 10000) / 10000);
+}
+
+export function nearestPoint(points: ThresholdPoint[], threshold: number) {
+  return points.reduce<ThresholdPoint | null>(
+    (best, point) => (!best || Math.abs(point.threshold - threshold) < Math.abs(best.threshold - threshold) ? point : best),
+    null
+  );
+}
+
+// Most accurate threshold that passes every fairness check, if any does
+export function bestFairPoint(points: ThresholdPoint[]) {
+  return points
+    .filter(point => point.within_thresholds)
+    .reduce<ThresholdPoint | null>((best, point) => (!best || point.accuracy > best.accuracy ? point : best), null);
+}
@@ -0,0 +1,62 @@
+// Analysis stages and bookkeeping for resumable chunked uploads
+export type AnalysisStage = 'uploading' | 'queued' | 'processing';
+
+export const ANALYSIS_STAGES: AnalysisStage[] = ['uploading', 'queued', 'processing'];
+
+export const ANALYSIS_STAGE_LABELS: Record<AnalysisStage, string> = {
+  uploading: 'Uploading',
+  queued: 'Queued',
+  processing: 'Processing',
+};
+
+// Passed to analysis calls by the pages. Progress is the uploaded fraction while uploading and the
+// server's estimate while processing; the message says what the server is working on.
+export interface AnalysisControl<T = unknown> {
+  signal?: AbortSignal;
+  onStage?: (stage: AnalysisStage, progress?: number, message?: string) => void;
+  onPartialResult?: (partial: T) => void;
+}
+
+export const MAX_UPLOAD_SIZE_MB = 5 * 1024;
+// Larger files go up in chunks, so a dropped connection only costs the current chunk
+export const CHUNKED_UPLOAD_THRESHOLD = 20 * 1024 * 1024;
+export const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+
+const STORAGE_KEY = 'ethical-ai-auditor:uploads';
+
+// The same file picked again after a reload matches on name, size and modification time
+export const fileKey = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+function loadUploads(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+function storeUploads(uploads: Record<string, string>) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(uploads));
+  } catch (error) {
+    console.error('Failed to persist upload sessions:', error);
+  }
+}
+
+// Session from an earlier upload of this file, finished or not
+export function getSavedUploadId(file: File): string | undefined {
+  return loadUploads()[fileKey(file)];
+}
+
+export function rememberUpload(file: File, uploadId: string) {
+  storeUploads({ ...loadUploads(), [fileKey(file)]: uploadId });
+}
+
+export function forgetUpload(file: File) {
+  const { [fileKey(file)]: _removed, ...rest } = loadUploads();
+  storeUploads(rest);
+}
+
+export function formatFileSize(bytes: number) {
+  return bytes >= 1024 ** 3 ? `${(bytes / 1024 ** 3).toFixed(2)}GB` : `${(bytes / 1024 ** 2).toFixed(2)}MB`;
+}
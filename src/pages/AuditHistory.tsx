@@ -0,0 +1,262 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ModelLink } from "@/components/common/ModelLink";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { History, ExternalLink, GitCompare, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AUDIT_RUN_LABELS,
+  AUDIT_RUN_ROUTES,
+  AuditRun,
+  AuditRunKind,
+  deleteRun,
+  deleteRunsBefore,
+  listRuns,
+  summarizeRun,
+} from "@/lib/history";
+
+const RETENTION_OPTIONS = ["7", "30", "90"];
+
+export default function AuditHistory() {
+  const [runs, setRuns] = useState<AuditRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [kindFilter, setKindFilter] = useState<AuditRunKind | "all">("all");
+  const [pruneDays, setPruneDays] = useState("30");
+  const [confirmPrune, setConfirmPrune] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRuns(await listRuns(kindFilter === "all" ? undefined : kindFilter));
+    } catch (error) {
+      console.error('Audit history error:', error);
+      toast({
+        title: "Could not load history",
+        description: "Local storage for audit runs is unavailable in this browser",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [kindFilter, toast]);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  const handleDelete = async (run: AuditRun) => {
+    try {
+      await deleteRun(run.id);
+    } catch (error) {
+      console.error('Audit history error:', error);
+      toast({
+        title: "Could not delete run",
+        description: "Local storage for audit runs is unavailable in this browser",
+        variant: "destructive",
+      });
+      return;
+    }
+    setRuns(prev => prev.filter(item => item.id !== run.id));
+    toast({
+      title: "Run deleted",
+      description: `${AUDIT_RUN_LABELS[run.kind]} for ${run.inputs.model_name} v${run.inputs.model_version}`,
+    });
+  };
+
+  // Keeps the two most recently ticked bias runs, oldest becomes the baseline
+  const toggleCompare = (run: AuditRun, checked: boolean) => {
+    setCompareIds(prev => checked ? [...prev, run.id].slice(-2) : prev.filter(id => id !== run.id));
+  };
+
+  const selectedForCompare = runs.filter(run => compareIds.includes(run.id));
+
+  const handleCompare = () => {
+    const [a, b] = [...selectedForCompare].sort((x, y) => x.createdAt.localeCompare(y.createdAt));
+    navigate(`/bias-detection/compare?a=${a.id}&b=${b.id}`);
+  };
+
+  const handlePrune = async () => {
+    const cutoff = new Date(Date.now() - Number(pruneDays) * 24 * 60 * 60 * 1000);
+    let removed: number;
+    try {
+      removed = await deleteRunsBefore(cutoff);
+    } catch (error) {
+      console.error('Audit history error:', error);
+      toast({
+        title: "Could not clean up history",
+        description: "Local storage for audit runs is unavailable in this browser",
+        variant: "destructive",
+      });
+      return;
+    } finally {
+      setConfirmPrune(false);
+    }
+    await fetchRuns();
+    toast({
+      title: "History cleaned up",
+      description: `Removed ${removed} run${removed === 1 ? "" : "s"} older than ${pruneDays} days`,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Audit History</h1>
+          <p className="text-muted-foreground">Reopen or clean up analyses saved in this browser</p>
+        </div>
+
+        <div className="flex gap-3 items-center">
+          <Button variant="outline" disabled={selectedForCompare.length !== 2} onClick={handleCompare}>
+            <GitCompare className="w-4 h-4 mr-2" />
+            Compare Selected
+          </Button>
+          <Select value={pruneDays} onValueChange={setPruneDays}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RETENTION_OPTIONS.map(days => (
+                <SelectItem key={days} value={days}>Older than {days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setConfirmPrune(true)}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete Old Runs
+          </Button>
+        </div>
+      </div>
+
+      <Card className="p-6">
+        <div className="flex gap-2 mb-6">
+          {(["all", ...Object.keys(AUDIT_RUN_LABELS)] as Array<AuditRunKind | "all">).map(kind => (
+            <Button
+              key={kind}
+              size="sm"
+              variant={kindFilter === kind ? "default" : "outline"}
+              onClick={() => setKindFilter(kind)}
+            >
+              {kind === "all" ? "All Runs" : AUDIT_RUN_LABELS[kind]}
+            </Button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-10 bg-muted rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : runs.length === 0 ? (
+          <div className="text-center py-8">
+            <History className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-semibold mb-2">No Saved Runs</h3>
+            <p className="text-muted-foreground">Completed analyses are saved here automatically</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="p-3"></th>
+                  <th className="text-left p-3 text-muted-foreground font-medium">Date</th>
+                  <th className="text-left p-3 text-muted-foreground font-medium">Analysis</th>
+                  <th className="text-left p-3 text-muted-foreground font-medium">Model</th>
+                  <th className="text-left p-3 text-muted-foreground font-medium">Dataset</th>
+                  <th className="text-left p-3 text-muted-foreground font-medium">Groups</th>
+                  <th className="text-left p-3 text-muted-foreground font-medium">Result</th>
+                  <th className="p-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map(run => (
+                  <tr key={run.id} className="border-b border-border/50 hover:bg-accent/30">
+                    <td className="p-3">
+                      {run.kind === "bias_detection" && (
+                        <Checkbox
+                          aria-label="Select for comparison"
+                          checked={compareIds.includes(run.id)}
+                          onCheckedChange={(checked) => toggleCompare(run, checked === true)}
+                        />
+                      )}
+                    </td>
+                    <td className="p-3 text-muted-foreground whitespace-nowrap">{new Date(run.createdAt).toLocaleString()}</td>
+                    <td className="p-3">
+                      <Badge variant="secondary">{AUDIT_RUN_LABELS[run.kind]}</Badge>
+                    </td>
+                    <td className="p-3 font-medium">
+                      <ModelLink modelName={run.inputs.model_name} version={run.inputs.model_version} />
+                    </td>
+                    <td className="p-3 text-muted-foreground">
+                      <div>{run.file.name}</div>
+                      <div className="text-xs font-mono">{run.file.sha256.slice(0, 12)}</div>
+                    </td>
+                    <td className="p-3 text-muted-foreground">
+                      {run.inputs.privileged_group
+                        ? `${run.inputs.sensitive_attribute}: ${run.inputs.privileged_group} vs ${run.inputs.unprivileged_group}`
+                        : run.inputs.sensitive_attribute}
+                    </td>
+                    <td className="p-3 text-muted-foreground">{summarizeRun(run)}</td>
+                    <td className="p-3">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => navigate(`${AUDIT_RUN_ROUTES[run.kind]}?run=${run.id}`)}
+                        >
+                          <ExternalLink className="w-4 h-4 mr-2" />
+                          Open
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-muted-foreground hover:text-destructive"
+                          onClick={() => handleDelete(run)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      <AlertDialog open={confirmPrune} onOpenChange={setConfirmPrune}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete old runs?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every saved run older than {pruneDays} days will be permanently removed from this browser.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePrune}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
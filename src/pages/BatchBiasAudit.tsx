@@ -0,0 +1,634 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { FileUpload } from "@/components/common/FileUpload";
+import { MultiFileUpload } from "@/components/common/MultiFileUpload";
+import { ColumnSelect } from "@/components/common/ColumnSelect";
+import { PolicyProfileSelect } from "@/components/common/PolicyProfileSelect";
+import { ModelLink } from "@/components/common/ModelLink";
+import { ArrowLeft, CheckCircle, Clock, Download, Loader2, RotateCcw, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { biasDetectionApi, BiasDetectionResult, GovernanceModel, governanceApi, uploadDataset, UploadedDataset, ApiCancelledError, ApiError } from "@/lib/api";
+import { DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY, runWithConcurrency } from "@/lib/batch";
+import { checkColumnSelection, checkFileSelection, DatasetSchema, findPreferredColumns, formatCsv, getColumnOptions, getGroupOptions } from "@/lib/csv";
+import { saveRun } from "@/lib/history";
+import { startJob } from "@/lib/jobs";
+import { FAIRNESS_METRICS, FairnessMetric, isMetricFair } from "@/lib/fairness";
+import { getPolicyProfile } from "@/lib/policies";
+import { getSettings } from "@/lib/settings";
+
+type BatchMode = "files" | "versions";
+type BatchItemStatus = "queued" | "running" | "done" | "failed";
+
+interface BatchForm {
+  model_name: string;
+  model_version: string;
+  // Comma-separated, used in versions mode
+  model_versions: string;
+  target_variable: string;
+  sensitive_attribute: string;
+  privileged_group: string;
+  unprivileged_group: string;
+  policy_id: string;
+  // Audits run at a time
+  concurrency: string;
+}
+
+interface BatchItem {
+  id: string;
+  // File name or version, whichever differs between items
+  label: string;
+  file: File;
+  modelVersion: string;
+  status: BatchItemStatus;
+  result?: BiasDetectionResult;
+  error?: string;
+}
+
+const parseVersions = (value: string) =>
+  Array.from(new Set(value.split(",").map(version => version.trim()).filter(Boolean)));
+
+export default function BatchBiasAudit() {
+  const [mode, setMode] = useState<BatchMode>("files");
+  const [files, setFiles] = useState<File[]>([]);
+  const [versionFile, setVersionFile] = useState<File | null>(null);
+  const [schema, setSchema] = useState<DatasetSchema | null>(null);
+  const [form, setForm] = useState<BatchForm>({
+    model_name: "",
+    model_version: "",
+    model_versions: "",
+    target_variable: "",
+    sensitive_attribute: "",
+    privileged_group: "",
+    unprivileged_group: "",
+    policy_id: getSettings().policyProfileId,
+    concurrency: String(DEFAULT_BATCH_CONCURRENCY)
+  });
+  const [items, setItems] = useState<BatchItem[]>([]);
+  // Inputs the current batch was started with; retries reuse them even if the form has changed since
+  const [batchForm, setBatchForm] = useState<BatchForm | null>(null);
+  const [running, setRunning] = useState(false);
+  const [checkingFiles, setCheckingFiles] = useState(false);
+  const [registry, setRegistry] = useState<GovernanceModel[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    governanceApi.listModels()
+      .then(setRegistry)
+      .catch(error => console.error('Failed to load registered models:', error));
+  }, []);
+
+  const handleInputChange = (field: keyof BatchForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  // Both modes share the column selection, so a new schema resets it
+  const handleSchemaReady = useCallback((schema: DatasetSchema | null) => {
+    const [attribute] = findPreferredColumns(schema, getSettings().defaultSensitiveAttributes);
+    setSchema(schema);
+    setForm(prev => ({
+      ...prev,
+      target_variable: "",
+      sensitive_attribute: attribute ?? "",
+      privileged_group: "",
+      unprivileged_group: ""
+    }));
+  }, []);
+
+  const handleModeChange = (value: string) => {
+    setMode(value as BatchMode);
+    setSchema(null);
+    setVersionFile(null);
+  };
+
+  const handleSensitiveAttributeChange = (value: string) => {
+    setForm(prev => ({ ...prev, sensitive_attribute: value, privileged_group: "", unprivileged_group: "" }));
+  };
+
+  const registeredVersions = registry
+    .filter(model => model.model_name === form.model_name.trim())
+    .map(model => model.version);
+  const selectedVersions = parseVersions(form.model_versions);
+
+  const toggleVersion = (version: string) => {
+    const next = selectedVersions.includes(version)
+      ? selectedVersions.filter(selected => selected !== version)
+      : [...selectedVersions, version];
+    handleInputChange('model_versions', next.join(", "));
+  };
+
+  const showError = (title: string, description: string) => {
+    toast({ title, description, variant: "destructive" });
+    return false;
+  };
+
+  // Only the first file is profiled, so the others are read through to check the chosen columns and groups
+  const checkOtherFiles = async () => {
+    for (const file of files.slice(1)) {
+      let selectionError: string | null;
+      try {
+        selectionError = await checkFileSelection(file, {
+          targetVariable: form.target_variable,
+          sensitiveAttribute: form.sensitive_attribute,
+          groups: [form.privileged_group, form.unprivileged_group],
+        });
+      } catch (error) {
+        return showError("Invalid file", `${file.name}: ${error instanceof Error ? error.message : "Failed to read the file"}`);
+      }
+      if (selectionError) {
+        return showError("Invalid column selection", selectionError);
+      }
+    }
+    return true;
+  };
+
+  const validateForm = () => {
+    if (mode === "files" ? files.length === 0 : !versionFile) {
+      return showError("File required", mode === "files" ? "Please upload at least one CSV file" : "Please upload a CSV file");
+    }
+
+    const requiredFields: (keyof BatchForm)[] = [
+      'model_name',
+      mode === "files" ? 'model_version' : 'model_versions',
+      'target_variable',
+      'sensitive_attribute',
+      'privileged_group',
+      'unprivileged_group',
+    ];
+    for (const field of requiredFields) {
+      if (!form[field].trim()) {
+        return showError("Missing required field", `Please fill in ${field.replace(/_/g, ' ')}`);
+      }
+    }
+
+    const schemaError = checkColumnSelection(schema, {
+      targetVariable: form.target_variable,
+      sensitiveAttribute: form.sensitive_attribute,
+      groups: [form.privileged_group, form.unprivileged_group],
+    });
+    if (schemaError) {
+      return showError("Invalid column selection", schemaError);
+    }
+    if (schema.rowCount === 0) {
+      return showError("Invalid file", `${schema.fileName} has no data rows`);
+    }
+
+    const limit = Number(form.concurrency);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_BATCH_CONCURRENCY) {
+      return showError("Invalid concurrency", `Run between 1 and ${MAX_BATCH_CONCURRENCY} audits at a time`);
+    }
+
+    return true;
+  };
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const runItems = async (targets: BatchItem[], config: BatchForm) => {
+    setRunning(true);
+    setItems(prev => prev.map(item =>
+      targets.some(target => target.id === item.id) ? { ...item, status: "queued", error: undefined } : item
+    ));
+
+    let failed = 0;
+    const failItem = (item: BatchItem, error: unknown) => {
+      failed++;
+      if (error instanceof ApiCancelledError) {
+        updateItem(item.id, { status: "failed", error: "Cancelled" });
+        return;
+      }
+      console.error('Batch bias detection API error:', error);
+      updateItem(item.id, {
+        status: "failed",
+        error: error instanceof ApiError ? error.message : "Failed to perform bias detection",
+      });
+    };
+
+    // A file audited by several items, e.g. against each model version, is uploaded once up front
+    const datasets = new Map<File, UploadedDataset>();
+    const sharedFiles = Array.from(new Set(targets.map(item => item.file)))
+      .filter(file => targets.filter(item => item.file === file).length > 1);
+    for (const file of sharedFiles) {
+      const job = startJob("bias_detection", `Uploading ${file.name}`);
+      try {
+        datasets.set(file, await uploadDataset(file, job.control));
+        job.complete();
+      } catch (error) {
+        job.fail(error);
+        targets.filter(item => item.file === file).forEach(item => failItem(item, error));
+      }
+    }
+    const runnable = targets.filter(item => !sharedFiles.includes(item.file) || datasets.has(item.file));
+
+    await runWithConcurrency(runnable, Number(config.concurrency), async (item) => {
+      updateItem(item.id, { status: "running" });
+      const job = startJob<BiasDetectionResult>("bias_detection", `${config.model_name} v${item.modelVersion} · ${item.label}`);
+      try {
+        const result = await biasDetectionApi.detect(
+          datasets.get(item.file) ?? item.file,
+          config.model_name,
+          item.modelVersion,
+          config.target_variable,
+          config.sensitive_attribute,
+          config.privileged_group,
+          config.unprivileged_group,
+          getPolicyProfile(config.policy_id).thresholds,
+          job.control
+        );
+        updateItem(item.id, { status: "done", result });
+        job.complete();
+        const { model_name, target_variable, sensitive_attribute, privileged_group, unprivileged_group, policy_id } = config;
+        const inputs = {
+          model_name,
+          model_version: item.modelVersion,
+          target_variable,
+          sensitive_attribute,
+          privileged_group,
+          unprivileged_group,
+          policy_id,
+        };
+        saveRun("bias_detection", item.file, inputs, result)
+          .then(run => job.linkRun(run.id))
+          .catch(error => {
+            console.error('Failed to save run to history:', error);
+          });
+      } catch (error) {
+        job.fail(error);
+        failItem(item, error);
+      }
+    });
+    setRunning(false);
+
+    toast({
+      title: failed === 0 ? "Batch audit completed" : "Batch audit finished with failures",
+      description: `${targets.length - failed} of ${targets.length} audits succeeded`,
+      variant: failed === 0 ? "default" : "destructive",
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) return;
+    if (mode === "files") {
+      setCheckingFiles(true);
+      const valid = await checkOtherFiles();
+      setCheckingFiles(false);
+      if (!valid) return;
+    }
+
+    const config = {
+      ...form,
+      model_name: form.model_name.trim(),
+      model_version: form.model_version.trim(),
+    };
+    const batch: BatchItem[] = mode === "files"
+      ? files.map(file => ({
+        id: crypto.randomUUID(), label: file.name, file, modelVersion: config.model_version, status: "queued",
+      }))
+      : selectedVersions.map(version => ({
+        id: crypto.randomUUID(), label: `v${version}`, file: versionFile!, modelVersion: version, status: "queued",
+      }));
+
+    setBatchForm(config);
+    setItems(batch);
+    runItems(batch, config);
+  };
+
+  // Retries run with the inputs the batch was started with
+  const retryItems = (targets: BatchItem[]) => {
+    if (batchForm) runItems(targets, batchForm);
+  };
+
+  const batchSize = mode === "files" ? files.length : selectedVersions.length;
+  const failedItems = items.filter(item => item.status === "failed");
+  const settledCount = items.filter(item => item.status === "done" || item.status === "failed").length;
+  const batchPolicy = getPolicyProfile(batchForm?.policy_id ?? form.policy_id);
+
+  const handleExport = () => {
+    const rows = [
+      ["file", "model_name", "model_version", "status", ...FAIRNESS_METRICS.map(({ key }) => key), "audit_status", "record_count", "error"],
+      ...items.map(item => [
+        item.file.name,
+        batchForm?.model_name ?? "",
+        item.modelVersion,
+        item.status,
+        ...FAIRNESS_METRICS.map(({ key }) => item.result?.metrics[key] ?? ""),
+        item.result?.audit_status ?? "",
+        item.result?.record_count ?? "",
+        item.error ?? "",
+      ]),
+    ];
+    const blob = new Blob([formatCsv(rows)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${batchForm?.model_name ?? "batch"}_Batch_Bias_Audit.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const getItemStatusStyle = (status: BatchItemStatus) => {
+    switch (status) {
+      case "running": return { icon: Loader2, color: "text-primary animate-spin", text: "Running" };
+      case "done": return { icon: CheckCircle, color: "text-success", text: "Done" };
+      case "failed": return { icon: XCircle, color: "text-destructive", text: "Failed" };
+      default: return { icon: Clock, color: "text-muted-foreground", text: "Queued" };
+    }
+  };
+
+  const getMetricColor = (value: number, metric: FairnessMetric) => {
+    return isMetricFair(metric, value, batchPolicy.thresholds) ? "text-success" : "text-destructive";
+  };
+
+  const getStatusColor = (status: string) => {
+    return status === "COMPLIANT" ? "text-success" : "text-destructive";
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Batch Bias Audit</h1>
+          <p className="text-muted-foreground">Audit several datasets or model versions in one run</p>
+        </div>
+
+        <Button variant="outline" asChild>
+          <Link to="/bias-detection">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Bias Detection
+          </Link>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-6">
+          <Tabs value={mode} onValueChange={handleModeChange}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="files" disabled={running}>Multiple Files</TabsTrigger>
+              <TabsTrigger value="versions" disabled={running}>Multiple Versions</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {mode === "files" ? (
+            <MultiFileUpload files={files} onFilesChange={setFiles} onSchemaReady={handleSchemaReady} />
+          ) : (
+            <FileUpload onFileSelect={setVersionFile} onSchemaReady={handleSchemaReady} />
+          )}
+        </div>
+
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-4">Batch Configuration</h3>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="model_name">Model Name</Label>
+                <Input
+                  id="model_name"
+                  placeholder="e.g., hiring_classifier"
+                  value={form.model_name}
+                  onChange={(e) => handleInputChange('model_name', e.target.value)}
+                />
+              </div>
+
+              {mode === "files" ? (
+                <div>
+                  <Label htmlFor="model_version">Model Version</Label>
+                  <Input
+                    id="model_version"
+                    placeholder="e.g., 1.0"
+                    value={form.model_version}
+                    onChange={(e) => handleInputChange('model_version', e.target.value)}
+                  />
+                </div>
+              ) : (
+                <div>
+                  <Label htmlFor="model_versions">Model Versions</Label>
+                  <Input
+                    id="model_versions"
+                    placeholder="e.g., 1.0, 1.1, 2.0"
+                    value={form.model_versions}
+                    onChange={(e) => handleInputChange('model_versions', e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+
+            {mode === "versions" && registeredVersions.length > 0 && (
+              <div>
+                <p className="text-xs text-muted-foreground mb-2">Registered versions</p>
+                <div className="flex flex-wrap gap-2">
+                  {registeredVersions.map(version => (
+                    <Badge
+                      key={version}
+                      variant={selectedVersions.includes(version) ? "default" : "outline"}
+                      className="cursor-pointer"
+                      onClick={() => toggleVersion(version)}
+                    >
+                      v{version}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="policy_id">Policy Profile</Label>
+                <PolicyProfileSelect
+                  id="policy_id"
+                  value={form.policy_id}
+                  onValueChange={(value) => handleInputChange('policy_id', value)}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="concurrency">Concurrent Audits</Label>
+                <Input
+                  id="concurrency"
+                  type="number"
+                  min="1"
+                  max={MAX_BATCH_CONCURRENCY}
+                  value={form.concurrency}
+                  onChange={(e) => handleInputChange('concurrency', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="target_variable">Target Variable</Label>
+              <ColumnSelect
+                id="target_variable"
+                placeholder="Select target column"
+                value={form.target_variable}
+                options={getColumnOptions(schema, [form.sensitive_attribute])}
+                onValueChange={(value) => handleInputChange('target_variable', value)}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="sensitive_attribute">Sensitive Attribute</Label>
+              <ColumnSelect
+                id="sensitive_attribute"
+                placeholder="Select sensitive attribute"
+                value={form.sensitive_attribute}
+                options={getColumnOptions(schema, [form.target_variable])}
+                onValueChange={handleSensitiveAttributeChange}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="privileged_group">Privileged Group</Label>
+                <ColumnSelect
+                  id="privileged_group"
+                  placeholder="Select group"
+                  emptyPlaceholder="Select a sensitive attribute first"
+                  value={form.privileged_group}
+                  options={getGroupOptions(schema, form.sensitive_attribute, [form.unprivileged_group])}
+                  onValueChange={(value) => handleInputChange('privileged_group', value)}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="unprivileged_group">Unprivileged Group</Label>
+                <ColumnSelect
+                  id="unprivileged_group"
+                  placeholder="Select group"
+                  emptyPlaceholder="Select a sensitive attribute first"
+                  value={form.unprivileged_group}
+                  options={getGroupOptions(schema, form.sensitive_attribute, [form.privileged_group])}
+                  onValueChange={(value) => handleInputChange('unprivileged_group', value)}
+                />
+              </div>
+            </div>
+
+            {mode === "files" && files.length > 1 && (
+              <p className="text-xs text-muted-foreground">
+                Columns are taken from {files[0].name}; the other files are checked for the same columns and groups before the batch starts
+              </p>
+            )}
+          </div>
+
+          <Button
+            onClick={handleSubmit}
+            disabled={running || checkingFiles}
+            className="w-full mt-6 bg-gradient-to-r from-primary to-primary-glow"
+          >
+            {checkingFiles
+              ? "Checking files..."
+              : running
+              ? `Auditing ${settledCount} of ${items.length}...`
+              : batchSize > 0 ? `Run ${batchSize} Audit${batchSize === 1 ? "" : "s"}` : "Run Batch Audit"}
+          </Button>
+        </Card>
+      </div>
+
+      {items.length > 0 && (
+        <Card className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">Batch Results</h3>
+              <p className="text-sm text-muted-foreground">
+                {settledCount} of {items.length} settled · {failedItems.length} failed · {batchPolicy.name}
+              </p>
+            </div>
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={() => retryItems(failedItems)}
+                disabled={running || failedItems.length === 0}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Retry Failed
+              </Button>
+              <Button variant="outline" onClick={handleExport} disabled={running}>
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </Button>
+            </div>
+          </div>
+
+          <Progress value={(settledCount / items.length) * 100} className="h-2 mb-4" />
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-3 text-muted-foreground font-medium">Item</th>
+                  <th className="text-left p-3 text-muted-foreground font-medium">Progress</th>
+                  {FAIRNESS_METRICS.map(({ key, label }) => (
+                    <th key={key} className="text-left p-3 text-muted-foreground font-medium">{label}</th>
+                  ))}
+                  <th className="text-left p-3 text-muted-foreground font-medium">Audit Status</th>
+                  <th className="text-left p-3 text-muted-foreground font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(item => {
+                  const style = getItemStatusStyle(item.status);
+                  return (
+                    <tr key={item.id} className="border-b border-border/50 align-top">
+                      <td className="p-3 font-medium">
+                        {batchForm && item.status === "done" ? (
+                          <ModelLink modelName={batchForm.model_name} version={item.modelVersion}>{item.label}</ModelLink>
+                        ) : item.label}
+                      </td>
+                      <td className="p-3">
+                        <span className="flex items-center gap-2 text-sm">
+                          <style.icon className={`w-4 h-4 ${style.color}`} />
+                          {style.text}
+                        </span>
+                        {item.error && <p className="text-xs text-destructive mt-1">{item.error}</p>}
+                      </td>
+                      {FAIRNESS_METRICS.map(({ key }) => (
+                        <td key={key} className="p-3">
+                          {item.result ? (
+                            <span className={`font-medium ${getMetricColor(item.result.metrics[key], key)}`}>
+                              {item.result.metrics[key].toFixed(3)}
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </td>
+                      ))}
+                      <td className="p-3">
+                        {item.result ? (
+                          <span className={`font-medium ${getStatusColor(item.result.audit_status)}`}>
+                            {item.result.audit_status}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </td>
+                      <td className="p-3 text-right">
+                        {item.status === "failed" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => retryItems([item])}
+                            disabled={running}
+                          >
+                            <RotateCcw className="w-4 h-4 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, ArrowRight, CheckCircle, GitCompare, Minus, TrendingDown, TrendingUp } from "lucide-react";
+import { useActivePolicy } from "@/hooks/use-settings";
+import { AuditRun, listRuns } from "@/lib/history";
+import { compareBiasResults, ComparisonVerdict, getThresholdLabel, MetricComparison } from "@/lib/fairness";
+
+type BiasRun = AuditRun<"bias_detection">;
+type CompareMode = "runs" | "versions";
+
+const describeRun = (run: BiasRun) =>
+  `${run.inputs.model_name} v${run.inputs.model_version} · ${new Date(run.createdAt).toLocaleString()}`;
+
+export default function BiasComparison() {
+  const [runs, setRuns] = useState<BiasRun[]>([]);
+  const [mode, setMode] = useState<CompareMode>("runs");
+  const [modelName, setModelName] = useState("");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const policy = useActivePolicy();
+  const baselineId = searchParams.get("a") ?? "";
+  const candidateId = searchParams.get("b") ?? "";
+
+  useEffect(() => {
+    listRuns("bias_detection")
+      .then(saved => setRuns(saved as BiasRun[]))
+      .catch(error => console.error('Failed to load saved runs:', error));
+  }, []);
+
+  const baseline = runs.find(run => run.id === baselineId);
+  const candidate = runs.find(run => run.id === candidateId);
+  const comparison = baseline && candidate ? compareBiasResults(baseline.result, candidate.result, policy.thresholds) : null;
+
+  const selectRun = (slot: "a" | "b", id: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.set(slot, id);
+    setSearchParams(next, { replace: true });
+  };
+
+  // runs are newest first, so the first match is the latest audit of a version
+  const selectVersion = (slot: "a" | "b", version: string) => {
+    const latest = runs.find(run => run.inputs.model_name === modelName && run.inputs.model_version === version);
+    if (latest) selectRun(slot, latest.id);
+  };
+
+  const modelNames = Array.from(new Set(runs.map(run => run.inputs.model_name)));
+  const versions = Array.from(new Set(
+    runs.filter(run => run.inputs.model_name === modelName).map(run => run.inputs.model_version)
+  ));
+
+  const getVerdictStyle = (verdict: ComparisonVerdict) => {
+    switch (verdict) {
+      case "improved": return { icon: CheckCircle, color: "text-success", bg: "bg-success/10 border-success/20", text: "Bias improved" };
+      case "regressed": return { icon: AlertTriangle, color: "text-destructive", bg: "bg-destructive/10 border-destructive/20", text: "Bias regressed" };
+      case "mixed": return { icon: AlertTriangle, color: "text-warning", bg: "bg-warning/10 border-warning/20", text: "Mixed results" };
+      default: return { icon: Minus, color: "text-muted-foreground", bg: "bg-muted border-border", text: "No meaningful change" };
+    }
+  };
+
+  const getTrendIcon = (row: MetricComparison) => {
+    if (row.trend === "improved") return <TrendingUp className="w-4 h-4 text-success" />;
+    if (row.trend === "regressed") return <TrendingDown className="w-4 h-4 text-destructive" />;
+    return <Minus className="w-4 h-4 text-muted-foreground" />;
+  };
+
+  const renderVersionSelect = (slot: "a" | "b", run?: BiasRun) => (
+    <Select
+      value={run && run.inputs.model_name === modelName ? run.inputs.model_version : ""}
+      onValueChange={(version) => selectVersion(slot, version)}
+      disabled={!modelName}
+    >
+      <SelectTrigger>
+        <SelectValue placeholder="Select version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(version => (
+          <SelectItem key={version} value={version}>v{version}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const renderRunSelect = (slot: "a" | "b", value: string) => (
+    <Select value={value} onValueChange={(id) => selectRun(slot, id)}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select saved run" />
+      </SelectTrigger>
+      <SelectContent>
+        {runs.map(run => (
+          <SelectItem key={run.id} value={run.id}>{describeRun(run)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Compare Bias Runs</h1>
+        <p className="text-muted-foreground">Check whether a new run or model version fixed the bias found in an earlier one</p>
+      </div>
+
+      <Card className="p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Runs to Compare</h3>
+          <div className="flex gap-2">
+            <Button size="sm" variant={mode === "runs" ? "default" : "outline"} onClick={() => setMode("runs")}>
+              Saved Runs
+            </Button>
+            <Button size="sm" variant={mode === "versions" ? "default" : "outline"} onClick={() => setMode("versions")}>
+              Model Versions
+            </Button>
+          </div>
+        </div>
+
+        {runs.length === 0 ? (
+          <p className="text-muted-foreground">
+            No saved bias detection runs yet. Run an analysis on the <Link to="/bias-detection" className="text-primary">Bias Detection</Link> page first.
+          </p>
+        ) : mode === "runs" ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Baseline</Label>
+              {renderRunSelect("a", baselineId)}
+            </div>
+            <div>
+              <Label>Candidate</Label>
+              {renderRunSelect("b", candidateId)}
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Model</Label>
+              <Select value={modelName} onValueChange={setModelName}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select model" />
+                </SelectTrigger>
+                <SelectContent>
+                  {modelNames.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Baseline Version</Label>
+              {renderVersionSelect("a", baseline)}
+            </div>
+            <div>
+              <Label>Candidate Version</Label>
+              {renderVersionSelect("b", candidate)}
+            </div>
+          </div>
+        )}
+      </Card>
+
+      {comparison && baseline && candidate && (
+        <>
+          {(() => {
+            const style = getVerdictStyle(comparison.verdict);
+            const VerdictIcon = style.icon;
+            return (
+              <Card className={`p-6 border ${style.bg}`}>
+                <div className="flex items-center gap-3">
+                  <VerdictIcon className={`w-6 h-6 ${style.color}`} />
+                  <div>
+                    <h3 className={`text-lg font-semibold ${style.color}`}>{style.text}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {describeRun(baseline)} <ArrowRight className="inline w-3 h-3 mx-1" /> {describeRun(candidate)}
+                    </p>
+                  </div>
+                </div>
+                {(baseline.file.sha256 !== candidate.file.sha256 ||
+                  baseline.inputs.sensitive_attribute !== candidate.inputs.sensitive_attribute) && (
+                  <p className="mt-3 text-sm text-warning">
+                    These runs used different datasets or sensitive attributes, so differences may not be caused by the model alone.
+                  </p>
+                )}
+              </Card>
+            );
+          })()}
+
+          <Card className="p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold">Metric Deltas</h3>
+              <span className="text-sm text-muted-foreground">Thresholds: {policy.name}</span>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left p-3 text-muted-foreground font-medium">Metric</th>
+                    <th className="text-left p-3 text-muted-foreground font-medium">Threshold</th>
+                    <th className="text-right p-3 text-muted-foreground font-medium">Baseline</th>
+                    <th className="text-right p-3 text-muted-foreground font-medium">Candidate</th>
+                    <th className="text-right p-3 text-muted-foreground font-medium">Delta</th>
+                    <th className="text-left p-3 text-muted-foreground font-medium">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.metrics.map(row => (
+                    <tr key={row.metric} className="border-b border-border/50">
+                      <td className="p-3 font-medium">{row.label}</td>
+                      <td className="p-3 text-muted-foreground">{getThresholdLabel(row.metric, policy.thresholds)}</td>
+                      <td className={`p-3 text-right font-mono ${row.baselineFair ? "text-success" : "text-destructive"}`}>
+                        {row.baseline.toFixed(3)}
+                      </td>
+                      <td className={`p-3 text-right font-mono ${row.candidateFair ? "text-success" : "text-destructive"}`}>
+                        {row.candidate.toFixed(3)}
+                      </td>
+                      <td className="p-3 text-right font-mono">
+                        {row.delta > 0 ? "+" : ""}{row.delta.toFixed(3)}
+                      </td>
+                      <td className="p-3">
+                        <div className="flex items-center gap-2">
+                          {getTrendIcon(row)}
+                          {row.crossed === "now_passing" && (
+                            <Badge variant="outline" className="bg-success/10 text-success border-success/20">Now passing</Badge>
+                          )}
+                          {row.crossed === "now_failing" && (
+                            <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20">Now failing</Badge>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        </>
+      )}
+
+      {!comparison && runs.length > 0 && (
+        <Card className="p-6 text-center">
+          <GitCompare className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+          <h3 className="text-lg font-semibold mb-2">Select Two Runs</h3>
+          <p className="text-muted-foreground">Pick a baseline and a candidate to see how each fairness metric changed</p>
+        </Card>
+      )}
+    </div>
+  );
+}
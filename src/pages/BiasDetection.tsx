@@ -1,14 +1,47 @@
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { FileUpload } from "@/components/common/FileUpload";
+import { ColumnSelect } from "@/components/common/ColumnSelect";
+import { PolicyProfileSelect } from "@/components/common/PolicyProfileSelect";
+import { SavedRunBanner } from "@/components/common/SavedRunBanner";
+import { ModelLink } from "@/components/common/ModelLink";
+import { AnalysisProgress } from "@/components/common/AnalysisProgress";
 import { RiskGauge } from "@/components/dashboard/RiskGauge";
-import { AlertTriangle, CheckCircle, TrendingDown, FileText } from "lucide-react";
+import { GroupAnalysisForm } from "@/components/bias/GroupAnalysisForm";
+import { GroupMetricMatrix } from "@/components/bias/GroupMetricMatrix";
+import { ThresholdSweepPanel } from "@/components/bias/ThresholdSweepPanel";
+import { EvidenceBadge } from "@/components/bias/EvidenceBadge";
+import { GroupPerformanceBreakdown } from "@/components/bias/GroupPerformanceBreakdown";
+import { MitigationForm } from "@/components/bias/MitigationForm";
+import { MitigationComparison } from "@/components/bias/MitigationComparison";
+import { AlertTriangle, CheckCircle, TrendingDown, FileText, GitCompare, Layers } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { biasDetectionApi, BiasDetectionResult, ApiError } from "@/lib/api";
+import { useSavedRun } from "@/hooks/use-saved-run";
+import { useAnalysisProgress } from "@/hooks/use-analysis-progress";
+import {
+  biasDetectionApi,
+  BiasDetectionResult,
+  GroupAnalysisConfig,
+  GroupBiasResult,
+  MitigationResult,
+  MitigationTechnique,
+  ThresholdSweepResult,
+  ApiCancelledError,
+  ApiError,
+} from "@/lib/api";
+import { checkColumnSelection, DatasetSchema, findPreferredColumns, getColumnOptions, getColumnValues, getGroupOptions } from "@/lib/csv";
+import { AuditRun, saveRun } from "@/lib/history";
+import { FAIRNESS_METRICS, FairnessMetric, getThresholdLabel, isMetricFair, SIGNIFICANCE_TEST_LABELS } from "@/lib/fairness";
+import { MITIGATION_TECHNIQUE_LABELS } from "@/lib/mitigation";
+import { getPolicyProfile } from "@/lib/policies";
+import { getSettings } from "@/lib/settings";
+import { DEFAULT_THRESHOLD_RANGE, MAX_SWEEP_POINTS, ThresholdRange, thresholdRange } from "@/lib/thresholds";
+import type { JobHandle } from "@/lib/jobs";
 
 interface BiasDetectionForm {
   file: File | null;
@@ -18,10 +51,26 @@ interface BiasDetectionForm {
   sensitive_attribute: string;
   privileged_group: string;
   unprivileged_group: string;
+  policy_id: string;
 }
 
 // Interface moved to api.ts
 
+type AnalysisMode = "pair" | "groups" | "sweep";
+
+const ANALYSIS_KINDS = {
+  pair: "bias_detection",
+  groups: "group_bias_detection",
+  sweep: "threshold_sweep",
+} as const;
+
+const emptyGroupConfig: GroupAnalysisConfig = {
+  sensitive_attributes: [],
+  reference_groups: {},
+  comparison_groups: {},
+  intersectional: false,
+};
+
 export default function BiasDetection() {
   const [form, setForm] = useState<BiasDetectionForm>({
     file: null,
@@ -30,20 +79,126 @@ export default function BiasDetection() {
     target_variable: "",
     sensitive_attribute: "",
     privileged_group: "",
-    unprivileged_group: ""
+    unprivileged_group: "",
+    policy_id: getSettings().policyProfileId
   });
+  const [schema, setSchema] = useState<DatasetSchema | null>(null);
+  const [mode, setMode] = useState<AnalysisMode>("pair");
+  const [groupConfig, setGroupConfig] = useState<GroupAnalysisConfig>(emptyGroupConfig);
   const [result, setResult] = useState<BiasDetectionResult | null>(null);
+  const [groupResult, setGroupResult] = useState<GroupBiasResult | null>(null);
+  const [sweepResult, setSweepResult] = useState<ThresholdSweepResult | null>(null);
+  const [sweepRange, setSweepRange] = useState<ThresholdRange>(DEFAULT_THRESHOLD_RANGE);
+  // Identifies the displayed sweep so its operating point resets when a new one arrives
+  const [sweepKey, setSweepKey] = useState("");
+  const [mitigation, setMitigation] = useState<MitigationResult | null>(null);
+  // Policy the displayed result was evaluated against, which may differ from the form
+  const [resultPolicyId, setResultPolicyId] = useState(form.policy_id);
+  const [resultModel, setResultModel] = useState({ name: "", version: "" });
   const [loading, setLoading] = useState(false);
+  const [viewedRun, setViewedRun] = useState<AuditRun | null>(null);
+  const [currentRunId, setCurrentRunId] = useState<string | null>(null);
+  const savedRun = useSavedRun("bias_detection");
+  const savedGroupRun = useSavedRun("group_bias_detection");
+  const savedSweepRun = useSavedRun("threshold_sweep");
+  const savedMitigationRun = useSavedRun("bias_mitigation");
+  const analysis = useAnalysisProgress(["bias_detection", "group_bias_detection", "threshold_sweep", "bias_mitigation"]);
+  const analyzing = loading || analysis.running;
+  // Comparisons finished so far in a running multi-group analysis
+  const partialGroups = mode === "groups" ? (analysis.partialResult as GroupBiasResult | undefined) : undefined;
+  const navigate = useNavigate();
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (!savedRun) return;
+    setViewedRun(savedRun);
+    setCurrentRunId(savedRun.id);
+    setMode("pair");
+    setResult(savedRun.result);
+    setMitigation(null);
+    setResultPolicyId(savedRun.inputs.policy_id);
+    setResultModel({ name: savedRun.inputs.model_name, version: savedRun.inputs.model_version });
+    setForm(prev => ({ ...prev, ...savedRun.inputs }));
+  }, [savedRun]);
+
+  useEffect(() => {
+    if (!savedGroupRun) return;
+    const { group_analysis, ...inputs } = savedGroupRun.inputs;
+    setViewedRun(savedGroupRun);
+    setCurrentRunId(null);
+    setMode("groups");
+    setGroupResult(savedGroupRun.result);
+    setGroupConfig(group_analysis ?? emptyGroupConfig);
+    setResultPolicyId(inputs.policy_id);
+    setResultModel({ name: inputs.model_name, version: inputs.model_version });
+    setForm(prev => ({ ...prev, ...inputs }));
+  }, [savedGroupRun]);
+
+  useEffect(() => {
+    if (!savedSweepRun) return;
+    const { score_thresholds, ...inputs } = savedSweepRun.inputs;
+    setViewedRun(savedSweepRun);
+    setCurrentRunId(null);
+    setMode("sweep");
+    setSweepResult(savedSweepRun.result);
+    setSweepKey(savedSweepRun.id);
+    if (score_thresholds && score_thresholds.length > 1) {
+      const [from, second] = score_thresholds;
+      setSweepRange({ from, to: score_thresholds[score_thresholds.length - 1], step: Math.round((second - from) * 10000) / 10000 });
+    }
+    setResultPolicyId(inputs.policy_id);
+    setResultModel({ name: inputs.model_name, version: inputs.model_version });
+    setForm(prev => ({ ...prev, ...inputs }));
+  }, [savedSweepRun]);
+
+  // A saved mitigation is shown on its own; its before column stands in for the detection result
+  useEffect(() => {
+    if (!savedMitigationRun) return;
+    const { technique, repair_level, ...inputs } = savedMitigationRun.inputs;
+    setViewedRun(savedMitigationRun);
+    setCurrentRunId(null);
+    setMode("pair");
+    setResult(null);
+    setMitigation(savedMitigationRun.result);
+    setResultPolicyId(inputs.policy_id);
+    setResultModel({ name: inputs.model_name, version: inputs.model_version });
+    setForm(prev => ({ ...prev, ...inputs }));
+  }, [savedMitigationRun]);
+
   const handleInputChange = (field: keyof BiasDetectionForm, value: string) => {
     setForm(prev => ({ ...prev, [field]: value }));
   };
 
-  const handleFileSelect = (file: File) => {
+  const handleFileSelect = (file: File | null) => {
     setForm(prev => ({ ...prev, file }));
   };
 
+  // A new file invalidates any columns picked from the previous one; default attributes from settings are preselected
+  const handleSchemaReady = useCallback((schema: DatasetSchema | null) => {
+    const attributes = findPreferredColumns(schema, getSettings().defaultSensitiveAttributes);
+    setSchema(schema);
+    setForm(prev => ({
+      ...prev,
+      target_variable: "",
+      sensitive_attribute: attributes[0] ?? "",
+      privileged_group: "",
+      unprivileged_group: ""
+    }));
+    setGroupConfig(attributes.reduce((config, attribute) => {
+      const [reference, ...others] = getColumnValues(schema, attribute);
+      return {
+        ...config,
+        sensitive_attributes: [...config.sensitive_attributes, attribute],
+        reference_groups: { ...config.reference_groups, [attribute]: reference ?? "" },
+        comparison_groups: { ...config.comparison_groups, [attribute]: others },
+      };
+    }, emptyGroupConfig));
+  }, []);
+
+  const handleSensitiveAttributeChange = (value: string) => {
+    setForm(prev => ({ ...prev, sensitive_attribute: value, privileged_group: "", unprivileged_group: "" }));
+  };
+
   const validateForm = () => {
     if (!form.file) {
       toast({
@@ -54,7 +209,9 @@ export default function BiasDetection() {
       return false;
     }
     
-    const requiredFields = ['model_name', 'model_version', 'target_variable', 'sensitive_attribute', 'privileged_group', 'unprivileged_group'];
+    const requiredFields = mode === "groups"
+      ? ['model_name', 'model_version', 'target_variable']
+      : ['model_name', 'model_version', 'target_variable', 'sensitive_attribute', 'privileged_group', 'unprivileged_group'];
     for (const field of requiredFields) {
       if (!form[field as keyof BiasDetectionForm]) {
         toast({
@@ -66,14 +223,156 @@ export default function BiasDetection() {
       }
     }
     
+    if (mode === "groups") {
+      return validateGroupConfig();
+    }
+
+    const schemaError = checkColumnSelection(schema, {
+      targetVariable: form.target_variable,
+      sensitiveAttribute: form.sensitive_attribute,
+      groups: [form.privileged_group, form.unprivileged_group],
+    });
+    if (schemaError) {
+      toast({
+        title: "Invalid column selection",
+        description: schemaError,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (mode === "sweep" && !thresholdRange(sweepRange)) {
+      toast({
+        title: "Invalid threshold range",
+        description: `Thresholds must run upwards between 0 and 1, with at most ${MAX_SWEEP_POINTS} steps`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    
     return true;
   };
 
+  const validateGroupConfig = () => {
+    if (groupConfig.sensitive_attributes.length === 0) {
+      toast({
+        title: "Missing required field",
+        description: "Please select at least one sensitive attribute",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    for (const attribute of groupConfig.sensitive_attributes) {
+      const reference = groupConfig.reference_groups[attribute];
+      const groups = groupConfig.comparison_groups[attribute] ?? [];
+      const schemaError = groups.length === 0
+        ? `Select at least one group to compare against ${reference || "the reference"} in ${attribute}`
+        : checkColumnSelection(schema, {
+          targetVariable: form.target_variable,
+          sensitiveAttribute: attribute,
+          groups: [reference, ...groups],
+        });
+      if (schemaError) {
+        toast({
+          title: "Invalid group selection",
+          description: schemaError,
+          variant: "destructive",
+        });
+        return false;
+      }
+    }
+
+    return true;
+  };
+
+  const runGroupAnalysis = async (job: JobHandle) => {
+    const groupResult = await biasDetectionApi.detectGroups(
+      form.file!,
+      form.model_name,
+      form.model_version,
+      form.target_variable,
+      groupConfig,
+      getPolicyProfile(form.policy_id).thresholds,
+      job.control
+    );
+
+    job.complete();
+    setGroupResult(groupResult);
+    setResultPolicyId(form.policy_id);
+    setResultModel({ name: form.model_name, version: form.model_version });
+    setViewedRun(null);
+    setCurrentRunId(null);
+    const { file, model_name, model_version, target_variable, policy_id } = form;
+    const inputs = {
+      model_name,
+      model_version,
+      target_variable,
+      sensitive_attribute: groupConfig.sensitive_attributes.join(", "),
+      group_analysis: groupConfig,
+      policy_id,
+    };
+    saveRun("group_bias_detection", file!, inputs, groupResult)
+      .then(run => job.linkRun(run.id))
+      .catch(error => {
+        console.error('Failed to save run to history:', error);
+      });
+    toast({
+      title: "Multi-group analysis completed",
+      description: `Compared ${groupResult.comparisons.length} group pairs across ${groupResult.record_count} records`,
+    });
+  };
+
+  const runThresholdSweep = async (job: JobHandle) => {
+    const scoreThresholds = thresholdRange(sweepRange)!;
+    const sweepResult = await biasDetectionApi.sweepThresholds(
+      form.file!,
+      form.model_name,
+      form.model_version,
+      form.target_variable,
+      form.sensitive_attribute,
+      form.privileged_group,
+      form.unprivileged_group,
+      scoreThresholds,
+      getPolicyProfile(form.policy_id).thresholds,
+      job.control
+    );
+
+    job.complete();
+    setSweepResult(sweepResult);
+    setSweepKey(job.id);
+    setResultPolicyId(form.policy_id);
+    setResultModel({ name: form.model_name, version: form.model_version });
+    setViewedRun(null);
+    setCurrentRunId(null);
+    const { file, ...inputs } = form;
+    saveRun("threshold_sweep", file!, { ...inputs, score_thresholds: scoreThresholds }, sweepResult)
+      .then(run => job.linkRun(run.id))
+      .catch(error => {
+        console.error('Failed to save run to history:', error);
+      });
+    toast({
+      title: "Threshold sweep completed",
+      description: `Evaluated ${sweepResult.points.length} thresholds across ${sweepResult.record_count} records`,
+    });
+  };
+
   const handleSubmit = async () => {
     if (!validateForm()) return;
 
     setLoading(true);
+    const label = `${form.model_name} v${form.model_version}`;
+    const job = analysis.start(ANALYSIS_KINDS[mode], label);
     try {
+      if (mode === "groups") {
+        await runGroupAnalysis(job);
+        return;
+      }
+      if (mode === "sweep") {
+        await runThresholdSweep(job);
+        return;
+      }
+
       const result = await biasDetectionApi.detect(
         form.file!,
         form.model_name,
@@ -81,16 +380,38 @@ export default function BiasDetection() {
         form.target_variable,
         form.sensitive_attribute,
         form.privileged_group,
-        form.unprivileged_group
+        form.unprivileged_group,
+        getPolicyProfile(form.policy_id).thresholds,
+        job.control
       );
+      job.complete();
       
       console.log('Bias detection API response:', result);
       setResult(result);
+      setMitigation(null);
+      setResultPolicyId(form.policy_id);
+      setResultModel({ name: form.model_name, version: form.model_version });
+      setViewedRun(null);
+      setCurrentRunId(null);
+      const { file, ...inputs } = form;
+      saveRun("bias_detection", file!, inputs, result)
+        .then(run => {
+          setCurrentRunId(run.id);
+          job.linkRun(run.id);
+        })
+        .catch(error => {
+          console.error('Failed to save run to history:', error);
+        });
       toast({
         title: "Bias detection completed",
-        description: `Analysis completed for ${result.record_count ?? 0} records`,
+        description: `Analysis completed for ${result.record_count} records`,
       });
     } catch (error) {
+      job.fail(error);
+      if (error instanceof ApiCancelledError) {
+        toast({ title: "Analysis cancelled" });
+        return;
+      }
       console.error('Bias detection API error:', error);
       const errorMessage = error instanceof ApiError 
         ? error.message 
@@ -106,11 +427,59 @@ export default function BiasDetection() {
     }
   };
 
-  const getMetricColor = (value: number, metric: string) => {
-    if (metric === 'disparate_impact') {
-      return value >= 0.8 ? "text-success" : "text-destructive";
+  const handleMitigate = async (technique: MitigationTechnique, repairLevel?: number) => {
+    if (!validateForm()) return;
+
+    setLoading(true);
+    const job = analysis.start("bias_mitigation", `${form.model_name} v${form.model_version} · ${MITIGATION_TECHNIQUE_LABELS[technique]}`);
+    try {
+      const mitigation = await biasDetectionApi.mitigate(
+        form.file!,
+        form.model_name,
+        form.model_version,
+        form.target_variable,
+        form.sensitive_attribute,
+        form.privileged_group,
+        form.unprivileged_group,
+        technique,
+        repairLevel,
+        getPolicyProfile(form.policy_id).thresholds,
+        job.control
+      );
+      job.complete();
+      setMitigation(mitigation);
+      setResultPolicyId(form.policy_id);
+      setResultModel({ name: form.model_name, version: form.model_version });
+      const { file, ...inputs } = form;
+      saveRun("bias_mitigation", file!, { ...inputs, technique, repair_level: repairLevel }, mitigation)
+        .then(run => job.linkRun(run.id))
+        .catch(error => {
+          console.error('Failed to save run to history:', error);
+        });
+      toast({
+        title: "Mitigation completed",
+        description: `${MITIGATION_TECHNIQUE_LABELS[technique]}: ${mitigation.before.audit_status} → ${mitigation.after.audit_status}`,
+      });
+    } catch (error) {
+      job.fail(error);
+      if (error instanceof ApiCancelledError) {
+        toast({ title: "Mitigation cancelled" });
+        return;
+      }
+      toast({
+        title: "Mitigation failed",
+        description: error instanceof ApiError ? error.message : "Failed to apply the mitigation",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
     }
-    return Math.abs(value) <= 0.1 ? "text-success" : "text-destructive";
+  };
+
+  const resultPolicy = getPolicyProfile(resultPolicyId);
+
+  const getMetricColor = (value: number, metric: FairnessMetric) => {
+    return isMetricFair(metric, value, resultPolicy.thresholds) ? "text-success" : "text-destructive";
   };
 
   const getStatusIcon = (status: string) => {
@@ -121,17 +490,66 @@ export default function BiasDetection() {
     return status === "COMPLIANT" ? "text-success" : "text-destructive";
   };
 
+  // Sensitive attribute and group pair, shared by the single pair and threshold sweep modes
+  const pairFields = (
+    <>
+      <div>
+        <Label htmlFor="sensitive_attribute">Sensitive Attribute</Label>
+        <ColumnSelect
+          id="sensitive_attribute"
+          placeholder="Select sensitive attribute"
+          value={form.sensitive_attribute}
+          options={getColumnOptions(schema, [form.target_variable])}
+          onValueChange={handleSensitiveAttributeChange}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="privileged_group">Privileged Group</Label>
+          <ColumnSelect
+            id="privileged_group"
+            placeholder="Select group"
+            emptyPlaceholder="Select a sensitive attribute first"
+            value={form.privileged_group}
+            options={getGroupOptions(schema, form.sensitive_attribute, [form.unprivileged_group])}
+            onValueChange={(value) => handleInputChange('privileged_group', value)}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="unprivileged_group">Unprivileged Group</Label>
+          <ColumnSelect
+            id="unprivileged_group"
+            placeholder="Select group"
+            emptyPlaceholder="Select a sensitive attribute first"
+            value={form.unprivileged_group}
+            options={getGroupOptions(schema, form.sensitive_attribute, [form.privileged_group])}
+            onValueChange={(value) => handleInputChange('unprivileged_group', value)}
+          />
+        </div>
+      </div>
+    </>
+  );
+
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold text-foreground">Bias Detection</h1>
-        <p className="text-muted-foreground">Analyze AI models for algorithmic bias and fairness violations</p>
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Bias Detection</h1>
+          <p className="text-muted-foreground">Analyze AI models for algorithmic bias and fairness violations</p>
+        </div>
+
+        <Button variant="outline" onClick={() => navigate("/bias-detection/batch")}>
+          <Layers className="w-4 h-4 mr-2" />
+          Batch Audit
+        </Button>
       </div>
 
       {/* Input Form */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="space-y-6">
-          <FileUpload onFileSelect={handleFileSelect} />
+          <FileUpload onFileSelect={handleFileSelect} onSchemaReady={handleSchemaReady} />
           
           <Card className="p-6">
             <h3 className="text-lg font-semibold mb-4">Model Configuration</h3>
@@ -157,69 +575,94 @@ export default function BiasDetection() {
                   />
                 </div>
               </div>
+
+              <div>
+                <Label htmlFor="policy_id">Policy Profile</Label>
+                <PolicyProfileSelect
+                  id="policy_id"
+                  value={form.policy_id}
+                  onValueChange={(value) => handleInputChange('policy_id', value)}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  {getPolicyProfile(form.policy_id).description}
+                </p>
+              </div>
               
               <div>
                 <Label htmlFor="target_variable">Target Variable</Label>
-                <Input
+                <ColumnSelect
                   id="target_variable"
-                  placeholder="e.g., hired, approved, selected"
+                  placeholder="Select target column"
                   value={form.target_variable}
-                  onChange={(e) => handleInputChange('target_variable', e.target.value)}
+                  options={getColumnOptions(schema, [form.sensitive_attribute])}
+                  onValueChange={(value) => handleInputChange('target_variable', value)}
                 />
               </div>
               
-              <div>
-                <Label htmlFor="sensitive_attribute">Sensitive Attribute</Label>
-                <Select onValueChange={(value) => handleInputChange('sensitive_attribute', value)}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select sensitive attribute" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="gender">Gender</SelectItem>
-                    <SelectItem value="race">Race</SelectItem>
-                    <SelectItem value="age">Age</SelectItem>
-                    <SelectItem value="ethnicity">Ethnicity</SelectItem>
-                    <SelectItem value="religion">Religion</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="privileged_group">Privileged Group</Label>
-                  <Input
-                    id="privileged_group"
-                    placeholder="e.g., Male, White"
-                    value={form.privileged_group}
-                    onChange={(e) => handleInputChange('privileged_group', e.target.value)}
-                  />
-                </div>
-                
-                <div>
-                  <Label htmlFor="unprivileged_group">Unprivileged Group</Label>
-                  <Input
-                    id="unprivileged_group"
-                    placeholder="e.g., Female, Non-White"
-                    value={form.unprivileged_group}
-                    onChange={(e) => handleInputChange('unprivileged_group', e.target.value)}
+              <Tabs value={mode} onValueChange={(value) => setMode(value as AnalysisMode)}>
+                <TabsList className="grid w-full grid-cols-3">
+                  <TabsTrigger value="pair">Single Pair</TabsTrigger>
+                  <TabsTrigger value="groups">Multi-Group</TabsTrigger>
+                  <TabsTrigger value="sweep">Threshold Sweep</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="pair" className="space-y-4">
+                  {pairFields}
+                </TabsContent>
+
+                <TabsContent value="groups">
+                  <GroupAnalysisForm
+                    schema={schema}
+                    targetVariable={form.target_variable}
+                    config={groupConfig}
+                    onChange={setGroupConfig}
                   />
-                </div>
-              </div>
+                </TabsContent>
+
+                <TabsContent value="sweep" className="space-y-4">
+                  {pairFields}
+
+                  <div>
+                    <Label>Decision Thresholds</Label>
+                    <div className="grid grid-cols-3 gap-4 mt-1">
+                      {(["from", "to", "step"] as const).map(field => (
+                        <div key={field}>
+                          <Label htmlFor={`sweep_${field}`} className="text-xs text-muted-foreground capitalize">{field}</Label>
+                          <Input
+                            id={`sweep_${field}`}
+                            type="number"
+                            min={0}
+                            max={1}
+                            step={0.01}
+                            value={sweepRange[field]}
+                            onChange={(e) => setSweepRange(prev => ({ ...prev, [field]: e.target.valueAsNumber }))}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {thresholdRange(sweepRange)?.length ?? 0} thresholds between 0 and 1 on the model's score
+                    </p>
+                  </div>
+                </TabsContent>
+              </Tabs>
             </div>
             
             <Button 
               onClick={handleSubmit} 
-              disabled={loading} 
+              disabled={analyzing} 
               className="w-full mt-6 bg-gradient-to-r from-primary to-primary-glow"
             >
-              {loading ? "Analyzing..." : "Run Bias Detection"}
+              {analyzing ? "Analyzing..." : mode === "sweep" ? "Run Threshold Sweep" : "Run Bias Detection"}
             </Button>
           </Card>
         </div>
 
         {/* Results */}
         <div className="space-y-6">
-          {result && (
+          {viewedRun && !analyzing && <SavedRunBanner run={viewedRun} />}
+
+          {mode === "pair" && result && (
             <>
               <Card className="p-6">
                 <div className="flex items-center gap-3 mb-4">
@@ -233,44 +676,71 @@ export default function BiasDetection() {
                       {result.audit_status}
                     </p>
                   </div>
+                  {result.evidence && (
+                    <div className="ml-auto">
+                      <EvidenceBadge verdict={result.evidence.verdict} />
+                    </div>
+                  )}
                 </div>
                 
-                <div className="text-sm text-muted-foreground">
-                  Analyzed {result.record_count ?? 0} records
+                <div className="flex items-center justify-between">
+                  <div className="text-sm text-muted-foreground">
+                    Analyzed {result.record_count} records for{" "}
+                    <ModelLink modelName={resultModel.name} version={resultModel.version} />
+                  </div>
+                  {currentRunId && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => navigate(`/bias-detection/compare?a=${currentRunId}`)}
+                    >
+                      <GitCompare className="w-4 h-4 mr-2" />
+                      Compare
+                    </Button>
+                  )}
                 </div>
               </Card>
 
               <Card className="p-6">
-                <h3 className="text-lg font-semibold mb-4">Fairness Metrics</h3>
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="text-lg font-semibold">Fairness Metrics</h3>
+                  <span className="text-sm text-muted-foreground">{resultPolicy.name}</span>
+                </div>
                 <div className="space-y-4">
-                  <div className="flex justify-between items-center">
-                    <span className="text-muted-foreground">Disparate Impact</span>
-                    <span className={`font-bold ${getMetricColor(result.metrics.disparate_impact ?? 0, 'disparate_impact')}`}>
-                      {result.metrics.disparate_impact?.toFixed(3) ?? 'N/A'}
-                    </span>
-                  </div>
-                  
-                  <div className="flex justify-between items-center">
-                    <span className="text-muted-foreground">Statistical Parity Difference</span>
-                    <span className={`font-bold ${getMetricColor(result.metrics.statistical_parity_difference ?? 0, 'spd')}`}>
-                      {result.metrics.statistical_parity_difference?.toFixed(3) ?? 'N/A'}
-                    </span>
-                  </div>
-                  
-                  <div className="flex justify-between items-center">
-                    <span className="text-muted-foreground">Equal Opportunity Difference</span>
-                    <span className={`font-bold ${getMetricColor(result.metrics.equal_opportunity_difference ?? 0, 'eod')}`}>
-                      {result.metrics.equal_opportunity_difference?.toFixed(3) ?? 'N/A'}
-                    </span>
-                  </div>
-                  
-                  <div className="flex justify-between items-center">
-                    <span className="text-muted-foreground">Average Odds Difference</span>
-                    <span className={`font-bold ${getMetricColor(result.metrics.average_odds_difference ?? 0, 'aod')}`}>
-                      {result.metrics.average_odds_difference?.toFixed(3) ?? 'N/A'}
-                    </span>
-                  </div>
+                  {FAIRNESS_METRICS.map(({ key, label }) => {
+                    const evidence = result.evidence?.metrics[key];
+                    return (
+                      <div key={key} className="space-y-1">
+                        <div className="flex justify-between items-center">
+                          <span className="text-muted-foreground">
+                            {label}
+                            <span className="text-xs ml-2">({getThresholdLabel(key, resultPolicy.thresholds)})</span>
+                          </span>
+                          <span className={`font-bold ${getMetricColor(result.metrics[key], key)}`}>
+                            {result.metrics[key].toFixed(3)}
+                          </span>
+                        </div>
+                        {evidence && (
+                          <div className="flex justify-between items-center gap-2 text-xs text-muted-foreground">
+                            <span>
+                              {Math.round(result.evidence!.confidence_level * 100)}% CI{" "}
+                              <span className="font-mono">[{evidence.interval.lower.toFixed(3)}, {evidence.interval.upper.toFixed(3)}]</span>
+                              {" · "}p = <span className="font-mono">{evidence.test.p_value < 0.001 ? "< 0.001" : evidence.test.p_value.toFixed(3)}</span>
+                              {" "}({SIGNIFICANCE_TEST_LABELS[evidence.test.test]}) · n = {evidence.sample_size}
+                            </span>
+                            <EvidenceBadge verdict={evidence.verdict} />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
+                {result.evidence && (
+                  <p className="text-xs text-muted-foreground mt-4">
+                    Intervals from {result.evidence.bootstrap_samples} bootstrap resamples. A metric is only judged fair or unfair when its whole
+                    interval is on one side of the threshold and the groups it compares have at least {result.evidence.min_sample_size} records each.
+                  </p>
+                )}
                 
                 {/* Disparate Impact Gauge */}
                 {/* <div className="mt-6">
@@ -285,6 +755,8 @@ export default function BiasDetection() {
                 </div> */}
               </Card>
 
+              {result.group_performance && <GroupPerformanceBreakdown performance={result.group_performance} />}
+
               <Card className="p-6">
                 <h3 className="text-lg font-semibold mb-4">Recommendations</h3>
                 <div className="space-y-3">
@@ -296,10 +768,75 @@ export default function BiasDetection() {
                   ))}
                 </div>
               </Card>
+
+              <MitigationForm disabled={analyzing} onRun={handleMitigate} />
             </>
           )}
+
+          {mode === "pair" && mitigation && (
+            <MitigationComparison
+              key={mitigation.mitigation_id}
+              result={mitigation}
+              thresholds={resultPolicy.thresholds}
+              modelName={resultModel.name}
+              modelVersion={resultModel.version}
+            />
+          )}
           
-          {!result && !loading && (
+          {mode === "groups" && groupResult && (
+            <>
+              <Card className="p-6">
+                <div className="flex items-center gap-3 mb-4">
+                  {(() => {
+                    const StatusIcon = getStatusIcon(groupResult.audit_status);
+                    return <StatusIcon className={`w-6 h-6 ${getStatusColor(groupResult.audit_status)}`} />;
+                  })()}
+                  <div>
+                    <h3 className="text-lg font-semibold">Audit Status</h3>
+                    <p className={`font-medium ${getStatusColor(groupResult.audit_status)}`}>
+                      {groupResult.audit_status}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="text-sm text-muted-foreground">
+                  Compared {groupResult.comparisons.length} group pairs across {groupResult.record_count} records for{" "}
+                  <ModelLink modelName={resultModel.name} version={resultModel.version} />
+                </div>
+              </Card>
+
+              <GroupMetricMatrix comparisons={groupResult.comparisons} thresholds={resultPolicy.thresholds} />
+
+              <Card className="p-6">
+                <h3 className="text-lg font-semibold mb-4">Recommendations</h3>
+                <div className="space-y-3">
+                  {groupResult.recommendations.map((recommendation, index) => (
+                    <div key={index} className="flex items-start gap-3 p-3 bg-primary/5 rounded-lg border border-primary/20">
+                      <TrendingDown className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
+                      <p className="text-sm text-foreground">{recommendation}</p>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            </>
+          )}
+
+          {mode === "sweep" && sweepResult && (
+            <>
+              <Card className="p-6">
+                <h3 className="text-lg font-semibold">Threshold Sweep</h3>
+                <p className="text-sm text-muted-foreground">
+                  {sweepResult.points.length} thresholds across {sweepResult.record_count} records for{" "}
+                  <ModelLink modelName={resultModel.name} version={resultModel.version} /> · default threshold{" "}
+                  {sweepResult.default_threshold.toFixed(2)}
+                </p>
+              </Card>
+
+              <ThresholdSweepPanel key={sweepKey} result={sweepResult} thresholds={resultPolicy.thresholds} />
+            </>
+          )}
+
+          {!{ pair: result ?? mitigation, groups: groupResult, sweep: sweepResult }[mode] && !analyzing && (
             <Card className="p-6 text-center">
               <FileText className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
               <h3 className="text-lg font-semibold mb-2">No Analysis Yet</h3>
@@ -309,14 +846,18 @@ export default function BiasDetection() {
             </Card>
           )}
           
-          {loading && (
-            <Card className="p-6 text-center">
-              <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full mx-auto mb-4"></div>
-              <h3 className="text-lg font-semibold mb-2">Analyzing...</h3>
-              <p className="text-muted-foreground">
-                Running bias detection analysis on your data
-              </p>
-            </Card>
+          {analyzing && (
+            <AnalysisProgress
+              stage={analysis.stage}
+              progress={analysis.progress}
+              message={analysis.message}
+              title="Running bias detection..."
+              onCancel={analysis.cancel}
+            />
+          )}
+
+          {analyzing && partialGroups && (
+            <GroupMetricMatrix comparisons={partialGroups.comparisons} thresholds={getPolicyProfile(form.policy_id).thresholds} />
           )}
         </div>
       </div>
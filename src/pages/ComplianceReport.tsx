@@ -1,13 +1,25 @@
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { FileUpload } from "@/components/common/FileUpload";
+import { ColumnSelect } from "@/components/common/ColumnSelect";
+import { PolicyProfileSelect } from "@/components/common/PolicyProfileSelect";
+import { SavedRunBanner } from "@/components/common/SavedRunBanner";
+import { ModelLink } from "@/components/common/ModelLink";
+import { AnalysisProgress } from "@/components/common/AnalysisProgress";
 import { FileText, Download, Shield, CheckCircle, AlertTriangle, Clock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { complianceApi, ApiError } from "@/lib/api";
+import { useSavedRun } from "@/hooks/use-saved-run";
+import { useAnalysisProgress } from "@/hooks/use-analysis-progress";
+import { complianceApi, ApiCancelledError, ApiError, ComplianceResult, RegulationStatus } from "@/lib/api";
+import { checkColumnSelection, DatasetSchema, findPreferredColumns, getColumnOptions, getGroupOptions } from "@/lib/csv";
+import { FAIRNESS_METRICS } from "@/lib/fairness";
+import { AuditRun, saveRun } from "@/lib/history";
+import { getPolicyProfile } from "@/lib/policies";
+import { getSettings, REPORT_ROLE_LABELS, REPORT_ROLES } from "@/lib/settings";
 
 interface ComplianceForm {
   file: File | null;
@@ -18,14 +30,10 @@ interface ComplianceForm {
   privileged_group: string;
   unprivileged_group: string;
   role: string;
+  policy_id: string;
 }
 
-interface ComplianceStatus {
-  gdpr: "compliant" | "non-compliant" | "pending";
-  eeoc: "compliant" | "non-compliant" | "pending";
-  eu_ai_act: "compliant" | "non-compliant" | "pending";
-  internal_policy: "compliant" | "non-compliant" | "pending";
-}
+const PREVIEW_BORDERS = ["border-primary", "border-warning", "border-success"];
 
 export default function ComplianceReport() {
   const [form, setForm] = useState<ComplianceForm>({
@@ -36,27 +44,55 @@ export default function ComplianceReport() {
     sensitive_attribute: "",
     privileged_group: "",
     unprivileged_group: "",
-    role: "executive"
+    role: getSettings().defaultReportRole,
+    policy_id: getSettings().policyProfileId
   });
+  const [schema, setSchema] = useState<DatasetSchema | null>(null);
   const [loading, setLoading] = useState(false);
-  const [reportGenerated, setReportGenerated] = useState(false);
+  const [report, setReport] = useState<ComplianceResult | null>(null);
   const [pdfBlob, setPdfBlob] = useState<Blob | null>(null);
-  const [complianceStatus, setComplianceStatus] = useState<ComplianceStatus>({
-    gdpr: "pending",
-    eeoc: "pending", 
-    eu_ai_act: "pending",
-    internal_policy: "pending"
-  });
+  // A report whose PDF could not be fetched; it is saved to history once a download succeeds
+  const [unsavedRun, setUnsavedRun] = useState<{ file: File; inputs: Omit<ComplianceForm, "file"> } | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [viewedRun, setViewedRun] = useState<AuditRun | null>(null);
+  const savedRun = useSavedRun("compliance_report");
+  const analysis = useAnalysisProgress(["compliance_report"]);
+  const analyzing = loading || analysis.running;
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (!savedRun) return;
+    setViewedRun(savedRun);
+    setPdfBlob(savedRun.result.pdf);
+    setReport(savedRun.result.report);
+    setUnsavedRun(null);
+    setForm(prev => ({ ...prev, ...savedRun.inputs }));
+  }, [savedRun]);
+
   const handleInputChange = (field: keyof ComplianceForm, value: string) => {
     setForm(prev => ({ ...prev, [field]: value }));
   };
 
-  const handleFileSelect = (file: File) => {
+  const handleFileSelect = (file: File | null) => {
     setForm(prev => ({ ...prev, file }));
   };
 
+  // A new file invalidates any columns picked from the previous one
+  const handleSchemaReady = useCallback((schema: DatasetSchema | null) => {
+    setSchema(schema);
+    setForm(prev => ({
+      ...prev,
+      target_variable: "",
+      sensitive_attribute: findPreferredColumns(schema, getSettings().defaultSensitiveAttributes)[0] ?? "",
+      privileged_group: "",
+      unprivileged_group: ""
+    }));
+  }, []);
+
+  const handleSensitiveAttributeChange = (value: string) => {
+    setForm(prev => ({ ...prev, sensitive_attribute: value, privileged_group: "", unprivileged_group: "" }));
+  };
+
   const validateForm = () => {
     if (!form.file) {
       toast({
@@ -79,6 +115,20 @@ export default function ComplianceReport() {
       }
     }
     
+    const schemaError = checkColumnSelection(schema, {
+      targetVariable: form.target_variable,
+      sensitiveAttribute: form.sensitive_attribute,
+      groups: [form.privileged_group, form.unprivileged_group],
+    });
+    if (schemaError) {
+      toast({
+        title: "Invalid column selection",
+        description: schemaError,
+        variant: "destructive",
+      });
+      return false;
+    }
+    
     return true;
   };
 
@@ -86,9 +136,9 @@ export default function ComplianceReport() {
     if (!validateForm()) return;
 
     setLoading(true);
+    const job = analysis.start("compliance_report", `${form.model_name} v${form.model_version}`);
     try {
-      // Generate the compliance report PDF
-      const pdfBlob = await complianceApi.generateReport(
+      const result = await complianceApi.generateReport(
         form.file!,
         form.model_name,
         form.model_version,
@@ -96,29 +146,54 @@ export default function ComplianceReport() {
         form.sensitive_attribute,
         form.privileged_group,
         form.unprivileged_group,
-        form.role
+        form.role,
+        getPolicyProfile(form.policy_id).thresholds,
+        job.control
       );
-      
-      // Store the PDF blob for download
-      setPdfBlob(pdfBlob);
-      
-      // For compliance status, we'll simulate based on the successful generation
-      // In a real scenario, this might come from the API response
-      const mockStatus: ComplianceStatus = {
-        gdpr: "compliant",
-        eeoc: "non-compliant",
-        eu_ai_act: "non-compliant", 
-        internal_policy: "compliant"
-      };
-      
-      setComplianceStatus(mockStatus);
-      setReportGenerated(true);
+
+
+      setReport(result);
+      setPdfBlob(null);
+      setViewedRun(null);
+      setUnsavedRun(null);
+      const { file, ...inputs } = form;
+
+      // Fetched now so the report can still be downloaded when reopened from history
+      let pdf: Blob;
+      try {
+        pdf = await complianceApi.downloadReport(result.report_id, job.control.signal);
+      } catch (error) {
+        // The report itself is kept either way and the PDF can be fetched again from the download button
+        setUnsavedRun({ file: file!, inputs });
+        if (error instanceof ApiCancelledError) throw error;
+        console.error('Compliance report download error:', error);
+        job.complete();
+        toast({
+          title: "PDF download failed",
+          description: `${error instanceof ApiError ? error.message : "Failed to download the report"}. Download the PDF again to save this run to history.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setPdfBlob(pdf);
+      job.complete();
+      saveRun("compliance_report", file!, inputs, { pdf, report: result })
+        .then(run => job.linkRun(run.id))
+        .catch(error => {
+          console.error('Failed to save run to history:', error);
+        });
       
       toast({
         title: "Compliance report generated",
         description: "Report is ready for download",
       });
     } catch (error) {
+      job.fail(error);
+      if (error instanceof ApiCancelledError) {
+        toast({ title: "Report generation cancelled" });
+        return;
+      }
       console.error('Compliance report API error:', error);
       const errorMessage = error instanceof ApiError 
         ? error.message 
@@ -134,9 +209,35 @@ export default function ComplianceReport() {
     }
   };
 
-  const handleDownloadReport = () => {
-    if (pdfBlob) {
-      const url = URL.createObjectURL(pdfBlob);
+  const fetchMissingPdf = async (report: ComplianceResult) => {
+    setDownloading(true);
+    try {
+      const pdf = await complianceApi.downloadReport(report.report_id);
+      setPdfBlob(pdf);
+      if (unsavedRun) {
+        setUnsavedRun(null);
+        saveRun("compliance_report", unsavedRun.file, unsavedRun.inputs, { pdf, report }).catch(error => {
+          console.error('Failed to save run to history:', error);
+        });
+      }
+      return pdf;
+    } catch (error) {
+      console.error('Compliance report download error:', error);
+      toast({
+        title: "Download failed",
+        description: error instanceof ApiError ? error.message : "Failed to download the report",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleDownloadReport = async () => {
+    const pdf = pdfBlob ?? (report && await fetchMissingPdf(report));
+    if (pdf) {
+      const url = URL.createObjectURL(pdf);
       const a = document.createElement('a');
       a.href = url;
       a.download = 'Ethical_AI_Compliance_Report.pdf';
@@ -149,7 +250,7 @@ export default function ComplianceReport() {
         title: "Download started",
         description: "Ethical_AI_Compliance_Report.pdf",
       });
-    } else {
+    } else if (!report) {
       toast({
         title: "Download failed",
         description: "No report available for download",
@@ -158,7 +259,7 @@ export default function ComplianceReport() {
     }
   };
 
-  const getStatusIcon = (status: string) => {
+  const getStatusIcon = (status: RegulationStatus) => {
     switch (status) {
       case "compliant": return CheckCircle;
       case "non-compliant": return AlertTriangle;
@@ -166,7 +267,7 @@ export default function ComplianceReport() {
     }
   };
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: RegulationStatus) => {
     switch (status) {
       case "compliant": return "text-success";
       case "non-compliant": return "text-destructive";
@@ -174,7 +275,7 @@ export default function ComplianceReport() {
     }
   };
 
-  const getStatusBg = (status: string) => {
+  const getStatusBg = (status: RegulationStatus) => {
     switch (status) {
       case "compliant": return "bg-success/10 border-success/20";
       case "non-compliant": return "bg-destructive/10 border-destructive/20";
@@ -182,6 +283,12 @@ export default function ComplianceReport() {
     }
   };
 
+  const getMetricLabel = (metric: string) =>
+    FAIRNESS_METRICS.find(({ key }) => key === metric)?.label ?? metric.replace(/_/g, " ");
+
+  const failingRegulations = report?.regulations.filter(regulation => regulation.status === "non-compliant") ?? [];
+  const pendingRegulations = report?.regulations.filter(regulation => regulation.status === "pending") ?? [];
+
   return (
     <div className="space-y-6">
       <div>
@@ -192,7 +299,7 @@ export default function ComplianceReport() {
       {/* Input Form */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="space-y-6">
-          <FileUpload onFileSelect={handleFileSelect} />
+          <FileUpload onFileSelect={handleFileSelect} onSchemaReady={handleSchemaReady} />
           
           <Card className="p-6">
             <h3 className="text-lg font-semibold mb-4">Model Information</h3>
@@ -218,64 +325,77 @@ export default function ComplianceReport() {
                   />
                 </div>
               </div>
+
+              <div>
+                <Label htmlFor="policy_id">Policy Profile</Label>
+                <PolicyProfileSelect
+                  id="policy_id"
+                  value={form.policy_id}
+                  onValueChange={(value) => handleInputChange('policy_id', value)}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  {getPolicyProfile(form.policy_id).description}
+                </p>
+              </div>
               
               <div>
                 <Label htmlFor="target_variable">Target Variable</Label>
-                <Input
+                <ColumnSelect
                   id="target_variable"
-                  placeholder="e.g., hired, approved"
+                  placeholder="Select target column"
                   value={form.target_variable}
-                  onChange={(e) => handleInputChange('target_variable', e.target.value)}
+                  options={getColumnOptions(schema, [form.sensitive_attribute])}
+                  onValueChange={(value) => handleInputChange('target_variable', value)}
                 />
               </div>
               
               <div>
                 <Label htmlFor="sensitive_attribute">Sensitive Attribute</Label>
-                <Select onValueChange={(value) => handleInputChange('sensitive_attribute', value)}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select sensitive attribute" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="gender">Gender</SelectItem>
-                    <SelectItem value="race">Race</SelectItem>
-                    <SelectItem value="age">Age</SelectItem>
-                    <SelectItem value="ethnicity">Ethnicity</SelectItem>
-                  </SelectContent>
-                </Select>
+                <ColumnSelect
+                  id="sensitive_attribute"
+                  placeholder="Select sensitive attribute"
+                  value={form.sensitive_attribute}
+                  options={getColumnOptions(schema, [form.target_variable])}
+                  onValueChange={handleSensitiveAttributeChange}
+                />
               </div>
               
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="privileged_group">Privileged Group</Label>
-                  <Input
+                  <ColumnSelect
                     id="privileged_group"
-                    placeholder="e.g., Male"
+                    placeholder="Select group"
+                    emptyPlaceholder="Select a sensitive attribute first"
                     value={form.privileged_group}
-                    onChange={(e) => handleInputChange('privileged_group', e.target.value)}
+                    options={getGroupOptions(schema, form.sensitive_attribute, [form.unprivileged_group])}
+                    onValueChange={(value) => handleInputChange('privileged_group', value)}
                   />
                 </div>
                 
                 <div>
                   <Label htmlFor="unprivileged_group">Unprivileged Group</Label>
-                  <Input
+                  <ColumnSelect
                     id="unprivileged_group"
-                    placeholder="e.g., Female"
+                    placeholder="Select group"
+                    emptyPlaceholder="Select a sensitive attribute first"
                     value={form.unprivileged_group}
-                    onChange={(e) => handleInputChange('unprivileged_group', e.target.value)}
+                    options={getGroupOptions(schema, form.sensitive_attribute, [form.privileged_group])}
+                    onValueChange={(value) => handleInputChange('unprivileged_group', value)}
                   />
                 </div>
               </div>
               
               <div>
                 <Label htmlFor="role">Report Role</Label>
-                <Select onValueChange={(value) => handleInputChange('role', value)} defaultValue="executive">
+                <Select onValueChange={(value) => handleInputChange('role', value)} value={form.role}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="executive">Executive</SelectItem>
-                    <SelectItem value="compliance">Compliance</SelectItem>
-                    <SelectItem value="technical">Technical</SelectItem>
+                    {REPORT_ROLES.map(role => (
+                      <SelectItem key={role} value={role}>{REPORT_ROLE_LABELS[role]}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -283,17 +403,19 @@ export default function ComplianceReport() {
             
             <Button 
               onClick={handleGenerateReport} 
-              disabled={loading} 
+              disabled={analyzing} 
               className="w-full mt-6 bg-gradient-to-r from-primary to-primary-glow"
             >
-              {loading ? "Generating Report..." : "Generate Compliance Report"}
+              {analyzing ? "Generating Report..." : "Generate Compliance Report"}
             </Button>
           </Card>
         </div>
 
         {/* Report Preview & Status */}
         <div className="space-y-6">
-          {reportGenerated && (
+          {viewedRun && !analyzing && <SavedRunBanner run={viewedRun} />}
+
+          {report && (
             <>
               <Card className="p-6">
                 <div className="flex items-center justify-between mb-4">
@@ -302,13 +424,14 @@ export default function ComplianceReport() {
                     <div>
                       <h3 className="text-lg font-semibold">Compliance Report Ready</h3>
                       <p className="text-sm text-muted-foreground">
-                        {form.model_name} v{form.model_version} - {form.role} report
+                        <ModelLink modelName={report.model_name} version={report.model_version} /> - {report.role} report
                       </p>
                     </div>
                   </div>
                   
                   <Button 
                     onClick={handleDownloadReport}
+                    disabled={downloading}
                     className="bg-gradient-to-r from-success to-success/80"
                   >
                     <Download className="w-4 h-4 mr-2" />
@@ -318,8 +441,8 @@ export default function ComplianceReport() {
                 
                 <div className="p-4 bg-primary/5 rounded-lg border border-primary/20">
                   <p className="text-sm text-foreground">
-                    <strong>Report includes:</strong> Bias analysis, fairness metrics, regulatory compliance status, 
-                    risk assessment, and actionable recommendations for {form.role} stakeholders.
+                    <strong>Report includes:</strong> {report.preview.map(section => section.title).join(", ") || "Regulatory compliance status"}
+                    {" "}for {report.role} stakeholders, generated {new Date(report.generated_at).toLocaleString()}.
                   </p>
                 </div>
               </Card>
@@ -327,67 +450,98 @@ export default function ComplianceReport() {
               <Card className="p-6">
                 <h3 className="text-lg font-semibold mb-4">Regulatory Compliance Status</h3>
                 <div className="space-y-4">
-                  {Object.entries(complianceStatus).map(([regulation, status]) => {
-                    const StatusIcon = getStatusIcon(status);
+                  {report.regulations.map((regulation) => {
+                    const StatusIcon = getStatusIcon(regulation.status);
                     return (
-                      <div key={regulation} className={`flex items-center justify-between p-3 rounded-lg border ${getStatusBg(status)}`}>
-                        <div className="flex items-center gap-3">
-                          <StatusIcon className={`w-5 h-5 ${getStatusColor(status)}`} />
-                          <span className="font-medium uppercase">
-                            {regulation.replace('_', ' ')}
+                      <div key={regulation.regulation_id} className={`p-3 rounded-lg border ${getStatusBg(regulation.status)}`}>
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-3">
+                            <StatusIcon className={`w-5 h-5 ${getStatusColor(regulation.status)}`} />
+                            <span className="font-medium">{regulation.name}</span>
+                          </div>
+                          <span className={`font-medium capitalize ${getStatusColor(regulation.status)}`}>
+                            {regulation.status.replace('-', ' ')}
                           </span>
                         </div>
-                        <span className={`font-medium capitalize ${getStatusColor(status)}`}>
-                          {status.replace('_', ' ')}
-                        </span>
+                        <p className="text-sm text-muted-foreground mt-1">{regulation.summary}</p>
+
+                        {regulation.clauses.length > 0 && (
+                          <div className="mt-3 space-y-2">
+                            {regulation.clauses.map((clause) => (
+                              <div key={clause.clause_id} className="text-sm">
+                                <div className="flex items-center justify-between gap-2">
+                                  <span>
+                                    <span className="font-mono text-xs text-muted-foreground mr-2">{clause.clause_id}</span>
+                                    {clause.title}
+                                  </span>
+                                  <span className={`text-xs capitalize ${getStatusColor(clause.status)}`}>
+                                    {clause.status.replace('-', ' ')}
+                                  </span>
+                                </div>
+                                {clause.evidence.map((item) => (
+                                  <div key={item.metric} className="flex justify-between text-xs text-muted-foreground pl-4">
+                                    <span>{getMetricLabel(item.metric)}</span>
+                                    <span className={item.passed ? "text-success" : "text-destructive"}>
+                                      {item.value.toFixed(3)} (required {item.threshold})
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     );
                   })}
                 </div>
                 
-                <div className="mt-6 p-4 bg-warning/5 rounded-lg border border-warning/20">
-                  <div className="flex items-start gap-3">
-                    <AlertTriangle className="w-5 h-5 text-warning flex-shrink-0 mt-0.5" />
-                    <div>
-                      <p className="font-medium text-warning mb-1">Compliance Issues Detected</p>
-                      <p className="text-sm text-muted-foreground">
-                        Model shows non-compliance with EEOC and EU AI Act regulations. 
-                        Immediate action required to address bias concerns.
-                      </p>
+                {failingRegulations.length > 0 ? (
+                  <div className="mt-6 p-4 bg-warning/5 rounded-lg border border-warning/20">
+                    <div className="flex items-start gap-3">
+                      <AlertTriangle className="w-5 h-5 text-warning flex-shrink-0 mt-0.5" />
+                      <div>
+                        <p className="font-medium text-warning mb-1">Compliance Issues Detected</p>
+                        <p className="text-sm text-muted-foreground">
+                          Model shows non-compliance with {failingRegulations.map(regulation => regulation.name).join(", ")}.
+                          Address the failing clauses before deployment.
+                        </p>
+                      </div>
                     </div>
                   </div>
-                </div>
+                ) : (
+                  <div className="mt-6 p-4 bg-success/5 rounded-lg border border-success/20">
+                    <div className="flex items-start gap-3">
+                      <CheckCircle className="w-5 h-5 text-success flex-shrink-0 mt-0.5" />
+                      <div>
+                        <p className="font-medium text-success mb-1">No Failing Clauses</p>
+                        <p className="text-sm text-muted-foreground">
+                          {pendingRegulations.length > 0
+                            ? `Every checked metric passes; ${pendingRegulations.map(regulation => regulation.name).join(", ")} still need documented review.`
+                            : "Every checked clause passes."}
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                )}
               </Card>
 
-              <Card className="p-6">
-                <h3 className="text-lg font-semibold mb-4">Report Preview</h3>
-                <div className="space-y-4 text-sm">
-                  <div className="border-l-4 border-primary pl-4">
-                    <h4 className="font-medium">Executive Summary</h4>
-                    <p className="text-muted-foreground">
-                      Comprehensive analysis of {form.model_name} reveals bias concerns requiring immediate attention...
-                    </p>
-                  </div>
-                  
-                  <div className="border-l-4 border-warning pl-4">
-                    <h4 className="font-medium">Key Findings</h4>
-                    <p className="text-muted-foreground">
-                      Disparate impact ratio below regulatory thresholds, bias detected in {form.sensitive_attribute}...
-                    </p>
-                  </div>
-                  
-                  <div className="border-l-4 border-success pl-4">
-                    <h4 className="font-medium">Recommendations</h4>
-                    <p className="text-muted-foreground">
-                      Implement fairness-aware training, monitor quarterly, adjust decision thresholds...
-                    </p>
+              {report.preview.length > 0 && (
+                <Card className="p-6">
+                  <h3 className="text-lg font-semibold mb-4">Report Preview</h3>
+                  <div className="space-y-4 text-sm">
+                    {report.preview.map((section, i) => (
+                      <div key={section.title} className={`border-l-4 ${PREVIEW_BORDERS[i % PREVIEW_BORDERS.length]} pl-4`}>
+                        <h4 className="font-medium">{section.title}</h4>
+                        <p className="text-muted-foreground">{section.body}</p>
+                      </div>
+                    ))}
                   </div>
-                </div>
-              </Card>
+                </Card>
+              )}
             </>
           )}
           
-          {!reportGenerated && !loading && (
+          {!report && !analyzing && (
             <Card className="p-6 text-center">
               <Shield className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
               <h3 className="text-lg font-semibold mb-2">No Report Generated</h3>
@@ -397,14 +551,14 @@ export default function ComplianceReport() {
             </Card>
           )}
           
-          {loading && (
-            <Card className="p-6 text-center">
-              <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full mx-auto mb-4"></div>
-              <h3 className="text-lg font-semibold mb-2">Generating Report...</h3>
-              <p className="text-muted-foreground">
-                Creating comprehensive compliance analysis
-              </p>
-            </Card>
+          {analyzing && (
+            <AnalysisProgress
+              stage={analysis.stage}
+              progress={analysis.progress}
+              message={analysis.message}
+              title="Generating report..."
+              onCancel={analysis.cancel}
+            />
           )}
         </div>
       </div>
@@ -0,0 +1,239 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { ModelLink } from "@/components/common/ModelLink";
+import { ArrowLeft, ArrowRight, RefreshCw, TrendingUp } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { dashboardApi, ComplianceTrend, ApiError } from "@/lib/api";
+
+const RANGE_PRESETS = [4, 8, 12];
+
+const statusChartConfig = {
+  compliant_models: { label: "Compliant", color: "hsl(var(--success))" },
+  non_compliant_models: { label: "Non-compliant", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+const riskChartConfig = {
+  average_risk_score: { label: "Average risk score", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+// Weeks are ISO dates; format in UTC so the label does not shift a day in western time zones
+const formatWeek = (week: string) =>
+  new Date(week).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+
+export default function ComplianceTrends() {
+  const [trend, setTrend] = useState<ComplianceTrend[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromWeek, setFromWeek] = useState("");
+  const [toWeek, setToWeek] = useState("");
+  const [selectedWeek, setSelectedWeek] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchTrend = useCallback(async () => {
+    try {
+      setLoading(true);
+      const points = [...await dashboardApi.getComplianceTrend()].sort((a, b) => a.week.localeCompare(b.week));
+      setTrend(points);
+      setFromWeek(points[0]?.week ?? "");
+      setToWeek(points[points.length - 1]?.week ?? "");
+      setSelectedWeek([...points].reverse().find(point => point.status_changes.length > 0)?.week ?? null);
+    } catch (error) {
+      console.error('Compliance trend API error:', error);
+      toast({
+        title: "Could not load trends",
+        description: error instanceof ApiError ? error.message : "Backend API not available",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTrend();
+  }, [fetchTrend]);
+
+  const visible = trend.filter(point => (!fromWeek || point.week >= fromWeek) && (!toWeek || point.week <= toWeek));
+  const selected = visible.find(point => point.week === selectedWeek);
+
+  const applyPreset = (weeks: number) => {
+    setFromWeek(trend[Math.max(trend.length - weeks, 0)]?.week ?? "");
+    setToWeek(trend[trend.length - 1]?.week ?? "");
+  };
+
+  // recharts reports the x-axis value under the cursor as activeLabel
+  const handleChartClick = (state: { activeLabel?: string } | null) => {
+    if (state?.activeLabel) setSelectedWeek(state.activeLabel);
+  };
+
+  const getStatusColor = (status: string | null) => {
+    if (status === null) return "text-muted-foreground";
+    return status === "COMPLIANT" ? "text-success" : "text-destructive";
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Compliance Trends</h1>
+          <p className="text-muted-foreground">Weekly compliance and risk across the model portfolio</p>
+        </div>
+
+        <div className="flex gap-3">
+          <Button variant="outline" asChild>
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Dashboard
+            </Link>
+          </Button>
+          <Button variant="outline" onClick={fetchTrend} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <Card className="p-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <Label htmlFor="from_week">From</Label>
+            <Input
+              id="from_week"
+              type="date"
+              value={fromWeek}
+              max={toWeek || undefined}
+              onChange={(e) => setFromWeek(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="to_week">To</Label>
+            <Input
+              id="to_week"
+              type="date"
+              value={toWeek}
+              min={fromWeek || undefined}
+              onChange={(e) => setToWeek(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            {RANGE_PRESETS.map(weeks => (
+              <Button key={weeks} variant="outline" size="sm" onClick={() => applyPreset(weeks)}>
+                Last {weeks} weeks
+              </Button>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => applyPreset(trend.length)}>
+              All
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {loading ? (
+        <Card className="p-6 text-center">
+          <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading trends...</p>
+        </Card>
+      ) : visible.length === 0 ? (
+        <Card className="p-6 text-center">
+          <TrendingUp className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+          <h3 className="text-lg font-semibold mb-2">No Trend Data</h3>
+          <p className="text-muted-foreground">No weeks fall within the selected range</p>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card className="p-6">
+              <h3 className="text-lg font-semibold mb-1">Models by Status</h3>
+              <p className="text-sm text-muted-foreground mb-4">Click a week to see which models changed status</p>
+              <ChartContainer config={statusChartConfig} className="h-72 w-full">
+                <BarChart data={visible} onClick={handleChartClick}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="week" tickFormatter={formatWeek} tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={formatWeek} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="compliant_models" stackId="status" fill="var(--color-compliant_models)" className="cursor-pointer" />
+                  <Bar dataKey="non_compliant_models" stackId="status" fill="var(--color-non_compliant_models)" radius={[4, 4, 0, 0]} className="cursor-pointer" />
+                </BarChart>
+              </ChartContainer>
+            </Card>
+
+            <Card className="p-6">
+              <h3 className="text-lg font-semibold mb-1">Risk Score Over Time</h3>
+              <p className="text-sm text-muted-foreground mb-4">Average risk score of audited models</p>
+              <ChartContainer config={riskChartConfig} className="h-72 w-full">
+                <LineChart data={visible} onClick={handleChartClick}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="week" tickFormatter={formatWeek} tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={formatWeek} />} />
+                  <Line
+                    dataKey="average_risk_score"
+                    type="monotone"
+                    stroke="var(--color-average_risk_score)"
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                  />
+                </LineChart>
+              </ChartContainer>
+            </Card>
+          </div>
+
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold mb-4">
+              {selected ? `Status Changes, Week of ${formatWeek(selected.week)}` : "Status Changes"}
+            </h3>
+            {!selected ? (
+              <p className="text-muted-foreground">Select a week in either chart</p>
+            ) : selected.status_changes.length === 0 ? (
+              <p className="text-muted-foreground">No model changed status this week</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left py-3 px-4 font-medium text-muted-foreground">Model</th>
+                      <th className="text-left py-3 px-4 font-medium text-muted-foreground">Version</th>
+                      <th className="text-left py-3 px-4 font-medium text-muted-foreground">Status Change</th>
+                      <th className="text-left py-3 px-4 font-medium text-muted-foreground">Risk Score</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selected.status_changes.map(change => (
+                      <tr key={`${change.model_name}-${change.version}`} className="border-b border-border/50">
+                        <td className="py-3 px-4 font-medium">
+                          <ModelLink modelName={change.model_name} version={change.version}>{change.model_name}</ModelLink>
+                        </td>
+                        <td className="py-3 px-4 text-muted-foreground">{change.version}</td>
+                        <td className="py-3 px-4">
+                          <span className="flex items-center gap-2 text-sm">
+                            <span className={getStatusColor(change.from_status)}>{change.from_status ?? "Not audited"}</span>
+                            <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                            <span className={getStatusColor(change.to_status)}>{change.to_status}</span>
+                          </span>
+                        </td>
+                        <td className="py-3 px-4">{change.risk_score}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
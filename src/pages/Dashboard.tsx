@@ -1,8 +1,11 @@
 import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { MetricCard } from "@/components/dashboard/MetricCard";
 import { RiskGauge } from "@/components/dashboard/RiskGauge";
+import { ModelRiskTable } from "@/components/dashboard/ModelRiskTable";
+import { ModelLink } from "@/components/common/ModelLink";
 import { 
   Shield, 
   AlertTriangle, 
@@ -14,7 +17,7 @@ import {
   Users
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { dashboardApi, DashboardData, ModelRisk, ApiError } from "@/lib/api";
+import { dashboardApi, DashboardData, ModelRisk, ApiError, ApiValidationError } from "@/lib/api";
 
 // Interface definitions moved to api.ts
 
@@ -67,8 +70,10 @@ export default function Dashboard() {
         : "Backend API not available - showing offline mode";
         
       toast({
-        title: "API Connection Issue",
-        description: errorMessage,
+        title: error instanceof ApiValidationError ? "Unexpected API Response" : "API Connection Issue",
+        description: error instanceof ApiValidationError
+          ? errorMessage
+          : `${errorMessage}. Turn on demo mode in Settings to explore sample data.`,
         variant: "destructive",
       });
     } finally {
@@ -76,16 +81,10 @@ export default function Dashboard() {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    return status === "COMPLIANT" ? "text-success" : "text-destructive";
-  };
-
-  const getRiskColor = (score: number) => {
-    if (score <= 30) return "text-success";
-    if (score <= 60) return "text-warning";
-    if (score <= 85) return "text-destructive";
-    return "text-risk-critical";
-  };
+  // The summary only names the model, so link its riskiest version
+  const topRiskModel = modelRisks
+    .filter(model => model.model_name === dashboardData?.most_risky_model)
+    .sort((a, b) => b.risk_score - a.risk_score)[0];
 
   if (loading) {
     return (
@@ -191,7 +190,13 @@ export default function Dashboard() {
             
             <div className="mt-6 p-4 bg-primary/5 rounded-lg border border-primary/20">
               <p className="text-sm text-foreground">
-                <strong>Top Risk:</strong> {dashboardData.most_risky_model} shows bias in {dashboardData.top_bias_source}
+                <strong>Top Risk:</strong>{" "}
+                {topRiskModel ? (
+                  <ModelLink modelName={topRiskModel.model_name} version={topRiskModel.version} />
+                ) : (
+                  dashboardData.most_risky_model
+                )}{" "}
+                shows bias in {dashboardData.top_bias_source}
               </p>
             </div>
           </Card>
@@ -202,48 +207,15 @@ export default function Dashboard() {
       <Card className="p-6">
         <div className="flex justify-between items-center mb-6">
           <h3 className="text-xl font-semibold">Model Risk Breakdown</h3>
-          <Button variant="outline" size="sm">
-            <TrendingUp className="w-4 h-4 mr-2" />
-            View Trends
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/trends">
+              <TrendingUp className="w-4 h-4 mr-2" />
+              View Trends
+            </Link>
           </Button>
         </div>
         
-        <div className="overflow-x-auto">
-          <table className="w-full">
-            <thead>
-              <tr className="border-b border-border">
-                <th className="text-left p-3 text-muted-foreground font-medium">Model Name</th>
-                <th className="text-left p-3 text-muted-foreground font-medium">Version</th>
-                <th className="text-left p-3 text-muted-foreground font-medium">Status</th>
-                <th className="text-left p-3 text-muted-foreground font-medium">Risk Score</th>
-                <th className="text-left p-3 text-muted-foreground font-medium">Bias Source</th>
-                <th className="text-left p-3 text-muted-foreground font-medium">Impact Ratio</th>
-                <th className="text-left p-3 text-muted-foreground font-medium">Last Audited</th>
-              </tr>
-            </thead>
-            <tbody>
-              {modelRisks.map((model, index) => (
-                <tr key={index} className="border-b border-border/50 hover:bg-accent/30">
-                  <td className="p-3 font-medium">{model.model_name}</td>
-                  <td className="p-3 text-muted-foreground">{model.version}</td>
-                  <td className="p-3">
-                    <span className={`font-medium ${getStatusColor(model.status)}`}>
-                      {model.status}
-                    </span>
-                  </td>
-                  <td className="p-3">
-                    <span className={`font-bold ${getRiskColor(model.risk_score)}`}>
-                      {model.risk_score}
-                    </span>
-                  </td>
-                  <td className="p-3 text-muted-foreground">{model.bias_source}</td>
-                  <td className="p-3 text-muted-foreground">{model.disparate_impact.toFixed(3)}</td>
-                  <td className="p-3 text-muted-foreground">{model.last_audited}</td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
+        <ModelRiskTable models={modelRisks} />
       </Card>
     </div>
   );
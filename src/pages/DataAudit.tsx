@@ -0,0 +1,251 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileUpload } from "@/components/common/FileUpload";
+import { ColumnSelect } from "@/components/common/ColumnSelect";
+import { AttributeAuditCard } from "@/components/data-audit/AttributeAuditCard";
+import { AlertTriangle, CheckCircle, Database } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useDataAudit } from "@/hooks/use-data-audit";
+import { checkColumnSelection, DatasetSchema, findPreferredColumns, getColumnOptions, getGroupOptions } from "@/lib/csv";
+import { DATA_AUDIT_CHECK_LABELS, DataAuditConfig } from "@/lib/diagnostics";
+import { getSettings } from "@/lib/settings";
+
+// Select value for auditing without a label column
+const NO_TARGET = "__none__";
+
+export default function DataAudit() {
+  const [file, setFile] = useState<File | null>(null);
+  const [schema, setSchema] = useState<DatasetSchema | null>(null);
+  const [sensitiveAttributes, setSensitiveAttributes] = useState<string[]>([]);
+  const [targetColumn, setTargetColumn] = useState(NO_TARGET);
+  const [positiveLabel, setPositiveLabel] = useState("");
+  // Set when the user runs the audit; the worker restarts whenever it changes
+  const [submitted, setSubmitted] = useState<DataAuditConfig | null>(null);
+  const audit = useDataAudit(file, submitted);
+  const { toast } = useToast();
+
+  const handleFileSelect = (file: File | null) => {
+    setFile(file);
+    setSubmitted(null);
+  };
+
+  // A new file invalidates any columns picked from the previous one; default attributes from settings are preselected
+  const handleSchemaReady = useCallback((schema: DatasetSchema | null) => {
+    setSchema(schema);
+    setSensitiveAttributes(findPreferredColumns(schema, getSettings().defaultSensitiveAttributes));
+    setTargetColumn(NO_TARGET);
+    setPositiveLabel("");
+    setSubmitted(null);
+  }, []);
+
+  useEffect(() => {
+    if (!audit.error) return;
+    toast({
+      title: "Data audit failed",
+      description: audit.error,
+      variant: "destructive",
+    });
+  }, [audit.error, toast]);
+
+  const toggleAttribute = (attribute: string, checked: boolean) => {
+    setSensitiveAttributes(prev => checked ? [...prev, attribute] : prev.filter(name => name !== attribute));
+  };
+
+  const handleTargetChange = (value: string) => {
+    setTargetColumn(value);
+    setPositiveLabel("");
+    setSensitiveAttributes(prev => prev.filter(name => name !== value));
+  };
+
+  const handleSubmit = () => {
+    if (!file) {
+      toast({
+        title: "File required",
+        description: "Please upload a CSV file",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (sensitiveAttributes.length === 0) {
+      toast({
+        title: "Missing required field",
+        description: "Please choose at least one sensitive attribute",
+        variant: "destructive",
+      });
+      return;
+    }
+    const target = targetColumn === NO_TARGET ? null : targetColumn;
+    if (target && !positiveLabel) {
+      toast({
+        title: "Missing required field",
+        description: "Please choose the favourable label",
+        variant: "destructive",
+      });
+      return;
+    }
+    const schemaError = checkColumnSelection(schema, { targetVariable: target ?? undefined });
+    if (schemaError) {
+      toast({
+        title: "Invalid column selection",
+        description: schemaError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitted({ sensitiveAttributes, targetColumn: target, positiveLabel: target ? positiveLabel : null });
+  };
+
+  const attributeOptions = getColumnOptions(schema, targetColumn === NO_TARGET ? [] : [targetColumn]);
+  const { report } = audit;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Data Audit</h1>
+        <p className="text-muted-foreground">Check a training dataset for bias before any model is trained on it</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-6">
+          <FileUpload onFileSelect={handleFileSelect} onSchemaReady={handleSchemaReady} />
+
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold mb-4">Audit Configuration</h3>
+            <div className="space-y-4">
+              <div>
+                <Label>Sensitive Attributes</Label>
+                {attributeOptions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground mt-2">Upload a CSV file to choose sensitive attributes</p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    {attributeOptions.map(option => (
+                      <label key={option.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={sensitiveAttributes.includes(option.value)}
+                          onCheckedChange={(checked) => toggleAttribute(option.value, checked === true)}
+                        />
+                        {option.value}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="target_column">Label Column</Label>
+                  <Select value={targetColumn} onValueChange={handleTargetChange} disabled={!schema}>
+                    <SelectTrigger id="target_column">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TARGET}>None</SelectItem>
+                      {getColumnOptions(schema).map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.value}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="positive_label">Favourable Label</Label>
+                  <ColumnSelect
+                    id="positive_label"
+                    value={positiveLabel}
+                    onValueChange={setPositiveLabel}
+                    options={targetColumn === NO_TARGET ? [] : getGroupOptions(schema, targetColumn)}
+                    placeholder="e.g., approved"
+                    emptyPlaceholder="Choose a label column"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Without a label column the audit skips base-rate differences
+              </p>
+            </div>
+
+            <Button
+              onClick={handleSubmit}
+              disabled={audit.running}
+              className="w-full mt-6 bg-gradient-to-r from-primary to-primary-glow"
+            >
+              {audit.running ? "Auditing..." : "Run Data Audit"}
+            </Button>
+          </Card>
+        </div>
+
+        {/* Results */}
+        <div className="space-y-6">
+          {audit.running && (
+            <Card className="p-6 space-y-2">
+              <h3 className="text-lg font-semibold text-center">Auditing Dataset</h3>
+              <Progress value={audit.progress * 100} className="h-2" />
+              <p className="text-sm text-muted-foreground text-center">{Math.round(audit.progress * 100)}% read</p>
+            </Card>
+          )}
+
+          {report && (
+            <>
+              <Card className="p-6">
+                <div className="flex items-center gap-3 mb-4">
+                  {report.findings.length === 0 ? (
+                    <CheckCircle className="w-6 h-6 text-success" />
+                  ) : (
+                    <AlertTriangle className="w-6 h-6 text-warning" />
+                  )}
+                  <div>
+                    <h3 className="text-lg font-semibold">Findings</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {report.rowCount.toLocaleString()} rows in {report.fileName}
+                    </p>
+                  </div>
+                </div>
+
+                {report.findings.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No dataset-level issues found for the chosen attributes</p>
+                ) : (
+                  <div className="space-y-3">
+                    {report.findings.map((finding, index) => (
+                      <div
+                        key={index}
+                        className={`flex items-start gap-3 p-3 rounded-lg border ${
+                          finding.severity === "high" ? "bg-destructive/5 border-destructive/20" : "bg-warning/5 border-warning/20"
+                        }`}
+                      >
+                        <Badge variant="outline" className="shrink-0">{DATA_AUDIT_CHECK_LABELS[finding.check]}</Badge>
+                        <p className="text-sm text-foreground">
+                          <span className="font-medium">{finding.attribute}:</span> {finding.message}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Card>
+
+              {report.attributes.map(attributeAudit => (
+                <AttributeAuditCard key={attributeAudit.attribute} audit={attributeAudit} />
+              ))}
+            </>
+          )}
+
+          {!report && !audit.running && (
+            <Card className="p-6 text-center">
+              <Database className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-lg font-semibold mb-2">No Audit Yet</h3>
+              <p className="text-muted-foreground">
+                Upload a CSV file and choose sensitive attributes to check the data for representation, label and proxy issues
+              </p>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,33 @@
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { FileUpload } from "@/components/common/FileUpload";
+import { ColumnSelect } from "@/components/common/ColumnSelect";
+import { SavedRunBanner } from "@/components/common/SavedRunBanner";
+import { ModelLink } from "@/components/common/ModelLink";
+import { AnalysisProgress } from "@/components/common/AnalysisProgress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ShapWaterfallChart } from "@/components/explainability/ShapWaterfallChart";
+import { ShapForcePlot } from "@/components/explainability/ShapForcePlot";
+import { ShapBarChart } from "@/components/explainability/ShapBarChart";
+import { GlobalExplanation } from "@/components/explainability/GlobalExplanation";
+import { InstanceBrowser } from "@/components/explainability/InstanceBrowser";
+import { InstanceAttributions } from "@/components/explainability/InstanceAttributions";
+import { WhatIfPanel } from "@/components/explainability/WhatIfPanel";
 import { Brain, TrendingUp, TrendingDown, FileText, User } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { explainabilityApi, ExplainabilityResult, ApiError } from "@/lib/api";
+import { useSavedRun } from "@/hooks/use-saved-run";
+import { useAnalysisProgress } from "@/hooks/use-analysis-progress";
+import { useCsvRow } from "@/hooks/use-csv-rows";
+import { explainabilityApi, ExplainabilityResult, GlobalExplainabilityResult, ApiCancelledError, ApiError } from "@/lib/api";
+import { checkColumnSelection, DatasetSchema, findPreferredColumns, getColumnOptions } from "@/lib/csv";
+import { AuditRun, saveRun } from "@/lib/history";
+import type { JobHandle } from "@/lib/jobs";
+import { getSettings, REPORT_ROLE_LABELS, REPORT_ROLES } from "@/lib/settings";
+import { sumContributions } from "@/lib/shap";
 
 interface ExplainabilityForm {
   file: File | null;
@@ -16,9 +36,15 @@ interface ExplainabilityForm {
   target_variable: string;
   sensitive_attribute: string;
   instance_index: number;
+  // Rows explained in global mode; every row when unset
+  sample_size?: number;
   role: string;
 }
 
+type ExplanationMode = "local" | "global";
+
+const SAMPLE_SIZE_OPTIONS = [200, 500, 1000];
+
 interface FeatureImportance {
   feature: string;
   importance: number;
@@ -35,22 +61,68 @@ export default function Explainability() {
     target_variable: "",
     sensitive_attribute: "",
     instance_index: 0,
-    role: "executive"
+    sample_size: 500,
+    role: getSettings().defaultReportRole
   });
+  const [mode, setMode] = useState<ExplanationMode>("local");
+  const [schema, setSchema] = useState<DatasetSchema | null>(null);
   const [result, setResult] = useState<ExplainabilityResult | null>(null);
+  // Form the shown local explanation was run with; unset for saved runs, which keep no file
+  const [resultForm, setResultForm] = useState<ExplainabilityForm | null>(null);
+  const [globalResult, setGlobalResult] = useState<GlobalExplainabilityResult | null>(null);
   const [loading, setLoading] = useState(false);
+  const [viewedRun, setViewedRun] = useState<AuditRun | null>(null);
+  const savedRun = useSavedRun("explainability");
+  const savedGlobalRun = useSavedRun("global_explainability");
+  const analysis = useAnalysisProgress(["explainability", "global_explainability"]);
+  const analyzing = loading || analysis.running;
+  // Values of the explained row, read from the file the explanation was run on
+  const { columns: rowColumns, row: explainedRow } = useCsvRow(resultForm?.file ?? null, result?.instance_index ?? null);
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (!savedRun) return;
+    setViewedRun(savedRun);
+    setMode("local");
+    setResult(savedRun.result);
+    setResultForm(null);
+    setForm(prev => ({ ...prev, ...savedRun.inputs }));
+  }, [savedRun]);
+
+  useEffect(() => {
+    if (!savedGlobalRun) return;
+    setViewedRun(savedGlobalRun);
+    setMode("global");
+    setGlobalResult(savedGlobalRun.result);
+    setForm(prev => ({ ...prev, ...savedGlobalRun.inputs }));
+  }, [savedGlobalRun]);
+
   const handleInputChange = (field: keyof ExplainabilityForm, value: string | number) => {
     setForm(prev => ({ ...prev, [field]: value }));
   };
 
-  const handleFileSelect = (file: File) => {
+  // The shown explanation describes a row of the previous file
+  const handleFileSelect = (file: File | null) => {
+    if (file !== form.file) {
+      setResult(null);
+      setResultForm(null);
+    }
     setForm(prev => ({ ...prev, file }));
   };
 
-  const validateForm = () => {
-    if (!form.file) {
+  // A new file invalidates any columns picked from the previous one
+  const handleSchemaReady = useCallback((schema: DatasetSchema | null) => {
+    setSchema(schema);
+    setForm(prev => ({
+      ...prev,
+      target_variable: "",
+      sensitive_attribute: findPreferredColumns(schema, getSettings().defaultSensitiveAttributes)[0] ?? "",
+      instance_index: 0
+    }));
+  }, []);
+
+  const validateForm = (values: ExplainabilityForm, target: ExplanationMode) => {
+    if (!values.file) {
       toast({
         title: "File required",
         description: "Please upload a CSV file",
@@ -61,7 +133,7 @@ export default function Explainability() {
     
     const requiredFields = ['model_name', 'model_version', 'target_variable', 'sensitive_attribute'];
     for (const field of requiredFields) {
-      if (!form[field as keyof ExplainabilityForm]) {
+      if (!values[field as keyof ExplainabilityForm]) {
         toast({
           title: "Missing required field",
           description: `Please fill in ${field.replace('_', ' ')}`,
@@ -71,30 +143,102 @@ export default function Explainability() {
       }
     }
     
+    const schemaError = checkColumnSelection(schema, {
+      targetVariable: values.target_variable,
+      sensitiveAttribute: values.sensitive_attribute,
+    });
+    if (schemaError) {
+      toast({
+        title: "Invalid column selection",
+        description: schemaError,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (target === "local" && schema && values.instance_index >= schema.rowCount) {
+      toast({
+        title: "Invalid instance index",
+        description: `The file has ${schema.rowCount} rows; choose an index below ${schema.rowCount}`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    
     return true;
   };
 
-  const handleSubmit = async () => {
-    if (!validateForm()) return;
+  const runGlobalExplanation = async (job: JobHandle) => {
+    const globalResult = await explainabilityApi.explainGlobal(
+      form.file!,
+      form.model_name,
+      form.model_version,
+      form.target_variable,
+      form.sensitive_attribute,
+      form.sample_size,
+      job.control
+    );
+
+    job.complete();
+    setGlobalResult(globalResult);
+    setViewedRun(null);
+    const { file, model_name, model_version, target_variable, sensitive_attribute, sample_size } = form;
+    const inputs = { model_name, model_version, target_variable, sensitive_attribute, sample_size };
+    saveRun("global_explainability", file!, inputs, globalResult)
+      .then(run => job.linkRun(run.id))
+      .catch(error => {
+        console.error('Failed to save run to history:', error);
+      });
+    toast({
+      title: "Global explanation completed",
+      description: `Explained ${globalResult.instances.length} of ${globalResult.row_count} rows`,
+    });
+  };
+
+  // Takes the form and mode explicitly because jumping from the global views changes both in the same step
+  const runExplanation = async (values: ExplainabilityForm, target: ExplanationMode) => {
+    if (!validateForm(values, target)) return;
 
     setLoading(true);
+    const label = `${values.model_name} v${values.model_version}`;
+    const job = analysis.start(target === "global" ? "global_explainability" : "explainability", label);
     try {
+      if (target === "global") {
+        await runGlobalExplanation(job);
+        return;
+      }
+
       const result = await explainabilityApi.explain(
-        form.file!,
-        form.model_name,
-        form.model_version,
-        form.target_variable,
-        form.sensitive_attribute,
-        form.instance_index,
-        form.role
+        values.file!,
+        values.model_name,
+        values.model_version,
+        values.target_variable,
+        values.sensitive_attribute,
+        values.instance_index,
+        values.role,
+        job.control
       );
       
       setResult(result);
+      setResultForm(values);
+      setViewedRun(null);
+      const { file, sample_size: _sampleSize, ...inputs } = values;
+      job.complete();
+      saveRun("explainability", file!, inputs, result)
+        .then(run => job.linkRun(run.id))
+        .catch(error => {
+          console.error('Failed to save run to history:', error);
+        });
       toast({
         title: "Explainability analysis completed",
-        description: `Generated explanation for ${form.role} role`,
+        description: `Generated explanation for ${values.role} role`,
       });
     } catch (error) {
+      job.fail(error);
+      if (error instanceof ApiCancelledError) {
+        toast({ title: "Analysis cancelled" });
+        return;
+      }
       console.error('Explainability API error:', error);
       const errorMessage = error instanceof ApiError 
         ? error.message 
@@ -110,6 +254,13 @@ export default function Explainability() {
     }
   };
 
+  const explainRow = (instanceIndex: number) => {
+    const values = { ...form, instance_index: instanceIndex };
+    setMode("local");
+    setForm(values);
+    runExplanation(values, "local");
+  };
+
   const getFeatureColor = (direction: string) => {
     return direction === "positive" ? "text-success" : "text-destructive";
   };
@@ -118,6 +269,10 @@ export default function Explainability() {
     return direction === "positive" ? TrendingUp : TrendingDown;
   };
 
+  // Results saved before the backend reported them start the walk at zero
+  const baseValue = result?.base_value ?? 0;
+  const prediction = result?.prediction ?? baseValue + sumContributions(result?.shap_values ?? {});
+
   return (
     <div className="space-y-6">
       <div>
@@ -128,7 +283,7 @@ export default function Explainability() {
       {/* Input Form */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="space-y-6">
-          <FileUpload onFileSelect={handleFileSelect} />
+          <FileUpload onFileSelect={handleFileSelect} onSchemaReady={handleSchemaReady} />
           
           <Card className="p-6">
             <h3 className="text-lg font-semibold mb-4">Model Information</h3>
@@ -157,70 +312,111 @@ export default function Explainability() {
               
               <div>
                 <Label htmlFor="target_variable">Target Variable</Label>
-                <Input
+                <ColumnSelect
                   id="target_variable"
-                  placeholder="e.g., hired, approved"
+                  placeholder="Select target column"
                   value={form.target_variable}
-                  onChange={(e) => handleInputChange('target_variable', e.target.value)}
+                  options={getColumnOptions(schema, [form.sensitive_attribute])}
+                  onValueChange={(value) => handleInputChange('target_variable', value)}
                 />
               </div>
               
               <div>
                 <Label htmlFor="sensitive_attribute">Sensitive Attribute</Label>
-                <Select onValueChange={(value) => handleInputChange('sensitive_attribute', value)}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select sensitive attribute" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="gender">Gender</SelectItem>
-                    <SelectItem value="race">Race</SelectItem>
-                    <SelectItem value="age">Age</SelectItem>
-                    <SelectItem value="ethnicity">Ethnicity</SelectItem>
-                  </SelectContent>
-                </Select>
+                <ColumnSelect
+                  id="sensitive_attribute"
+                  placeholder="Select sensitive attribute"
+                  value={form.sensitive_attribute}
+                  options={getColumnOptions(schema, [form.target_variable])}
+                  onValueChange={(value) => handleInputChange('sensitive_attribute', value)}
+                />
               </div>
               
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="instance_index">Instance Index</Label>
-                  <Input
-                    id="instance_index"
-                    type="number"
-                    min="0"
-                    value={form.instance_index}
-                    onChange={(e) => handleInputChange('instance_index', parseInt(e.target.value) || 0)}
-                  />
-                </div>
+              <Tabs value={mode} onValueChange={(value) => setMode(value as ExplanationMode)}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="local">Single Instance</TabsTrigger>
+                  <TabsTrigger value="global">Whole Dataset</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="local">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="instance_index">Instance Index</Label>
+                      <Input
+                        id="instance_index"
+                        type="number"
+                        min="0"
+                        max={schema ? schema.rowCount - 1 : undefined}
+                        value={form.instance_index}
+                        onChange={(e) => handleInputChange('instance_index', parseInt(e.target.value) || 0)}
+                      />
+                    </div>
                 
-                <div>
-                  <Label htmlFor="role">Explanation Role</Label>
-                  <Select onValueChange={(value) => handleInputChange('role', value)} defaultValue="executive">
-                    <SelectTrigger>
+                    <div>
+                      <Label htmlFor="role">Explanation Role</Label>
+                      <Select onValueChange={(value) => handleInputChange('role', value)} value={form.role}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {REPORT_ROLES.map(role => (
+                            <SelectItem key={role} value={role}>{REPORT_ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="global">
+                  <Label htmlFor="sample_size">Rows to Explain</Label>
+                  <Select
+                    value={form.sample_size ? String(form.sample_size) : "all"}
+                    onValueChange={(value) => setForm(prev => ({ ...prev, sample_size: value === "all" ? undefined : Number(value) }))}
+                  >
+                    <SelectTrigger id="sample_size">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="executive">Executive</SelectItem>
-                      <SelectItem value="compliance">Compliance</SelectItem>
-                      <SelectItem value="technical">Technical</SelectItem>
+                      {SAMPLE_SIZE_OPTIONS.map(size => (
+                        <SelectItem key={size} value={String(size)}>Sample of {size.toLocaleString()} rows</SelectItem>
+                      ))}
+                      <SelectItem value="all">All rows{schema ? ` (${schema.rowCount.toLocaleString()})` : ""}</SelectItem>
                     </SelectContent>
                   </Select>
-                </div>
-              </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Sampled rows are spread evenly over the file. Click any row in the results to explain it on its own.
+                  </p>
+                </TabsContent>
+              </Tabs>
             </div>
             
             <Button 
-              onClick={handleSubmit} 
-              disabled={loading} 
+              onClick={() => runExplanation(form, mode)} 
+              disabled={analyzing} 
               className="w-full mt-6 bg-gradient-to-r from-primary to-primary-glow"
             >
-              {loading ? "Generating..." : "Generate Explanation"}
+              {analyzing ? "Generating..." : "Generate Explanation"}
             </Button>
           </Card>
+
+          {mode === "local" && form.file && (
+            <InstanceBrowser
+              key={`${form.file.name}:${form.file.lastModified}`}
+              file={form.file}
+              schema={schema}
+              filterColumns={[form.sensitive_attribute, form.target_variable]}
+              selectedIndex={form.instance_index}
+              onSelect={(index) => handleInputChange('instance_index', index)}
+            />
+          )}
         </div>
 
         {/* Results */}
         <div className="space-y-6">
-          {result && (
+          {viewedRun && !analyzing && <SavedRunBanner run={viewedRun} />}
+
+          {mode === "local" && result && (
             <>
               <Card className="p-6">
                 <div className="flex items-center gap-3 mb-4">
@@ -228,7 +424,7 @@ export default function Explainability() {
                   <div>
                     <h3 className="text-lg font-semibold">Model Explanation</h3>
                     <p className="text-sm text-muted-foreground">
-                      {result.model_name} v{result.model_version} - Instance {result.instance_index}
+                      <ModelLink modelName={result.model_name} version={result.model_version} /> - Instance {result.instance_index}
                     </p>
                   </div>
                 </div>
@@ -270,27 +466,53 @@ export default function Explainability() {
               </Card>
 
               <Card className="p-6">
-                <h3 className="text-lg font-semibold mb-4">SHAP Values</h3>
-                <div className="space-y-3">
-                  {Object.entries(result.shap_values).map(([feature, value]) => (
-                    <div key={feature} className="flex items-center justify-between">
-                      <span className="text-muted-foreground capitalize">{feature}</span>
-                      <div className="flex items-center gap-2">
-                        <div className="w-24 h-2 bg-border rounded-full overflow-hidden">
-                          <div 
-                            className={`h-full ${value > 0 ? 'bg-success' : 'bg-destructive'}`}
-                            style={{ width: `${Math.abs(value) * 100}%` }}
-                          />
-                        </div>
-                        <span className={`font-mono text-sm ${value > 0 ? 'text-success' : 'text-destructive'}`}>
-                          {value.toFixed(3)}
-                        </span>
-                      </div>
-                    </div>
-                  ))}
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold">SHAP Values</h3>
+                  <span className="text-sm text-muted-foreground">
+                    Base {baseValue.toFixed(3)} → prediction {prediction.toFixed(3)}
+                  </span>
                 </div>
+                <Tabs defaultValue="waterfall">
+                  <TabsList className="mb-4">
+                    <TabsTrigger value="waterfall">Waterfall</TabsTrigger>
+                    <TabsTrigger value="force">Force</TabsTrigger>
+                    <TabsTrigger value="bar">Bar</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="waterfall">
+                    <ShapWaterfallChart shapValues={result.shap_values} baseValue={baseValue} prediction={prediction} />
+                  </TabsContent>
+                  <TabsContent value="force">
+                    <ShapForcePlot shapValues={result.shap_values} baseValue={baseValue} prediction={prediction} />
+                  </TabsContent>
+                  <TabsContent value="bar">
+                    <ShapBarChart shapValues={result.shap_values} />
+                  </TabsContent>
+                </Tabs>
               </Card>
 
+              {explainedRow && (
+                <Card className="p-6">
+                  <h3 className="text-lg font-semibold mb-4">Instance {result.instance_index} Values</h3>
+                  <InstanceAttributions shapValues={result.shap_values} columns={rowColumns} values={explainedRow.values} />
+                </Card>
+              )}
+
+              {explainedRow && resultForm?.file && (
+                <WhatIfPanel
+                  key={`${resultForm.file.name}-${resultForm.file.lastModified}-${result.instance_index}`}
+                  file={resultForm.file}
+                  schema={schema}
+                  modelName={result.model_name}
+                  modelVersion={result.model_version}
+                  targetVariable={resultForm.target_variable}
+                  sensitiveAttribute={resultForm.sensitive_attribute}
+                  instanceIndex={result.instance_index}
+                  features={Object.keys(result.shap_values)}
+                  columns={rowColumns}
+                  values={explainedRow.values}
+                />
+              )}
+
               <Card className="p-6">
                 <h3 className="text-lg font-semibold mb-4">Recommendations</h3>
                 <div className="space-y-3">
@@ -305,7 +527,11 @@ export default function Explainability() {
             </>
           )}
           
-          {!result && !loading && (
+          {mode === "global" && globalResult && (
+            <GlobalExplanation result={globalResult} onSelectInstance={explainRow} />
+          )}
+
+          {!(mode === "local" ? result : globalResult) && !analyzing && (
             <Card className="p-6 text-center">
               <Brain className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
               <h3 className="text-lg font-semibold mb-2">No Explanation Generated</h3>
@@ -315,14 +541,14 @@ export default function Explainability() {
             </Card>
           )}
           
-          {loading && (
-            <Card className="p-6 text-center">
-              <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full mx-auto mb-4"></div>
-              <h3 className="text-lg font-semibold mb-2">Generating Explanation...</h3>
-              <p className="text-muted-foreground">
-                Creating SHAP-based explanations for your model
-              </p>
-            </Card>
+          {analyzing && (
+            <AnalysisProgress
+              stage={analysis.stage}
+              progress={analysis.progress}
+              message={analysis.message}
+              title="Generating explanation..."
+              onCancel={analysis.cancel}
+            />
           )}
         </div>
       </div>
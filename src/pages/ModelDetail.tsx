@@ -0,0 +1,363 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RiskGauge } from "@/components/dashboard/RiskGauge";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Brain,
+  CheckCircle,
+  Download,
+  ExternalLink,
+  FileText,
+  History,
+  LucideIcon,
+  Shield,
+  TrendingUp,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useActivePolicy } from "@/hooks/use-settings";
+import { dashboardApi, governanceApi, GovernanceModel, ModelRisk, ApiError } from "@/lib/api";
+import { FAIRNESS_METRICS, isMetricFair } from "@/lib/fairness";
+import { APPROVAL_STATE_LABELS } from "@/lib/governance";
+import { AUDIT_RUN_LABELS, AUDIT_RUN_ROUTES, AuditRun, AuditRunKind, listModelRuns, summarizeRun } from "@/lib/history";
+
+interface TimelineEvent {
+  id: string;
+  timestamp: string;
+  icon: LucideIcon;
+  title: string;
+  description: string;
+  run?: AuditRun;
+}
+
+interface RemediationAction {
+  source: AuditRun;
+  action: string;
+}
+
+// Runs are newest first
+const findLatest = <K extends AuditRunKind>(runs: AuditRun[], kind: K) =>
+  runs.find(run => run.kind === kind) as AuditRun<K> | undefined;
+
+// Only the latest run of each kind counts; later passing runs close earlier actions
+function getOpenActions(runs: AuditRun[]): RemediationAction[] {
+  const actions: RemediationAction[] = [];
+  const bias = findLatest(runs, "bias_detection");
+  if (bias && bias.result.audit_status !== "COMPLIANT") {
+    actions.push(...bias.result.recommendations.map(action => ({ source: bias, action })));
+  }
+  const groups = findLatest(runs, "group_bias_detection");
+  if (groups && groups.result.audit_status !== "COMPLIANT") {
+    actions.push(...groups.result.recommendations.map(action => ({ source: groups, action })));
+  }
+  const compliance = findLatest(runs, "compliance_report");
+  compliance?.result.report.regulations.forEach(regulation => {
+    regulation.clauses
+      .filter(clause => clause.status === "non-compliant")
+      .forEach(clause => actions.push({
+        source: compliance,
+        action: `Resolve ${regulation.name} ${clause.clause_id}: ${clause.title}`,
+      }));
+  });
+  return actions;
+}
+
+function buildTimeline(model: ModelRisk | null, governance: GovernanceModel | null, runs: AuditRun[]) {
+  const events: TimelineEvent[] = runs.map(run => ({
+    id: run.id,
+    timestamp: run.createdAt,
+    icon: run.kind === "explainability" || run.kind === "global_explainability" ? Brain : run.kind === "compliance_report" ? FileText : TrendingUp,
+    title: AUDIT_RUN_LABELS[run.kind],
+    description: `${summarizeRun(run)} · ${run.file.name}`,
+    run,
+  }));
+  if (model) {
+    events.push({
+      id: "risk-assessment",
+      timestamp: model.last_audited,
+      icon: model.status === "COMPLIANT" ? CheckCircle : AlertTriangle,
+      title: "Risk assessment",
+      description: `${model.status} · risk score ${model.risk_score} · bias in ${model.bias_source}`,
+    });
+  }
+  governance?.approval_history.forEach((event, i) => {
+    events.push({
+      id: `approval-${i}`,
+      timestamp: event.timestamp,
+      icon: Shield,
+      title: `Moved to ${APPROVAL_STATE_LABELS[event.to_state]}`,
+      description: [event.actor, event.comment].filter(Boolean).join(" · "),
+    });
+  });
+  return events.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+export default function ModelDetail() {
+  const { name = "", version = "" } = useParams();
+  const [model, setModel] = useState<ModelRisk | null>(null);
+  const [governance, setGovernance] = useState<GovernanceModel | null>(null);
+  const [runs, setRuns] = useState<AuditRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const policy = useActivePolicy();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const fetchModel = useCallback(async () => {
+    setLoading(true);
+    // Saved runs are local, so they still show when the API is unreachable
+    const [riskResult, governanceResult, runsResult] = await Promise.allSettled([
+      dashboardApi.getModelRisk(),
+      governanceApi.getModel(name, version),
+      listModelRuns(name, version),
+    ]);
+
+    if (riskResult.status === "fulfilled") {
+      setModel(riskResult.value.find(entry => entry.model_name === name && entry.version === version) ?? null);
+    } else {
+      console.error('Model risk API error:', riskResult.reason);
+      toast({
+        title: "Could not load model risk",
+        description: riskResult.reason instanceof ApiError ? riskResult.reason.message : "Backend API not available",
+        variant: "destructive",
+      });
+    }
+
+    // Models that were never registered have no approval history
+    setGovernance(governanceResult.status === "fulfilled" ? governanceResult.value : null);
+
+    if (runsResult.status === "fulfilled") {
+      setRuns(runsResult.value);
+    } else {
+      console.error('Audit history error:', runsResult.reason);
+    }
+    setLoading(false);
+  }, [name, version, toast]);
+
+  useEffect(() => {
+    fetchModel();
+  }, [fetchModel]);
+
+  const biasRuns = runs.filter(run => run.kind === "bias_detection") as AuditRun<"bias_detection">[];
+  const latestExplanation = findLatest(runs, "explainability");
+  const openActions = getOpenActions(runs);
+  const timeline = buildTimeline(model, governance, runs);
+
+  const openRun = (run: AuditRun) => navigate(`${AUDIT_RUN_ROUTES[run.kind]}?run=${run.id}`);
+
+  const handleDownloadReport = (run: AuditRun<"compliance_report">) => {
+    const url = URL.createObjectURL(run.result.pdf);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${name}_v${version}_Compliance_Report.pdf`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const getStatusColor = (status: string) => {
+    return status === "COMPLIANT" ? "text-success" : "text-destructive";
+  };
+
+  const formatTimestamp = (timestamp: string) =>
+    timestamp.length === 10 ? timestamp : new Date(timestamp).toLocaleString();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">{name}</h1>
+          <p className="text-muted-foreground">
+            Version {version}
+            {governance && ` · ${APPROVAL_STATE_LABELS[governance.approval_state]} · owned by ${governance.owner}`}
+          </p>
+        </div>
+
+        <Button variant="outline" asChild>
+          <Link to="/">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Dashboard
+          </Link>
+        </Button>
+      </div>
+
+      {loading ? (
+        <Card className="p-6 animate-pulse">
+          <div className="h-24 bg-muted rounded"></div>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {model ? (
+              <>
+                <RiskGauge score={model.risk_score} />
+
+                <Card className="p-6">
+                  <h3 className="text-lg font-semibold mb-4">Risk Summary</h3>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <p className="text-muted-foreground">Status</p>
+                      <p className={`font-medium ${getStatusColor(model.status)}`}>{model.status}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Bias Source</p>
+                      <p className="font-medium">{model.bias_source}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Impact Ratio</p>
+                      <p className="font-medium">{model.disparate_impact.toFixed(3)}</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Last Audited</p>
+                      <p className="font-medium">{model.last_audited}</p>
+                    </div>
+                  </div>
+                </Card>
+              </>
+            ) : (
+              <Card className="p-6 lg:col-span-2 flex items-center justify-center">
+                <p className="text-muted-foreground">No risk assessment is recorded for this model version</p>
+              </Card>
+            )}
+
+            <Card className="p-6">
+              <h3 className="text-lg font-semibold mb-4">Open Remediation Actions</h3>
+              {openActions.length === 0 ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <CheckCircle className="w-4 h-4 text-success" />
+                  No open actions from the latest audits
+                </div>
+              ) : (
+                <ul className="space-y-3">
+                  {openActions.map(({ source, action }, i) => (
+                    <li key={i} className="flex items-start gap-2 text-sm">
+                      <AlertTriangle className="w-4 h-4 text-warning flex-shrink-0 mt-0.5" />
+                      <span>
+                        {action}
+                        <button className="block text-xs text-primary hover:text-primary-glow" onClick={() => openRun(source)}>
+                          From {AUDIT_RUN_LABELS[source.kind]}, {new Date(source.createdAt).toLocaleDateString()}
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card className="p-6">
+              <h3 className="text-lg font-semibold mb-4">Bias Metrics History</h3>
+              {biasRuns.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No bias detection runs saved for this model</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left p-2 text-muted-foreground font-medium">Date</th>
+                        {FAIRNESS_METRICS.map(({ key, label }) => (
+                          <th key={key} className="text-left p-2 text-muted-foreground font-medium">{label}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {biasRuns.map(run => (
+                        <tr key={run.id} className="border-b border-border/50 hover:bg-accent/30 cursor-pointer" onClick={() => openRun(run)}>
+                          <td className="p-2 text-muted-foreground whitespace-nowrap">{new Date(run.createdAt).toLocaleDateString()}</td>
+                          {FAIRNESS_METRICS.map(({ key }) => (
+                            <td
+                              key={key}
+                              className={`p-2 font-medium ${isMetricFair(key, run.result.metrics[key], policy.thresholds) ? "text-success" : "text-destructive"}`}
+                            >
+                              {run.result.metrics[key].toFixed(3)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Card>
+
+            <Card className="p-6">
+              <h3 className="text-lg font-semibold mb-4">Latest Explanation</h3>
+              {!latestExplanation ? (
+                <p className="text-sm text-muted-foreground">No explanations saved for this model</p>
+              ) : (
+                <div className="space-y-4">
+                  <p className="text-sm">{latestExplanation.result.natural_language_explanation}</p>
+                  <div className="space-y-2">
+                    {latestExplanation.result.feature_importance.slice(0, 5).map(feature => (
+                      <div key={feature.feature} className="flex justify-between text-sm">
+                        <span>{feature.feature}</span>
+                        <span className={feature.direction === "positive" ? "text-success" : "text-destructive"}>
+                          {feature.direction === "positive" ? "+" : "-"}{feature.importance.toFixed(3)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => openRun(latestExplanation)}>
+                    <ExternalLink className="w-4 h-4 mr-2" />
+                    Instance {latestExplanation.result.instance_index}, {new Date(latestExplanation.createdAt).toLocaleDateString()}
+                  </Button>
+                </div>
+              )}
+            </Card>
+          </div>
+
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold mb-4">Timeline</h3>
+            {timeline.length === 0 ? (
+              <div className="text-center py-8">
+                <History className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                <p className="text-muted-foreground">No audits or approvals recorded for this model</p>
+              </div>
+            ) : (
+              <ol className="relative border-l border-border ml-3 space-y-6">
+                {timeline.map(event => {
+                  const EventIcon = event.icon;
+                  return (
+                    <li key={event.id} className="ml-6">
+                      <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-card border border-border">
+                        <EventIcon className="w-3 h-3 text-primary" />
+                      </span>
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium">{event.title}</p>
+                            {event.run && <Badge variant="secondary">Saved run</Badge>}
+                          </div>
+                          <p className="text-xs text-muted-foreground">{formatTimestamp(event.timestamp)}</p>
+                          {event.description && <p className="text-sm text-muted-foreground mt-1">{event.description}</p>}
+                        </div>
+                        {event.run && (
+                          <div className="flex gap-2 flex-shrink-0">
+                            {event.run.kind === "compliance_report" && (
+                              <Button size="sm" variant="outline" onClick={() => handleDownloadReport(event.run as AuditRun<"compliance_report">)}>
+                                <Download className="w-4 h-4 mr-2" />
+                                PDF
+                              </Button>
+                            )}
+                            <Button size="sm" variant="outline" onClick={() => openRun(event.run!)}>
+                              <ExternalLink className="w-4 h-4 mr-2" />
+                              Open
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
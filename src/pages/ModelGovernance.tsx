@@ -0,0 +1,429 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { MetricCard } from "@/components/dashboard/MetricCard";
+import { ModelLink } from "@/components/common/ModelLink";
+import {
+  Activity,
+  Archive,
+  CheckCircle,
+  Clock,
+  ExternalLink,
+  FileText,
+  PenLine,
+  Plus,
+  Shield,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  governanceApi,
+  ApiError,
+  ApprovalState,
+  GovernanceModel,
+  GovernanceModelInput,
+} from "@/lib/api";
+import {
+  APPROVAL_STATES,
+  APPROVAL_STATE_LABELS,
+  APPROVAL_TRANSITIONS,
+  RISK_TIERS,
+  RISK_TIER_LABELS,
+} from "@/lib/governance";
+
+const emptyRegistration: GovernanceModelInput = {
+  model_name: "",
+  version: "",
+  owner: "",
+  risk_tier: "limited",
+};
+
+export default function ModelGovernance() {
+  const [models, setModels] = useState<GovernanceModel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [stateFilter, setStateFilter] = useState<ApprovalState | "all">("all");
+  const [selected, setSelected] = useState<GovernanceModel | null>(null);
+  const [comment, setComment] = useState("");
+  const [transitioning, setTransitioning] = useState(false);
+  const [registerOpen, setRegisterOpen] = useState(false);
+  const [registration, setRegistration] = useState<GovernanceModelInput>(emptyRegistration);
+  const { toast } = useToast();
+
+  const fetchModels = useCallback(async () => {
+    try {
+      setLoading(true);
+      setModels(await governanceApi.listModels());
+    } catch (error) {
+      console.error('Governance API error:', error);
+      setModels([]);
+
+      toast({
+        title: "API Connection Issue",
+        description: error instanceof ApiError ? error.message : "Failed to load model registry",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchModels();
+  }, [fetchModels]);
+
+  const replaceModel = (updated: GovernanceModel) => {
+    setModels(prev => prev.map(model =>
+      model.model_name === updated.model_name && model.version === updated.version ? updated : model
+    ));
+    setSelected(updated);
+  };
+
+  const handleTransition = async (model: GovernanceModel, target: ApprovalState) => {
+    setTransitioning(true);
+    try {
+      replaceModel(await governanceApi.transition(model.model_name, model.version, target, comment));
+      setComment("");
+      toast({
+        title: "Approval state updated",
+        description: `${model.model_name} v${model.version} is now ${APPROVAL_STATE_LABELS[target]}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Transition failed",
+        description: error instanceof ApiError ? error.message : "Failed to update approval state",
+        variant: "destructive",
+      });
+    } finally {
+      setTransitioning(false);
+    }
+  };
+
+  const handleRegister = async () => {
+    const missing = (["model_name", "version", "owner"] as const).find(field => !registration[field].trim());
+    if (missing) {
+      toast({
+        title: "Missing required field",
+        description: `Please fill in ${missing.replace('_', ' ')}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const model = await governanceApi.registerModel(registration);
+      setModels(prev => [model, ...prev]);
+      setRegistration(emptyRegistration);
+      setRegisterOpen(false);
+      toast({
+        title: "Model registered",
+        description: `${model.model_name} v${model.version} added as draft`,
+      });
+    } catch (error) {
+      toast({
+        title: "Registration failed",
+        description: error instanceof ApiError ? error.message : "Failed to register model",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getApprovalColor = (state: ApprovalState) => {
+    switch (state) {
+      case "approved": return "bg-success/10 text-success border-success/20";
+      case "under_review": return "bg-warning/10 text-warning border-warning/20";
+      case "retired": return "bg-muted text-muted-foreground border-border";
+      default: return "bg-primary/10 text-primary border-primary/20";
+    }
+  };
+
+  const getRiskTierColor = (tier: string) => {
+    switch (tier) {
+      case "minimal": return "text-success";
+      case "limited": return "text-warning";
+      case "high": return "text-destructive";
+      default: return "text-risk-critical";
+    }
+  };
+
+  const countByState = (state: ApprovalState) => models.filter(model => model.approval_state === state).length;
+
+  const visibleModels = stateFilter === "all"
+    ? models
+    : models.filter(model => model.approval_state === stateFilter);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Model Governance</h1>
+          <p className="text-muted-foreground">Track ownership, risk tier and approval state of every audited model</p>
+        </div>
+
+        <div className="flex gap-3">
+          <Button onClick={fetchModels} variant="outline">
+            <Activity className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+          <Button onClick={() => setRegisterOpen(true)} className="bg-gradient-to-r from-primary to-primary-glow hover:shadow-lg">
+            <Plus className="w-4 h-4 mr-2" />
+            Register Model
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <MetricCard title="Draft" value={countByState("draft")} icon={PenLine} variant="default" />
+        <MetricCard title="Under Review" value={countByState("under_review")} icon={Clock} variant="warning" />
+        <MetricCard title="Approved" value={countByState("approved")} icon={CheckCircle} variant="success" />
+        <MetricCard title="Retired" value={countByState("retired")} icon={Archive} variant="default" />
+      </div>
+
+      <Card className="p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-semibold">Model Registry</h3>
+          <div className="flex gap-2">
+            {(["all", ...APPROVAL_STATES] as const).map(state => (
+              <Button
+                key={state}
+                size="sm"
+                variant={stateFilter === state ? "default" : "outline"}
+                onClick={() => setStateFilter(state)}
+              >
+                {state === "all" ? "All" : APPROVAL_STATE_LABELS[state]}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-10 bg-muted rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : visibleModels.length === 0 ? (
+          <div className="text-center py-8">
+            <Shield className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-semibold mb-2">No Models Found</h3>
+            <p className="text-muted-foreground">Register a model to start tracking its governance state</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-3 text-muted-foreground font-medium">Model Name</th>
+                  <th className="text-left p-3 text-muted-foreground font-medium">Version</th>
+                  <th className="text-left p-3 text-muted-foreground font-medium">Owner</th>
+                  <th className="text-left p-3 text-muted-foreground font-medium">Risk Tier</th>
+                  <th className="text-left p-3 text-muted-foreground font-medium">Approval State</th>
+                  <th className="text-left p-3 text-muted-foreground font-medium">Artifacts</th>
+                  <th className="text-left p-3 text-muted-foreground font-medium">Updated</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleModels.map(model => (
+                  <tr
+                    key={`${model.model_name}@${model.version}`}
+                    className="border-b border-border/50 hover:bg-accent/30 cursor-pointer"
+                    onClick={() => setSelected(model)}
+                  >
+                    <td className="p-3 font-medium">{model.model_name}</td>
+                    <td className="p-3 text-muted-foreground">{model.version}</td>
+                    <td className="p-3 text-muted-foreground">{model.owner}</td>
+                    <td className="p-3">
+                      <span className={`font-medium ${getRiskTierColor(model.risk_tier)}`}>
+                        {RISK_TIER_LABELS[model.risk_tier] ?? model.risk_tier}
+                      </span>
+                    </td>
+                    <td className="p-3">
+                      <Badge variant="outline" className={getApprovalColor(model.approval_state)}>
+                        {APPROVAL_STATE_LABELS[model.approval_state] ?? model.approval_state}
+                      </Badge>
+                    </td>
+                    <td className="p-3 text-muted-foreground">{model.audit_artifacts.length}</td>
+                    <td className="p-3 text-muted-foreground">{new Date(model.updated_at).toLocaleDateString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {/* Model detail */}
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selected.model_name} v{selected.version}</DialogTitle>
+                <DialogDescription>
+                  Owned by {selected.owner} · {RISK_TIER_LABELS[selected.risk_tier]} risk tier ·{" "}
+                  <ModelLink modelName={selected.model_name} version={selected.version}>View model details</ModelLink>
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Approval State</span>
+                  <Badge variant="outline" className={getApprovalColor(selected.approval_state)}>
+                    {APPROVAL_STATE_LABELS[selected.approval_state]}
+                  </Badge>
+                </div>
+
+                <div>
+                  <h4 className="text-sm font-medium mb-3">Audit Artifacts</h4>
+                  {selected.audit_artifacts.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No audit artifacts linked yet</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {selected.audit_artifacts.map(artifact => (
+                        <div key={artifact.artifact_id} className="flex items-center justify-between p-3 bg-card rounded-lg border">
+                          <div className="flex items-center gap-3">
+                            <FileText className="w-4 h-4 text-primary" />
+                            <div>
+                              <p className="text-sm font-medium">{artifact.title}</p>
+                              <p className="text-xs text-muted-foreground capitalize">
+                                {artifact.type.replace(/_/g, ' ')} · {new Date(artifact.created_at).toLocaleString()}
+                              </p>
+                            </div>
+                          </div>
+                          {artifact.url && (
+                            <a href={artifact.url} target="_blank" rel="noreferrer" className="text-primary hover:text-primary-glow">
+                              <ExternalLink className="w-4 h-4" />
+                            </a>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {selected.approval_history.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium mb-3">Approval History</h4>
+                    <div className="space-y-2 max-h-40 overflow-y-auto">
+                      {selected.approval_history.map((event, index) => (
+                        <div key={index} className="border-l-4 border-primary pl-3 text-sm">
+                          <p className="font-medium">
+                            {event.from_state ? `${APPROVAL_STATE_LABELS[event.from_state]} → ` : ""}
+                            {APPROVAL_STATE_LABELS[event.to_state]}
+                          </p>
+                          <p className="text-muted-foreground">
+                            {event.actor} · {new Date(event.timestamp).toLocaleString()}
+                            {event.comment && ` — ${event.comment}`}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {APPROVAL_TRANSITIONS[selected.approval_state].length > 0 && (
+                  <div className="space-y-3">
+                    <Label htmlFor="transition_comment">Comment</Label>
+                    <Textarea
+                      id="transition_comment"
+                      placeholder="Reason for the change (recorded in the approval history)"
+                      value={comment}
+                      onChange={(e) => setComment(e.target.value)}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <DialogFooter>
+                {APPROVAL_TRANSITIONS[selected.approval_state].map(target => (
+                  <Button
+                    key={target}
+                    variant={target === "draft" ? "outline" : "default"}
+                    disabled={transitioning}
+                    onClick={() => handleTransition(selected, target)}
+                  >
+                    {target === "draft" ? "Return to Draft" : `Move to ${APPROVAL_STATE_LABELS[target]}`}
+                  </Button>
+                ))}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Register model */}
+      <Dialog open={registerOpen} onOpenChange={setRegisterOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Register Model</DialogTitle>
+            <DialogDescription>New models start in the draft state</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="register_model_name">Model Name</Label>
+                <Input
+                  id="register_model_name"
+                  placeholder="e.g., hiring_classifier"
+                  value={registration.model_name}
+                  onChange={(e) => setRegistration(prev => ({ ...prev, model_name: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="register_version">Version</Label>
+                <Input
+                  id="register_version"
+                  placeholder="e.g., 1.0"
+                  value={registration.version}
+                  onChange={(e) => setRegistration(prev => ({ ...prev, version: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="register_owner">Owner</Label>
+              <Input
+                id="register_owner"
+                placeholder="e.g., risk-analytics@company.com"
+                value={registration.owner}
+                onChange={(e) => setRegistration(prev => ({ ...prev, owner: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="register_risk_tier">Risk Tier</Label>
+              <Select
+                value={registration.risk_tier}
+                onValueChange={(value) => setRegistration(prev => ({ ...prev, risk_tier: value as GovernanceModelInput["risk_tier"] }))}
+              >
+                <SelectTrigger id="register_risk_tier">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RISK_TIERS.map(tier => (
+                    <SelectItem key={tier} value={tier}>{RISK_TIER_LABELS[tier]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRegisterOpen(false)}>Cancel</Button>
+            <Button onClick={handleRegister}>Register</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { useTheme } from "next-themes";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { RotateCcw, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_API_BASE_URL } from "@/lib/api";
+import { pruneExpiredRuns } from "@/lib/history";
+import { POLICY_PROFILES } from "@/lib/policies";
+import {
+  AppSettings,
+  DEFAULT_SETTINGS,
+  getSettings,
+  REPORT_ROLE_LABELS,
+  REPORT_ROLES,
+  ReportRole,
+  updateSettings,
+} from "@/lib/settings";
+
+interface SettingsForm {
+  policyProfileId: string;
+  apiBaseUrl: string;
+  demoMode: boolean;
+  requestTimeoutSeconds: string;
+  uploadTimeoutSeconds: string;
+  defaultReportRole: ReportRole;
+  defaultSensitiveAttributes: string;
+  retentionDays: string;
+}
+
+const RETENTION_OPTIONS = ["0", "7", "30", "90", "365"];
+
+const toForm = (settings: AppSettings): SettingsForm => ({
+  policyProfileId: settings.policyProfileId,
+  apiBaseUrl: settings.apiBaseUrl,
+  demoMode: settings.demoMode,
+  requestTimeoutSeconds: String(settings.requestTimeoutSeconds),
+  uploadTimeoutSeconds: String(settings.uploadTimeoutSeconds),
+  defaultReportRole: settings.defaultReportRole,
+  defaultSensitiveAttributes: settings.defaultSensitiveAttributes.join(", "),
+  retentionDays: String(settings.retentionDays),
+});
+
+export default function Settings() {
+  const [form, setForm] = useState<SettingsForm>(() => toForm(getSettings()));
+  const [saving, setSaving] = useState(false);
+  const { theme, setTheme } = useTheme();
+  const { toast } = useToast();
+
+  const handleInputChange = (field: keyof SettingsForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const validateForm = () => {
+    if (form.apiBaseUrl.trim()) {
+      try {
+        new URL(form.apiBaseUrl.trim());
+      } catch {
+        toast({
+          title: "Invalid API base URL",
+          description: "Enter a full URL such as https://auditor.example.com",
+          variant: "destructive",
+        });
+        return false;
+      }
+    }
+
+    for (const field of ['requestTimeoutSeconds', 'uploadTimeoutSeconds'] as const) {
+      const seconds = Number(form[field]);
+      if (!Number.isFinite(seconds) || seconds <= 0) {
+        toast({
+          title: "Invalid timeout",
+          description: "Timeouts must be a positive number of seconds",
+          variant: "destructive",
+        });
+        return false;
+      }
+    }
+
+    return true;
+  };
+
+  const handleSave = async () => {
+    if (!validateForm()) return;
+
+    setSaving(true);
+    try {
+      updateSettings({
+        policyProfileId: form.policyProfileId,
+        apiBaseUrl: form.apiBaseUrl.trim().replace(/\/+$/, ""),
+        demoMode: form.demoMode,
+        requestTimeoutSeconds: Number(form.requestTimeoutSeconds),
+        uploadTimeoutSeconds: Number(form.uploadTimeoutSeconds),
+        defaultReportRole: form.defaultReportRole,
+        defaultSensitiveAttributes: form.defaultSensitiveAttributes
+          .split(",")
+          .map(name => name.trim())
+          .filter(Boolean),
+        retentionDays: Number(form.retentionDays),
+      });
+      const removed = await pruneExpiredRuns();
+      toast({
+        title: "Settings saved",
+        description: removed > 0
+          ? `Removed ${removed} saved run${removed === 1 ? "" : "s"} past the retention period`
+          : "Changes apply to the next request",
+      });
+    } catch (error) {
+      console.error('Settings error:', error);
+      toast({
+        title: "Could not apply retention",
+        description: "Settings were saved but old runs could not be removed",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    setForm(toForm(DEFAULT_SETTINGS));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Settings</h1>
+          <p className="text-muted-foreground">Preferences stored in this browser</p>
+        </div>
+
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={handleReset}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset to Defaults
+          </Button>
+          <Button onClick={handleSave} disabled={saving} className="bg-gradient-to-r from-primary to-primary-glow">
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? "Saving..." : "Save Settings"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-4">API Connection</h3>
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="demo_mode">Demo Mode</Label>
+                <p className="text-xs text-muted-foreground">
+                  Answer requests in the browser from the uploaded CSV and sample data, with no server
+                </p>
+              </div>
+              <Switch
+                id="demo_mode"
+                checked={form.demoMode}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, demoMode: checked }))}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="api_base_url">API Base URL</Label>
+              <Input
+                id="api_base_url"
+                placeholder={DEFAULT_API_BASE_URL}
+                value={form.apiBaseUrl}
+                disabled={form.demoMode}
+                onChange={(e) => handleInputChange('apiBaseUrl', e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground mt-1">Leave empty to use the build default</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="request_timeout">Request Timeout (s)</Label>
+                <Input
+                  id="request_timeout"
+                  type="number"
+                  min="1"
+                  value={form.requestTimeoutSeconds}
+                  onChange={(e) => handleInputChange('requestTimeoutSeconds', e.target.value)}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="upload_timeout">Upload Timeout (s)</Label>
+                <Input
+                  id="upload_timeout"
+                  type="number"
+                  min="1"
+                  value={form.uploadTimeoutSeconds}
+                  onChange={(e) => handleInputChange('uploadTimeoutSeconds', e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground mt-1">Counted from the last bytes sent</p>
+              </div>
+            </div>
+          </div>
+        </Card>
+
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-4">Analysis Defaults</h3>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="policy_profile">Fairness Policy</Label>
+              <Select value={form.policyProfileId} onValueChange={(value) => handleInputChange('policyProfileId', value)}>
+                <SelectTrigger id="policy_profile">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {POLICY_PROFILES.map(profile => (
+                    <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="report_role">Default Report Role</Label>
+              <Select value={form.defaultReportRole} onValueChange={(value) => handleInputChange('defaultReportRole', value)}>
+                <SelectTrigger id="report_role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPORT_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{REPORT_ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="sensitive_attributes">Default Sensitive Attributes</Label>
+              <Input
+                id="sensitive_attributes"
+                placeholder="e.g., gender, race, age_group"
+                value={form.defaultSensitiveAttributes}
+                onChange={(e) => handleInputChange('defaultSensitiveAttributes', e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Comma-separated column names, preselected when they appear in an uploaded file
+              </p>
+            </div>
+          </div>
+        </Card>
+
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-4">Appearance</h3>
+          <div>
+            <Label htmlFor="theme">Theme</Label>
+            <Select value={theme} onValueChange={setTheme}>
+              <SelectTrigger id="theme">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="dark">Dark</SelectItem>
+                <SelectItem value="light">Light</SelectItem>
+                <SelectItem value="system">System</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">Applied immediately</p>
+          </div>
+        </Card>
+
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-4">Data Retention</h3>
+          <div>
+            <Label htmlFor="retention">Keep Saved Runs</Label>
+            <Select value={form.retentionDays} onValueChange={(value) => handleInputChange('retentionDays', value)}>
+              <SelectTrigger id="retention">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RETENTION_OPTIONS.map(days => (
+                  <SelectItem key={days} value={days}>
+                    {days === "0" ? "Forever" : `For ${days} days`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">
+              Older runs are deleted from this browser on startup and when settings are saved
+            </p>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+// Streams a CSV file off the main thread and reports its column profile
+import { createCsvProfiler, CsvWorkerMessage, DatasetSchema, streamCsv } from '@/lib/csv';
+
+export type CsvProfilerRequest = { file: File };
+
+export type CsvProfilerMessage = CsvWorkerMessage<DatasetSchema>;
+
+const post = (message: CsvProfilerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<CsvProfilerRequest>) => {
+  const { file } = event.data;
+
+  try {
+    const profiler = createCsvProfiler(file.name);
+    await streamCsv(file, profiler.addRow, (bytesRead, totalBytes) => post({ type: 'progress', bytesRead, totalBytes }));
+
+    const schema = profiler.finish();
+    if (schema.columns.length === 0) {
+      throw new Error('The file has no header row');
+    }
+    post({ type: 'done', result: schema });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to parse CSV' });
+  }
+};
@@ -0,0 +1,68 @@
+// Streams a CSV file off the main thread and returns one page of the rows matching a query
+import { CsvWorkerMessage, readHeader, streamCsv } from '@/lib/csv';
+
+export interface CsvRowQuery {
+  // Exact value required per column, compared without surrounding whitespace
+  filters: Record<string, string>;
+  // Case-insensitive text that must appear in one of the row's values
+  search: string;
+  offset: number;
+  limit: number;
+}
+
+export interface CsvRow {
+  // Position among the file's data rows, as used for instance_index
+  index: number;
+  values: string[];
+}
+
+export interface CsvRowsResult {
+  columns: string[];
+  rows: CsvRow[];
+  matchCount: number;
+}
+
+export type CsvRowsRequest = { file: File; query: CsvRowQuery };
+
+export type CsvRowsMessage = CsvWorkerMessage<CsvRowsResult>;
+
+const post = (message: CsvRowsMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<CsvRowsRequest>) => {
+  const { file, query } = event.data;
+  const search = query.search.trim().toLowerCase();
+
+  try {
+    let columns: string[] | null = null;
+    let filters: Array<[number, string]> = [];
+    let index = 0;
+    let matchCount = 0;
+    const rows: CsvRow[] = [];
+
+    await streamCsv(file, (values) => {
+      if (!columns) {
+        columns = readHeader(values);
+        filters = Object.entries(query.filters).map(([column, value]) => {
+          const position = columns.indexOf(column.trim());
+          if (position === -1) throw new Error(`Column "${column}" does not exist in ${file.name}`);
+          return [position, value.trim()];
+        });
+        return;
+      }
+      const rowIndex = index++;
+      if (filters.some(([column, value]) => (values[column] ?? '').trim() !== value)) return;
+      if (search && !values.some((value) => value.toLowerCase().includes(search))) return;
+      if (matchCount >= query.offset && rows.length < query.limit) {
+        rows.push({ index: rowIndex, values });
+      }
+      matchCount += 1;
+    }, (bytesRead, totalBytes) => post({ type: 'progress', bytesRead, totalBytes }));
+
+    if (!columns) {
+      throw new Error('The file has no header row');
+    }
+    post({ type: 'done', result: { columns, rows, matchCount } });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to read CSV rows' });
+  }
+};
@@ -0,0 +1,22 @@
+// Streams a CSV file off the main thread and reports its dataset-level bias diagnostics
+import { CsvWorkerMessage, streamCsv } from '@/lib/csv';
+import { createDatasetAuditor, DataAuditConfig, DataAuditReport } from '@/lib/diagnostics';
+
+export type DataAuditRequest = { file: File; config: DataAuditConfig };
+
+export type DataAuditMessage = CsvWorkerMessage<DataAuditReport>;
+
+const post = (message: DataAuditMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<DataAuditRequest>) => {
+  const { file, config } = event.data;
+
+  try {
+    const auditor = createDatasetAuditor(file.name, config);
+    await streamCsv(file, auditor.addRow, (bytesRead, totalBytes) => post({ type: 'progress', bytesRead, totalBytes }));
+
+    post({ type: 'done', result: auditor.finish() });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to audit CSV' });
+  }
+};